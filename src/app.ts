@@ -7,10 +7,28 @@ import authRoutes from './routes/authRoutes';
 import userRoutes from './routes/userRoutes';
 import vehicleRoutes from './routes/vehicleRoutes';
 import imageRoutes from './routes/imageRoutes';
+import adminRoutes from './routes/adminRoutes';
+import organizationRoutes from './routes/organizationRoutes';
+import reviewRoutes from './routes/reviewRoutes';
+import favoriteRoutes from './routes/favoriteRoutes';
+import savedSearchRoutes from './routes/savedSearchRoutes';
+import conversationRoutes from './routes/conversationRoutes';
+import wellKnownRoutes from './routes/wellKnownRoutes';
+import { initializeKeys } from './services/keyManager';
+import { startJobs } from './jobs';
 import { openApiSpec } from './schemas/scalarSchema';
 
 dotenv.config();
 
+// Sem chave de assinatura o servidor não sobe, em vez de usar um segredo padrão
+try {
+    const keys = initializeKeys();
+    console.log(`Chave JWT carregada (kid ${keys.current.kid}, ${keys.current.alg}); ${keys.verificationKeys.size} chave(s) de verificação`);
+} catch (err: any) {
+    console.error('Falha ao carregar as chaves JWT:', err.message);
+    process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -22,6 +40,7 @@ app.use(cors({
 }));
 
 initializeDatabase();
+startJobs(); // Tarefas periódicas (ex.: exclusão definitiva de contas)
 
 // Documentação da API com Scalar
 app.use('/api-docs', apiReference({
@@ -41,6 +60,13 @@ app.use('/auth', authRoutes);
 app.use('/user', userRoutes);
 app.use('/vehicles', vehicleRoutes);
 app.use('/images', imageRoutes);
+app.use('/admin', adminRoutes);
+app.use('/organizations', organizationRoutes);
+app.use('/reviews', reviewRoutes);
+app.use('/favorites', favoriteRoutes);
+app.use('/saved-searches', savedSearchRoutes);
+app.use('/conversations', conversationRoutes);
+app.use('/.well-known', wellKnownRoutes);
 
 // Inicia o servidor
 app.listen(PORT, () => {
@@ -0,0 +1,295 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import User, { User as UserDocument } from '../models/User';
+import Vehicle from '../models/Vehicle';
+import Review from '../models/Review';
+import ReviewReport from '../models/ReviewReport';
+import { listUsersQuerySchema, updateUserStatusSchema, updateUserRolesSchema, updateUserListingTierSchema, listReviewReportsQuerySchema, resolveReviewReportSchema } from '../schemas/adminSchema';
+import { revokeAllSessions } from '../services/sessionService';
+import { purgeVehicle, escapeRegex } from '../services/vehicleService';
+
+// Campos nunca expostos, nem para a moderação
+const HIDDEN_USER_FIELDS = '-password -resetPasswordToken -resetPasswordExpires';
+
+const isStaff = (user: UserDocument) => user.roles?.some(role => role === 'admin' || role === 'moderator');
+
+export const listUsers = async (req: Request, res: Response) => {
+    try {
+        const page = parseInt(req.query.page as string) || 1; // Padrão para página 1
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100); // Padrão de 20, máximo de 100 por página
+        const { q, role, status } = listUsersQuerySchema.parse(req.query);
+        const skip = (page - 1) * limit;
+
+        const filter: any = {};
+
+        if (q) {
+            const searchRegex = new RegExp(escapeRegex(q), 'i');
+            filter.$or = [{ username: searchRegex }, { email: searchRegex }, { phone: searchRegex }];
+        }
+        if (role) {
+            filter.roles = role;
+        }
+        if (status) {
+            filter.accountStatus = status;
+        }
+
+        const users = await User.find(filter)
+            .select(HIDDEN_USER_FIELDS)
+            .sort({ created_at: -1 })
+            .skip(skip)
+            .limit(limit);
+
+        const totalUsers = await User.countDocuments(filter);
+
+        res.status(200).json({
+            users,
+            currentPage: page,
+            totalPages: Math.ceil(totalUsers / limit),
+            totalUsers,
+        });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const getUserById = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        const user = await User.findById(id).select(HIDDEN_USER_FIELDS);
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        const totalVehicles = await Vehicle.countDocuments({ owner_id: id });
+
+        res.status(200).json({ user, totalVehicles });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const updateUserStatus = async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const actor = req.user!;
+
+    try {
+        const { status, reason, suspendedUntil } = updateUserStatusSchema.parse(req.body);
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (id === actor._id.toString()) {
+            return res.status(400).json({ message: 'Você não pode alterar o status da sua própria conta' });
+        }
+
+        const isAdmin = actor.roles.includes('admin');
+
+        if (status === 'banned' && !isAdmin) {
+            return res.status(403).json({ message: 'Apenas administradores podem banir contas' });
+        }
+
+        if (status === 'suspended' && suspendedUntil && suspendedUntil <= new Date()) {
+            return res.status(400).json({ message: 'A data de fim da suspensão deve estar no futuro' });
+        }
+
+        const target = await User.findById(id);
+
+        if (!target) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        // Moderadores só podem agir sobre usuários comuns
+        if (isStaff(target) && !isAdmin) {
+            return res.status(403).json({ message: 'Acesso negado: permissão insuficiente' });
+        }
+
+        target.accountStatus = status;
+        target.statusReason = status === 'active' ? undefined : reason;
+        target.suspendedUntil = status === 'suspended' ? suspendedUntil : undefined;
+        await target.save();
+
+        // Contas suspensas ou banidas perdem imediatamente todas as sessões
+        if (status !== 'active') {
+            await revokeAllSessions(id, `account_${status}`);
+        }
+
+        res.status(200).json({ message: 'Status da conta atualizado com sucesso', user: await User.findById(id).select(HIDDEN_USER_FIELDS) });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const updateUserRoles = async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const actor = req.user!;
+
+    try {
+        const { roles } = updateUserRolesSchema.parse(req.body);
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        // Evita que o último acesso administrativo seja removido por engano
+        if (id === actor._id.toString() && !roles.includes('admin')) {
+            return res.status(400).json({ message: 'Você não pode remover o seu próprio papel de administrador' });
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(
+            id,
+            { $set: { roles: Array.from(new Set(roles)) } },
+            { new: true, runValidators: true }
+        ).select(HIDDEN_USER_FIELDS);
+
+        if (!updatedUser) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        res.status(200).json({ message: 'Papéis do usuário atualizados com sucesso', user: updatedUser });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+// Vale para os anúncios publicados, reativados ou renovados a partir de agora; os atuais mantêm a validade
+export const updateUserListingTier = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const { listingTier } = updateUserListingTierSchema.parse(req.body);
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(
+            id,
+            { $set: { listingTier } },
+            { new: true, runValidators: true }
+        ).select(HIDDEN_USER_FIELDS);
+
+        if (!updatedUser) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        res.status(200).json({ message: 'Perfil de anunciante atualizado com sucesso', user: updatedUser });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const forceDeleteVehicle = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        const vehicle = await Vehicle.findById(id);
+
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        // Remove imagens (Cloudinary e banco) e o registro do veículo, independentemente do dono
+        await purgeVehicle(id);
+
+        res.status(200).json({ message: 'Veículo excluído com sucesso' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const listReviewReports = async (req: Request, res: Response) => {
+    try {
+        const page = parseInt(req.query.page as string) || 1; // Padrão para página 1
+        const limit = Math.min(parseInt(req.query.limit as string) || 20, 100); // Padrão de 20, máximo de 100 por página
+        const { status } = listReviewReportsQuerySchema.parse(req.query);
+        const filter = { status };
+
+        const reports = await ReviewReport.find(filter)
+            .populate('review_id')
+            .populate('reporter_id', 'username email')
+            .sort({ created_at: 1 }) // Denúncias mais antigas primeiro
+            .skip((page - 1) * limit)
+            .limit(limit);
+
+        const totalReports = await ReviewReport.countDocuments(filter);
+
+        res.status(200).json({
+            reports,
+            currentPage: page,
+            totalPages: Math.ceil(totalReports / limit),
+            totalReports,
+        });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
+
+export const resolveReviewReport = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const { action, reason } = resolveReviewReportSchema.parse(req.body);
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Denúncia não encontrada' });
+        }
+
+        const report = await ReviewReport.findOne({ _id: id, status: 'open' });
+
+        if (!report) {
+            return res.status(404).json({ message: 'Denúncia não encontrada ou já analisada' });
+        }
+
+        const resolution = { resolved_by: req.userId, resolved_at: new Date() };
+
+        if (action === 'hide_review') {
+            // Ocultar a avaliação encerra todas as denúncias abertas sobre ela
+            await Review.updateOne({ _id: report.review_id }, { $set: { status: 'hidden', moderationReason: reason } });
+            await ReviewReport.updateMany({ review_id: report.review_id, status: 'open' }, { $set: { status: 'actioned', ...resolution } });
+        } else {
+            await ReviewReport.updateOne({ _id: id }, { $set: { status: 'dismissed', ...resolution } });
+        }
+
+        res.status(200).json({ message: action === 'hide_review' ? 'Avaliação ocultada' : 'Denúncia descartada' });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor', error: err.message });
+    }
+};
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import { createApiKeySchema } from '../schemas/apiKeySchema';
+import {
+    createApiKey,
+    listActiveApiKeys,
+    countActiveApiKeys,
+    revokeApiKey,
+    MAX_API_KEYS_PER_USER,
+} from '../services/apiKeyService';
+
+export const listApiKeys = async (req: Request, res: Response) => {
+    try {
+        const apiKeys = await listActiveApiKeys(req.userId!);
+
+        res.status(200).json({ apiKeys });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const createUserApiKey = async (req: Request, res: Response) => {
+    try {
+        const { name, scopes } = createApiKeySchema.parse(req.body);
+
+        if (await countActiveApiKeys(req.userId!) >= MAX_API_KEYS_PER_USER) {
+            return res.status(400).json({ message: `Limite de ${MAX_API_KEYS_PER_USER} chaves de API ativas atingido. Revogue uma chave antes de criar outra.` });
+        }
+
+        const { key, apiKey } = await createApiKey(req.userId!, name, scopes);
+
+        // A chave completa é exibida somente nesta resposta
+        res.status(201).json({
+            message: 'Chave de API criada com sucesso. Guarde-a em local seguro, ela não será exibida novamente.',
+            key,
+            apiKey,
+        });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const revokeUserApiKey = async (req: Request, res: Response) => {
+    const { keyId } = req.params;
+
+    try {
+        if (!isValidObjectId(keyId) || !(await revokeApiKey(keyId, req.userId!))) {
+            return res.status(404).json({ message: 'Chave de API não encontrada' });
+        }
+
+        res.status(200).json({ message: 'Chave de API revogada com sucesso' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -2,12 +2,41 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
-import transporter from '../config/email';
 import User from '../models/User';
 import { z } from 'zod';
-import { createUserSchema, forgotPasswordSchema } from '../schemas/userSchema'; // Importa o esquema de usuário e o esquema de forgotPassword
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key';
+import { createUserSchema, forgotPasswordSchema, magicLinkSchema } from '../schemas/userSchema'; // Importa o esquema de usuário e o esquema de forgotPassword
+import { createSession, rotateSession, revokeSession } from '../services/sessionService';
+import { revokeAccessToken, revokeAllUserTokens } from '../services/tokenRevocationService';
+import { revokeAllApiKeys } from '../services/apiKeyService';
+import { applyNewPassword, isRecentPassword, hashPassword } from '../services/passwordService';
+import { completeLogin, getAccountRestriction, toLoginResponse } from '../services/loginService';
+import { sendMailWithRetry } from '../services/emailService';
+import { recordFailedAttempt, clearAccountAttempts } from '../services/bruteForceService';
+import { getClientIp, sendTooManyAttempts } from '../middleware/bruteForceMiddleware';
+import { signPurposeToken, verifyPurposeToken, hashToken } from '../services/tokenService';
+import { sendMagicLink, consumeMagicLink } from '../services/magicLinkService';
+
+const EMAIL_VERIFICATION_TTL = '24h';
+const EMAIL_VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minuto entre reenvios
+
+// Envia o link de verificação de e-mail. O token é assinado e atrelado ao e-mail atual do usuário.
+const sendVerificationEmail = async (user: { _id: any; username?: string; email: string }) => {
+    const token = signPurposeToken({ id: user._id.toString(), email: user.email }, 'email-verification', EMAIL_VERIFICATION_TTL);
+    const verifyUrl = `${process.env.FRONTEND_DOMAIN}/verificar-email/${token}`;
+
+    await sendMailWithRetry({
+        to: user.email,
+        subject: '.CARRO: Confirme seu e-mail',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Obrigado por se cadastrar na .CARRO! Para publicar anúncios, confirme que este e-mail é seu:</p>
+            <h3><a href="${verifyUrl}" style="color: #007bff; text-decoration: none;">Confirmar meu e-mail</a></h3>
+            <p>Este link é válido por <b>24 horas</b>.</p>
+            <p>Se você não criou uma conta na .CARRO, por favor, ignore este e-mail.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+};
 
 export const registerUser = async (req: Request, res: Response) => {
     try {
@@ -27,8 +56,7 @@ export const registerUser = async (req: Request, res: Response) => {
             }
         }
 
-        const salt = await bcrypt.genSalt(10);
-        const hashedPassword = await bcrypt.hash(password, salt);
+        const hashedPassword = await hashPassword(password);
 
         const newUser = new User({
             username,
@@ -36,19 +64,24 @@ export const registerUser = async (req: Request, res: Response) => {
             password: hashedPassword,
             phone,
             city,
-            state
+            state,
+            emailVerified: false,
+            emailVerificationSentAt: new Date(),
         });
 
         await newUser.save();
 
-        const accessToken = jwt.sign({ id: newUser._id }, JWT_SECRET, { expiresIn: '1h' });
-
-        const refreshToken = jwt.sign({ id: newUser._id }, JWT_SECRET, { expiresIn: '7d' }); // Refresh token válido por 7 dias
+        // A falha no envio não impede o cadastro: o usuário pode pedir o reenvio depois
+        try {
+            await sendVerificationEmail(newUser);
+        } catch (emailError) {
+            console.error('Erro ao enviar e-mail de verificação:', emailError);
+        }
 
-        newUser.refreshToken = refreshToken; // Armazena o refresh token JWT diretamente
-        await newUser.save();
+        // Cada registro/login abre uma sessão própria com seu refresh token rotativo
+        const { accessToken, refreshToken } = await createSession(newUser._id.toString(), req);
 
-        res.status(201).json({ message: 'Usuário registrado com sucesso', accessToken, userId: newUser._id, refreshToken });
+        res.status(201).json({ message: 'Usuário registrado com sucesso. Verifique seu e-mail para ativar a publicação de anúncios.', accessToken, userId: newUser._id, refreshToken, emailVerified: false });
     } catch (err: any) {
         if (err instanceof z.ZodError) {
             return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
@@ -58,6 +91,37 @@ export const registerUser = async (req: Request, res: Response) => {
     }
 };
 
+// Avisa o dono da conta quando ela é bloqueada por excesso de tentativas de login
+const sendLockoutEmail = async (user: { username?: string; email: string }, retryAfterMs: number) => {
+    const minutes = Math.ceil(retryAfterMs / 60000);
+    const resetUrl = `${process.env.FRONTEND_DOMAIN}/esqueci-minha-senha`;
+
+    await sendMailWithRetry({
+        to: user.email,
+        subject: '.CARRO: Acesso à sua conta bloqueado temporariamente',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Detectamos várias tentativas de login malsucedidas na sua conta .CARRO e bloqueamos novas tentativas por <b>${minutes} minuto(s)</b>.</p>
+            <p>Se foi você, aguarde e tente novamente. Se não reconhece essas tentativas, recomendamos <a href="${resetUrl}" style="color: #007bff; text-decoration: none;">redefinir sua senha</a>.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+};
+
+// Registra a falha de login; se ela provocar um bloqueio, responde 429 com Retry-After
+const rejectLogin = async (req: Request, res: Response, email: string, user?: { username?: string; email: string }) => {
+    const { accountLocked, retryAfterMs } = await recordFailedAttempt('login', getClientIp(req), email);
+
+    if (accountLocked && user) {
+        sendLockoutEmail(user, retryAfterMs).catch(emailError => console.error('Erro ao enviar e-mail de bloqueio:', emailError));
+    }
+
+    if (retryAfterMs > 0) {
+        return sendTooManyAttempts(res, retryAfterMs);
+    }
+    return res.status(400).json({ message: 'Credenciais inválidas' });
+};
+
 export const loginUser = async (req: Request, res: Response) => {
     const { email, password } = req.body;
 
@@ -65,31 +129,38 @@ export const loginUser = async (req: Request, res: Response) => {
         return res.status(400).json({ message: 'Por favor, preencha todos os campos' });
     }
 
+    if (typeof email !== 'string' || typeof password !== 'string') {
+        return res.status(400).json({ message: 'Credenciais inválidas' });
+    }
+
     try {
         const user = await User.findOne({ email });
 
         if (!user) {
-            return res.status(400).json({ message: 'Credenciais inválidas' });
+            return rejectLogin(req, res, email);
         }
 
-        const isMatch = await bcrypt.compare(password, user.password!);
+        // Contas criadas apenas com login externo não têm senha local
+        const isMatch = user.password ? await bcrypt.compare(password, user.password) : false;
         if (!isMatch) {
-            return res.status(400).json({ message: 'Credenciais inválidas' });
+            return rejectLogin(req, res, email, user);
         }
 
-        const accessToken = jwt.sign({ id: user._id }, JWT_SECRET, { expiresIn: '1h' });
+        await clearAccountAttempts('login', email);
 
-        // Gera um novo refresh token JWT para login
-        const newRefreshToken = jwt.sign({ id: user._id }, JWT_SECRET, { expiresIn: '7d' }); // Refresh token válido por 7 dias
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction, statusReason: user.statusReason });
+        }
 
-        user.refreshToken = newRefreshToken; // Armazena o refresh token JWT diretamente
-        await user.save();
+        // Uma nova sessão é criada por dispositivo, sem invalidar as sessões já existentes
+        const result = await completeLogin(user, req);
 
-        const userResponse = user.toObject();
-        delete userResponse.password;
-        delete userResponse.refreshToken;
+        if (result.twoFactorRequired) {
+            return res.status(200).json({ message: 'Verificação em duas etapas necessária', twoFactorRequired: true, challengeToken: result.challengeToken });
+        }
 
-        res.status(200).json({ message: 'Login bem-sucedido', accessToken, user: userResponse, refreshToken: newRefreshToken });
+        res.status(200).json(toLoginResponse(result));
     } catch (err) {
         console.error(err);
         res.status(500).json({ message: 'Erro do servidor' });
@@ -101,15 +172,21 @@ export const forgotPassword = async (req: Request, res: Response) => {
         // Validação do email
         const { email } = forgotPasswordSchema.parse(req.body);
 
+        // Cada solicitação conta para o limite, pois dispara um e-mail
+        const { retryAfterMs } = await recordFailedAttempt('forgot-password', getClientIp(req), email);
+        if (retryAfterMs > 0) {
+            return sendTooManyAttempts(res, retryAfterMs);
+        }
+
         // Busca do usuário
         const user = await User.findOne({ email });
         if (!user) {
             return res.status(404).json({ message: 'Usuário não encontrado' });
         }
 
-        // Gera um token de redefinição
+        // Gera um token de redefinição; apenas o hash fica no banco
         const resetToken = crypto.randomBytes(20).toString('hex');
-        user.resetPasswordToken = resetToken;
+        user.resetPasswordToken = hashToken(resetToken);
         user.resetPasswordExpires = new Date(Date.now() + 3600000); // 1 hora
 
         // Salva o usuário com o token
@@ -131,7 +208,6 @@ export const forgotPassword = async (req: Request, res: Response) => {
 
         const mailOptions = {
             to: user.email,
-            from: `.CARRO <${process.env.GMAIL_ADDRESS}>`,
             subject: '.CARRO: Redefinição de Senha',
             html: `
                 Olá ${user.username || 'usuário'},
@@ -144,31 +220,15 @@ export const forgotPassword = async (req: Request, res: Response) => {
             `,
         };
 
-        // Tenta enviar o email com retry e timeout
+        // Tenta enviar o email com retry
         let emailSent = false;
         let lastError: any = null;
 
-        for (let attempt = 1; attempt <= 3; attempt++) {
-            try {
-                console.log(`Tentativa ${attempt} de envio de email para ${user.email}`);
-                await transporter.sendMail(mailOptions);
-                emailSent = true;
-                console.log(`Email enviado com sucesso na tentativa ${attempt}`);
-                break;
-            } catch (emailError: any) {
-                console.error(`Erro na tentativa ${attempt} ao enviar email:`, emailError);
-                lastError = emailError;
-
-                // Se for erro de autenticação, não tentar novamente
-                if (emailError.code === 'EAUTH' || emailError.code === 'EENVELOPE') {
-                    break;
-                }
-
-                // Esperar antes de tentar novamente (exceto na última tentativa)
-                if (attempt < 3) {
-                    await new Promise(resolve => setTimeout(resolve, 2000 * attempt)); // Espera crescente
-                }
-            }
+        try {
+            await sendMailWithRetry(mailOptions);
+            emailSent = true;
+        } catch (emailError: any) {
+            lastError = emailError;
         }
 
         if (!emailSent) {
@@ -201,17 +261,81 @@ export const forgotPassword = async (req: Request, res: Response) => {
     }
 };
 
+export const requestMagicLink = async (req: Request, res: Response) => {
+    try {
+        const { email } = magicLinkSchema.parse(req.body);
+
+        // Cada solicitação conta para o limite, pois dispara um e-mail
+        const { retryAfterMs } = await recordFailedAttempt('magic-link', getClientIp(req), email);
+        if (retryAfterMs > 0) {
+            return sendTooManyAttempts(res, retryAfterMs);
+        }
+
+        // A resposta é a mesma exista ou não a conta, para não revelar quais e-mails estão cadastrados.
+        // Por isso o envio segue em segundo plano: nem o tempo de resposta nem uma falha no envio denunciam a conta.
+        const user = await User.findOne({ email });
+        if (user && !getAccountRestriction(user)) {
+            sendMagicLink(user).catch(emailError => console.error('Erro ao enviar link de acesso:', emailError));
+        }
+
+        res.status(200).json({ message: 'Se houver uma conta com este e-mail, enviamos um link de acesso válido por 15 minutos' });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error('Erro no requestMagicLink:', err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const verifyMagicLink = async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+        const user = await consumeMagicLink(token);
+
+        if (!user) {
+            const { retryAfterMs } = await recordFailedAttempt('magic-link-verify', getClientIp(req));
+            if (retryAfterMs > 0) {
+                return sendTooManyAttempts(res, retryAfterMs);
+            }
+            return res.status(400).json({ message: 'Link de acesso inválido ou expirado' });
+        }
+
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction, statusReason: user.statusReason });
+        }
+
+        // Mesmo fluxo do login com senha, inclusive o desafio da verificação em duas etapas
+        const result = await completeLogin(user, req);
+
+        if (result.twoFactorRequired) {
+            return res.status(200).json({ message: 'Verificação em duas etapas necessária', twoFactorRequired: true, challengeToken: result.challengeToken });
+        }
+
+        res.status(200).json(toLoginResponse(result));
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
 export const resetPassword = async (req: Request, res: Response) => {
     const { resetToken } = req.params;
     const { password } = req.body;
 
     try {
         const user = await User.findOne({
-            resetPasswordToken: resetToken,
+            resetPasswordToken: hashToken(resetToken),
             resetPasswordExpires: { $gt: new Date() }, // Verifica se o token não expirou
-        });
+        }).select('+passwordHistory');
 
         if (!user) {
+            const { retryAfterMs } = await recordFailedAttempt('reset-password', getClientIp(req));
+            if (retryAfterMs > 0) {
+                return sendTooManyAttempts(res, retryAfterMs);
+            }
             return res.status(400).json({ message: 'Token de redefinição de senha inválido ou expirado.' });
         }
 
@@ -219,12 +343,20 @@ export const resetPassword = async (req: Request, res: Response) => {
         const passwordSchema = createUserSchema.pick({ password: true });
         passwordSchema.parse({ password });
 
-        const salt = await bcrypt.genSalt(10);
-        user.password = await bcrypt.hash(password, salt);
+        if (await isRecentPassword(user, password)) {
+            return res.status(400).json({ message: 'A nova senha não pode ser igual a uma das senhas usadas recentemente' });
+        }
+
+        await applyNewPassword(user, password);
         user.resetPasswordToken = undefined; // Limpa o token de redefinição
         user.resetPasswordExpires = undefined; // Limpa o tempo de expiração
         await user.save();
 
+        // Com a senha trocada, nenhuma sessão aberta com a senha antiga deve continuar válida.
+        // A redefinição costuma indicar conta comprometida, então as chaves de API também são revogadas.
+        await revokeAllUserTokens(user._id.toString(), 'password_reset');
+        await revokeAllApiKeys(user._id.toString());
+
         res.status(200).json({ message: 'Senha redefinida com sucesso!' });
     } catch (err: any) {
         if (err instanceof z.ZodError) {
@@ -243,24 +375,20 @@ export const refreshAccessToken = async (req: Request, res: Response) => {
     }
 
     try {
-        // Verifica o refresh token como um JWT
-        const decoded = jwt.verify(refreshToken, JWT_SECRET) as { id: string };
+        // Valida o refresh token contra a sessão e o rotaciona (detectando reutilização)
+        const rotated = await rotateSession(refreshToken, req);
 
-        const user = await User.findById(decoded.id);
-
-        if (!user || user.refreshToken !== refreshToken) {
+        if (!rotated) {
             return res.status(401).json({ message: 'Refresh token inválido ou expirado' });
         }
 
-        // Gera um novo access token
-        const newAccessToken = jwt.sign({ id: user._id }, JWT_SECRET, { expiresIn: '1h' });
+        const user = await User.findById(rotated.session.user_id);
 
-        // Opcionalmente, gera um novo refresh token e atualiza no DB para rotação de refresh tokens
-        const newRefreshToken = jwt.sign({ id: user._id }, JWT_SECRET, { expiresIn: '7d' });
-        user.refreshToken = newRefreshToken;
-        await user.save();
+        if (!user || getAccountRestriction(user)) {
+            return res.status(401).json({ message: 'Refresh token inválido ou expirado' });
+        }
 
-        res.status(200).json({ message: 'Novo access token gerado com sucesso', accessToken: newAccessToken, refreshToken: newRefreshToken });
+        res.status(200).json({ message: 'Novo access token gerado com sucesso', accessToken: rotated.accessToken, refreshToken: rotated.refreshToken });
     } catch (err) {
         console.error(err);
         if (err instanceof jwt.JsonWebTokenError) {
@@ -269,3 +397,91 @@ export const refreshAccessToken = async (req: Request, res: Response) => {
         res.status(500).json({ message: 'Erro do servidor' });
     }
 };
+
+export const verifyEmail = async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+        const decoded = verifyPurposeToken(token, 'email-verification') as { id: string; email: string };
+
+        const user = await User.findById(decoded.id);
+
+        // O token só vale para o e-mail para o qual foi emitido
+        if (!user || user.email !== decoded.email) {
+            return res.status(400).json({ message: 'Token de verificação inválido ou expirado.' });
+        }
+
+        if (!user.emailVerified) {
+            user.emailVerified = true;
+            await user.save();
+        }
+
+        res.status(200).json({ message: 'E-mail verificado com sucesso!' });
+    } catch (err: any) {
+        if (err instanceof jwt.JsonWebTokenError) {
+            return res.status(400).json({ message: 'Token de verificação inválido ou expirado.' });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor ao verificar e-mail' });
+    }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response) => {
+    try {
+        const user = await User.findById(req.userId);
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (user.emailVerified) {
+            return res.status(400).json({ message: 'E-mail já verificado' });
+        }
+
+        const lastSentAt = user.emailVerificationSentAt?.getTime() || 0;
+        const retryAfterMs = lastSentAt + EMAIL_VERIFICATION_RESEND_COOLDOWN_MS - Date.now();
+        if (retryAfterMs > 0) {
+            res.set('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+            return res.status(429).json({ message: 'Aguarde antes de solicitar um novo e-mail de verificação' });
+        }
+
+        // Registra o envio antes de enviar para que requisições concorrentes respeitem o intervalo
+        user.emailVerificationSentAt = new Date();
+        await user.save();
+
+        await sendVerificationEmail(user);
+
+        res.status(200).json({ message: 'E-mail de verificação reenviado' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro ao reenviar e-mail de verificação. Tente novamente mais tarde.' });
+    }
+};
+
+export const logout = async (req: Request, res: Response) => {
+    try {
+        // Revoga o access token usado na requisição e encerra a sessão (e o refresh token) a que ele pertence
+        if (req.tokenPayload) {
+            await revokeAccessToken(req.tokenPayload);
+        }
+        if (req.sessionId) {
+            await revokeSession(req.sessionId, 'logout', req.userId);
+        }
+
+        res.status(200).json({ message: 'Logout realizado com sucesso' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const logoutAll = async (req: Request, res: Response) => {
+    try {
+        await revokeAllUserTokens(req.userId!, 'logout_all');
+
+        res.status(200).json({ message: 'Logout realizado em todos os dispositivos' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
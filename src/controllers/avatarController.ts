@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { uploadToCloudinary, destroyCloudinaryAsset, AVATAR_TRANSFORMATION } from '../services/imageUploadService';
+
+export const uploadUserAvatar = async (req: Request, res: Response) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ message: 'Envie uma imagem no campo "avatar"' });
+        }
+
+        const userId = req.userId!;
+        const { publicId, url } = await uploadToCloudinary(req.file, `avatars/${userId}`, AVATAR_TRANSFORMATION);
+
+        // Retorna o documento anterior para remover a foto substituída
+        const previous = await User.findByIdAndUpdate(
+            userId,
+            { $set: { avatarUrl: url, avatarPublicId: publicId } }
+        ).select('+avatarPublicId');
+
+        if (previous?.avatarPublicId && previous.avatarPublicId !== publicId) {
+            await destroyCloudinaryAsset(previous.avatarPublicId);
+        }
+
+        res.status(200).json({ message: 'Foto de perfil atualizada', avatarUrl: url });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro ao enviar a foto de perfil', error: err.message });
+    }
+};
+
+export const deleteUserAvatar = async (req: Request, res: Response) => {
+    try {
+        const previous = await User.findByIdAndUpdate(
+            req.userId,
+            { $unset: { avatarUrl: 1, avatarPublicId: 1 } }
+        ).select('+avatarPublicId');
+
+        if (!previous?.avatarUrl) {
+            return res.status(404).json({ message: 'Nenhuma foto de perfil cadastrada' });
+        }
+
+        if (previous.avatarPublicId) {
+            await destroyCloudinaryAsset(previous.avatarPublicId);
+        }
+
+        res.status(200).json({ message: 'Foto de perfil removida' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
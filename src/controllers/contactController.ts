@@ -0,0 +1,46 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import Vehicle from '../models/Vehicle';
+import { contactSellerSchema } from '../schemas/vehicleSchema';
+import { publicVehicleFilter } from '../services/vehicleService';
+import { recordContact } from '../services/reviewService';
+import { sendMailWithRetry, escapeHtml } from '../services/emailService';
+
+// Envia a mensagem do comprador ao anunciante por e-mail e registra o contato (permite avaliar o vendedor depois)
+export const contactSeller = async (req: Request, res: Response) => {
+    try {
+        const { message } = contactSellerSchema.parse(req.body);
+        const buyer = req.user!;
+
+        const vehicle = await Vehicle.findOne({ _id: req.params.id, ...publicVehicleFilter() });
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        if (String(vehicle.owner_id) === req.userId) {
+            return res.status(400).json({ message: 'Você não pode entrar em contato com o seu próprio anúncio' });
+        }
+
+        await recordContact(req.userId!, vehicle);
+
+        await sendMailWithRetry({
+            to: vehicle.announcerEmail,
+            subject: `.CARRO: Novo contato sobre ${vehicle.title}`,
+            html: `
+                Olá ${escapeHtml(vehicle.announcerName)},
+                <p><b>${escapeHtml(buyer.username)}</b> (${escapeHtml(buyer.email)}) tem interesse no seu anúncio <b>${escapeHtml(vehicle.title)}</b>:</p>
+                <blockquote>${escapeHtml(message)}</blockquote>
+                <p>Responda diretamente para o e-mail do comprador.</p>
+                <p>Obrigado,<br/>Equipe .CARRO</p>
+            `,
+        });
+
+        res.status(200).json({ message: 'Mensagem enviada ao anunciante' });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro ao enviar a mensagem ao anunciante' });
+    }
+};
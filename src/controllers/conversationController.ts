@@ -0,0 +1,241 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import Conversation from '../models/Conversation';
+import Message from '../models/Message';
+import Block from '../models/Block';
+import Vehicle from '../models/Vehicle';
+import User from '../models/User';
+import { startConversationSchema, sendMessageSchema } from '../schemas/conversationSchema';
+import { publicVehicleFilter } from '../services/vehicleService';
+import { recordContact } from '../services/reviewService';
+import {
+    findParticipantConversation,
+    getOtherParticipantId,
+    isBlockedBetween,
+    postMessage,
+    markConversationRead,
+    toInboxItem,
+    getUnreadCount,
+} from '../services/messagingService';
+
+const isDuplicateKeyError = (err: any) => err?.code === 11000;
+
+const handleError = (err: any, res: Response) => {
+    if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Erro do servidor' });
+};
+
+const BLOCKED_MESSAGE = 'Não é possível trocar mensagens com este usuário';
+
+const parsePagination = (query: Request['query']) => {
+    const page = parseInt(query.page as string) || 1;
+    const limit = Math.min(parseInt(query.limit as string) || 20, 50);
+    return { page, limit, skip: (page - 1) * limit };
+};
+
+// Caixa de entrada: conversas como comprador e como vendedor, da mais recente para a mais antiga
+export const listConversations = async (req: Request, res: Response) => {
+    try {
+        const userId = req.userId!;
+        const { page, limit, skip } = parsePagination(req.query);
+        const filter = { $or: [{ buyer_id: userId }, { seller_id: userId }] };
+
+        const conversations = await Conversation.find(filter).sort({ lastMessageAt: -1 }).skip(skip).limit(limit).lean();
+        const totalConversations = await Conversation.countDocuments(filter);
+
+        const vehicles = await Vehicle.find({ _id: { $in: conversations.map(conversation => conversation.vehicle_id) } })
+            .select('title price status')
+            .lean();
+        const participants = await User.find({ _id: { $in: conversations.map(conversation => getOtherParticipantId(conversation, userId)) } })
+            .select('username avatarUrl')
+            .lean();
+        const vehiclesById = new Map(vehicles.map(vehicle => [String(vehicle._id), vehicle]));
+        const participantsById = new Map(participants.map(participant => [String(participant._id), participant]));
+
+        res.status(200).json({
+            conversations: conversations.map(conversation => toInboxItem(
+                conversation,
+                userId,
+                vehiclesById.get(conversation.vehicle_id),
+                participantsById.get(getOtherParticipantId(conversation, userId))
+            )),
+            unreadCount: await getUnreadCount(userId),
+            currentPage: page,
+            totalPages: Math.ceil(totalConversations / limit),
+            totalConversations,
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const getUnreadMessageCount = async (req: Request, res: Response) => {
+    try {
+        res.status(200).json({ unreadCount: await getUnreadCount(req.userId!) });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+// Primeira mensagem do comprador sobre um anúncio; se a conversa já existir, a mensagem entra nela
+export const startConversation = async (req: Request, res: Response) => {
+    try {
+        const { vehicleId, text } = startConversationSchema.parse(req.body);
+        const buyerId = req.userId!;
+
+        const vehicle = await Vehicle.findOne({ _id: vehicleId, ...publicVehicleFilter() }).select('owner_id');
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        const sellerId = String(vehicle.owner_id);
+        if (sellerId === buyerId) {
+            return res.status(400).json({ message: 'Você não pode enviar mensagens para o seu próprio anúncio' });
+        }
+
+        if (await isBlockedBetween(buyerId, sellerId)) {
+            return res.status(403).json({ message: BLOCKED_MESSAGE });
+        }
+
+        let conversation = await Conversation.findOne({ vehicle_id: vehicleId, buyer_id: buyerId });
+        let created = false;
+        if (!conversation) {
+            try {
+                conversation = await Conversation.create({ vehicle_id: vehicleId, buyer_id: buyerId, seller_id: sellerId });
+                created = true;
+            } catch (err: any) {
+                // Duas mensagens simultâneas: a outra requisição criou a conversa primeiro
+                if (!isDuplicateKeyError(err)) {
+                    throw err;
+                }
+                conversation = await Conversation.findOne({ vehicle_id: vehicleId, buyer_id: buyerId });
+            }
+        }
+
+        // Conversar com o vendedor também habilita o comprador a avaliá-lo
+        await recordContact(buyerId, vehicle);
+
+        const message = await postMessage(conversation!, req.user!, text);
+
+        res.status(created ? 201 : 200).json({ conversationId: conversation!._id, message });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const listMessages = async (req: Request, res: Response) => {
+    try {
+        const conversation = await findParticipantConversation(req.params.id, req.userId!);
+        if (!conversation) {
+            return res.status(404).json({ message: 'Conversa não encontrada' });
+        }
+
+        const { page, limit, skip } = parsePagination(req.query);
+        const filter = { conversation_id: conversation._id };
+
+        // Das mais recentes para as mais antigas; a página seguinte traz as anteriores
+        const messages = await Message.find(filter).select('-__v').sort({ created_at: -1 }).skip(skip).limit(limit);
+        const totalMessages = await Message.countDocuments(filter);
+
+        res.status(200).json({
+            messages,
+            currentPage: page,
+            totalPages: Math.ceil(totalMessages / limit),
+            totalMessages,
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const sendMessage = async (req: Request, res: Response) => {
+    try {
+        const { text } = sendMessageSchema.parse(req.body);
+
+        const conversation = await findParticipantConversation(req.params.id, req.userId!);
+        if (!conversation) {
+            return res.status(404).json({ message: 'Conversa não encontrada' });
+        }
+
+        if (await isBlockedBetween(req.userId!, getOtherParticipantId(conversation, req.userId!))) {
+            return res.status(403).json({ message: BLOCKED_MESSAGE });
+        }
+
+        const message = await postMessage(conversation, req.user!, text);
+
+        res.status(201).json({ message });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const markAsRead = async (req: Request, res: Response) => {
+    try {
+        const conversation = await findParticipantConversation(req.params.id, req.userId!);
+        if (!conversation) {
+            return res.status(404).json({ message: 'Conversa não encontrada' });
+        }
+
+        await markConversationRead(conversation, req.userId!);
+
+        res.status(200).json({ message: 'Conversa marcada como lida', unreadCount: await getUnreadCount(req.userId!) });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const listBlockedUsers = async (req: Request, res: Response) => {
+    try {
+        const blocks = await Block.find({ blocker_id: req.userId })
+            .populate('blocked_id', 'username avatarUrl')
+            .sort({ created_at: -1 })
+            .lean();
+
+        res.status(200).json({ blockedUsers: blocks.map(block => ({ user: block.blocked_id, blockedAt: block.created_at })) });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const blockUser = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.params;
+
+        if (!isValidObjectId(userId) || !(await User.exists({ _id: userId }))) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (userId === req.userId) {
+            return res.status(400).json({ message: 'Você não pode bloquear a si mesmo' });
+        }
+
+        await Block.updateOne(
+            { blocker_id: req.userId, blocked_id: userId },
+            { $setOnInsert: { blocker_id: req.userId, blocked_id: userId, created_at: new Date() } },
+            { upsert: true }
+        );
+
+        res.status(200).json({ message: 'Usuário bloqueado' });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const unblockUser = async (req: Request, res: Response) => {
+    try {
+        const { userId } = req.params;
+        const result = isValidObjectId(userId) ? await Block.deleteOne({ blocker_id: req.userId, blocked_id: userId }) : null;
+
+        if (!result?.deletedCount) {
+            return res.status(404).json({ message: 'Este usuário não está bloqueado' });
+        }
+
+        res.status(200).json({ message: 'Usuário desbloqueado' });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import DataExport from '../models/DataExport';
+import {
+    buildDataExport,
+    compressDataExport,
+    countExportRecords,
+    dataExportFileName,
+    findDownloadableExport,
+    generateDataExport,
+    getStalePendingCutoff,
+    DATA_EXPORT_TTL_MS,
+    SYNC_EXPORT_MAX_RECORDS,
+} from '../services/dataExportService';
+import { openDataExportFile } from '../services/dataExportStorage';
+
+const setExportFileHeaders = (res: Response, userId: string) => {
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="${dataExportFileName(userId)}"`);
+    res.setHeader('Cache-Control', 'no-store');
+};
+
+// Exportação dos dados pessoais do usuário (LGPD, art. 18)
+export const exportMyData = async (req: Request, res: Response) => {
+    const userId = req.userId!;
+
+    try {
+        // Contas pequenas recebem o arquivo na própria resposta
+        if (await countExportRecords(userId) <= SYNC_EXPORT_MAX_RECORDS) {
+            const content = await compressDataExport(await buildDataExport(userId));
+            setExportFileHeaders(res, userId);
+            return res.status(200).send(content);
+        }
+
+        // Pendências antigas demais foram interrompidas e não impedem um novo pedido
+        const pending = await DataExport.findOne({ user_id: userId, status: 'pending', created_at: { $gte: getStalePendingCutoff() } });
+        if (pending) {
+            return res.status(409).json({ message: 'Já existe uma exportação em andamento. Você receberá um e-mail quando ela estiver pronta.' });
+        }
+
+        const dataExport = await DataExport.create({
+            user_id: userId,
+            expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_MS),
+        });
+
+        // Geração em segundo plano; o link de download é enviado por e-mail ao terminar
+        setImmediate(() => {
+            generateDataExport(dataExport._id.toString()).catch(err => console.error('Erro ao gerar a exportação de dados:', err));
+        });
+
+        res.status(202).json({
+            message: 'Sua exportação está sendo gerada. Enviaremos um link de download para o seu e-mail assim que ela estiver pronta.',
+            exportId: dataExport._id,
+        });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const downloadDataExport = async (req: Request, res: Response) => {
+    try {
+        const dataExport = await findDownloadableExport(req.params.token);
+
+        if (!dataExport || !dataExport.file_id) {
+            return res.status(404).json({ message: 'Link de download inválido ou expirado.' });
+        }
+
+        // O arquivo é transmitido direto do GridFS, sem ser carregado inteiro na memória
+        setExportFileHeaders(res, dataExport.user_id.toString());
+        if (dataExport.size) {
+            res.setHeader('Content-Length', dataExport.size.toString());
+        }
+        res.status(200);
+        const file = openDataExportFile(dataExport.file_id);
+        file.on('error', err => {
+            console.error(`Erro ao ler o arquivo da exportação ${dataExport._id}:`, err);
+            if (res.headersSent) {
+                return res.destroy(err);
+            }
+            res.removeHeader('Content-Disposition');
+            res.removeHeader('Content-Length');
+            res.status(500).json({ message: 'Erro do servidor' });
+        });
+        file.pipe(res);
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { changeEmailSchema } from '../schemas/userSchema';
+import { requestEmailChange, confirmEmailChange, undoEmailChange, EmailTakenError, EmailChangeLockedError } from '../services/emailChangeService';
+
+export const changeEmail = async (req: Request, res: Response) => {
+    try {
+        const { newEmail, password } = changeEmailSchema.parse(req.body);
+        const user = req.user!;
+
+        // Contas com senha local precisam confirmá-la; contas de login externo já estão autenticadas pelo provedor
+        if (user.password && !(password && await bcrypt.compare(password, user.password))) {
+            return res.status(400).json({ message: 'Senha incorreta' });
+        }
+
+        if (newEmail === user.email) {
+            return res.status(400).json({ message: 'O novo e-mail é igual ao atual' });
+        }
+
+        await requestEmailChange(user, newEmail);
+
+        res.status(202).json({ message: 'Enviamos um link de confirmação para o novo e-mail. A alteração será aplicada após a confirmação.' });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        if (err instanceof EmailTakenError || err instanceof EmailChangeLockedError) {
+            return res.status(409).json({ message: err.message });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const confirmNewEmail = async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+        const user = await confirmEmailChange(token);
+
+        if (!user) {
+            return res.status(400).json({ message: 'Link de confirmação inválido ou expirado' });
+        }
+
+        res.status(200).json({ message: 'E-mail alterado com sucesso', email: user.email });
+    } catch (err: any) {
+        if (err instanceof EmailTakenError) {
+            return res.status(409).json({ message: err.message });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const undoEmailChangeRequest = async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+        const change = await undoEmailChange(token);
+
+        if (!change) {
+            return res.status(400).json({ message: 'Link inválido ou expirado' });
+        }
+
+        if (change.status === 'reverted') {
+            return res.status(200).json({ message: 'Alteração desfeita: o e-mail anterior foi restaurado e todas as sessões foram encerradas. Recomendamos redefinir sua senha.' });
+        }
+
+        res.status(200).json({ message: 'Solicitação de alteração de e-mail cancelada' });
+    } catch (err: any) {
+        if (err instanceof EmailTakenError) {
+            return res.status(409).json({ message: err.message });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import Favorite from '../models/Favorite';
+import Vehicle from '../models/Vehicle';
+import { parseListingOptions, publicVehicleFilter, toVehicleListItems, PUBLIC_LISTING_EXCLUDED_FIELDS } from '../services/vehicleService';
+
+// Anúncios que continuam visíveis na lista de favoritos: o comprador acompanha também os vendidos
+const FAVORITE_VISIBLE_STATUSES = publicVehicleFilter(['active', 'sold']);
+
+export const listFavorites = async (req: Request, res: Response) => {
+    try {
+        const { page, limit, skip, sort } = parseListingOptions(req.query);
+
+        const favorites = await Favorite.find({ user_id: req.userId }).select('vehicle_id').lean();
+        const filter = { _id: { $in: favorites.map(favorite => favorite.vehicle_id) }, ...FAVORITE_VISIBLE_STATUSES };
+
+        const vehicles = await Vehicle.find(filter)
+            .select(PUBLIC_LISTING_EXCLUDED_FIELDS) // Exclui descrição, features, imagens e os campos privados do anúncio
+            .sort(sort)
+            .skip(skip)
+            .limit(limit);
+
+        const totalVehicles = await Vehicle.countDocuments(filter);
+
+        res.status(200).json({
+            vehicles: await toVehicleListItems(vehicles, req.userId),
+            currentPage: page,
+            totalPages: Math.ceil(totalVehicles / limit),
+            totalVehicles,
+        });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const addFavorite = async (req: Request, res: Response) => {
+    const { vehicleId } = req.params;
+
+    try {
+        const vehicle = await Vehicle.exists({ _id: vehicleId, ...publicVehicleFilter() });
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        const result = await Favorite.updateOne(
+            { user_id: req.userId, vehicle_id: vehicleId },
+            { $setOnInsert: { user_id: req.userId, vehicle_id: vehicleId, created_at: new Date() } },
+            { upsert: true }
+        );
+
+        // Favoritar de novo o mesmo anúncio não é erro
+        const created = result.upsertedCount > 0;
+        res.status(created ? 201 : 200).json({ message: created ? 'Anúncio adicionado aos favoritos' : 'O anúncio já está nos favoritos' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const removeFavorite = async (req: Request, res: Response) => {
+    try {
+        const result = await Favorite.deleteOne({ user_id: req.userId, vehicle_id: req.params.vehicleId });
+        if (result.deletedCount === 0) {
+            return res.status(404).json({ message: 'O anúncio não está nos favoritos' });
+        }
+
+        res.status(200).json({ message: 'Anúncio removido dos favoritos' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -1,8 +1,8 @@
 import { Request, Response } from 'express';
 import Image from '../models/Image';
-import Vehicle from '../models/Vehicle';
+import { findEditableVehicle, isVehicleContentLocked, SOLD_VEHICLE_LOCKED_MESSAGE } from '../services/vehicleService';
 import cloudinary from '../config/cloudinary';
-import { v4 as uuidv4 } from 'uuid';
+import { uploadToCloudinary, VEHICLE_IMAGE_TRANSFORMATION } from '../services/imageUploadService';
 
 const cleanCloudinaryUrl = (url: string, originalPublicId?: string) => {
     // Se temos o originalPublicId, construímos a URL correta diretamente
@@ -45,12 +45,16 @@ export const uploadImages = async (req: Request, res: Response) => {
             return res.status(400).json({ message: 'Invalid vehicle ID' });
         }
 
-        const vehicle = await Vehicle.findOne({ _id: vehicleId, owner_id: ownerId });
+        const vehicle = await findEditableVehicle(vehicleId, ownerId!);
 
         if (!vehicle) {
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to upload images for this vehicle' });
         }
 
+        if (isVehicleContentLocked(vehicle)) {
+            return res.status(409).json({ message: SOLD_VEHICLE_LOCKED_MESSAGE });
+        }
+
         const newImageFiles = req.files as Express.Multer.File[];
         const existingImagesCount = await Image.countDocuments({ vehicle_id: vehicleId });
         if (existingImagesCount + newImageFiles.length > 10) {
@@ -61,32 +65,7 @@ export const uploadImages = async (req: Request, res: Response) => {
         const imageIds: string[] = [];
 
         for (const file of newImageFiles) {
-            // Gera um ID público único para o Cloudinary (sem incluir pasta no public_id)
-            const uniqueId = uuidv4();
-
-            // Upload para Cloudinary usando asset_folder (Dynamic Folder Mode)
-
-            const uploadResult = await cloudinary.uploader.upload(
-                `data:${file.mimetype};base64,${file.buffer.toString('base64')}`,
-                {
-                    public_id: uniqueId, // Apenas o ID único
-                    asset_folder: `vehicles/${vehicleId}`, // Pasta de armazenamento
-                    use_asset_folder_as_public_id_prefix: true, // Inclui pasta na URL
-                    quality: 'auto', // Otimização automática do Cloudinary
-                    width: 1920, // Redimensionamento automático (máximo 1920px de largura)
-                    height: 1920,
-                    crop: 'limit'
-                }
-            );
-
-            // Se use_asset_folder_as_public_id_prefix não funcionou, construir manualmente
-            const finalPublicId = uploadResult.public_id.includes('vehicles/')
-                ? uploadResult.public_id
-                : `vehicles/${vehicleId}/${uploadResult.public_id}`;
-
-            // Construir URL com a pasta incluída
-            const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-            const optimizedUrl = `https://res.cloudinary.com/${cloudName}/image/upload/f_auto,q_auto/${finalPublicId}`;
+            const { publicId: finalPublicId, url: optimizedUrl } = await uploadToCloudinary(file, `vehicles/${vehicleId}`, VEHICLE_IMAGE_TRANSFORMATION);
 
             const newImage = new Image({
                 vehicle_id: vehicleId,
@@ -170,13 +149,17 @@ export const deleteImage = async (req: Request, res: Response) => {
         const { id, imageId } = req.params; // id é vehicleId, imageId é o _id da imagem
         const ownerId = req.userId; // ID do usuário do middleware de autenticação
 
-        // Verifica se o veículo existe e pertence ao usuário
-        const vehicle = await Vehicle.findOne({ _id: id, owner_id: ownerId });
+        // Verifica se o veículo existe e pode ser alterado pelo usuário (dono ou membro autorizado da loja)
+        const vehicle = await findEditableVehicle(id, ownerId!);
 
         if (!vehicle) {
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to delete images for this vehicle' });
         }
 
+        if (isVehicleContentLocked(vehicle)) {
+            return res.status(409).json({ message: SOLD_VEHICLE_LOCKED_MESSAGE });
+        }
+
         // Encontra a imagem para deletar
         const imageToDelete = await Image.findOne({ _id: imageId, vehicle_id: id });
 
@@ -0,0 +1,71 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { oidcCallbackSchema } from '../schemas/userSchema';
+import { loadOidcProviders, findOidcProvider, OidcError } from '../services/oidcClient';
+import { startOidcAuthorization, completeOidcAuthorization } from '../services/oidcService';
+import { completeLogin, getAccountRestriction, toLoginResponse } from '../services/loginService';
+
+export const listOidcProviders = async (req: Request, res: Response) => {
+    try {
+        res.status(200).json({ providers: loadOidcProviders().map(provider => provider.name) });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const startOidcLogin = async (req: Request, res: Response) => {
+    try {
+        const provider = findOidcProvider(req.params.provider);
+        if (!provider) {
+            return res.status(404).json({ message: 'Provedor de login não encontrado' });
+        }
+
+        // O frontend redireciona o usuário para esta URL; o provedor devolve code e state para a página de retorno
+        const authorizationUrl = await startOidcAuthorization(provider);
+
+        res.status(200).json({ authorizationUrl });
+    } catch (err: any) {
+        console.error(err);
+        if (err instanceof OidcError) {
+            return res.status(502).json({ message: 'Não foi possível contatar o provedor de login' });
+        }
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const completeOidcLogin = async (req: Request, res: Response) => {
+    try {
+        const provider = findOidcProvider(req.params.provider);
+        if (!provider) {
+            return res.status(404).json({ message: 'Provedor de login não encontrado' });
+        }
+
+        const { code, state } = oidcCallbackSchema.parse(req.body);
+
+        const user = await completeOidcAuthorization(provider, code, state);
+
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction, statusReason: user.statusReason });
+        }
+
+        // Mesmo fluxo do login com senha, inclusive o desafio da verificação em duas etapas
+        const result = await completeLogin(user, req);
+
+        if (result.twoFactorRequired) {
+            return res.status(200).json({ message: 'Verificação em duas etapas necessária', twoFactorRequired: true, challengeToken: result.challengeToken });
+        }
+
+        res.status(200).json(toLoginResponse(result));
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        if (err instanceof OidcError) {
+            return res.status(401).json({ message: err.message });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -0,0 +1,293 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import Organization from '../models/Organization';
+import OrganizationInvitation from '../models/OrganizationInvitation';
+import Vehicle from '../models/Vehicle';
+import {
+    createOrganizationSchema,
+    updateOrganizationSchema,
+    inviteMemberSchema,
+    updateMemberRoleSchema,
+} from '../schemas/organizationSchema';
+import {
+    findUserOrganizations,
+    findMemberOrganization,
+    getMemberRole,
+    hasOrganizationPermission,
+    canAssignRole,
+    countOwners,
+    createInvitation,
+    acceptInvitation,
+    transferOrganizationListings,
+} from '../services/organizationService';
+import { parseListingOptions, toVehicleListItems, LISTING_EXCLUDED_FIELDS } from '../services/vehicleService';
+
+const handleError = (err: any, res: Response) => {
+    if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Erro do servidor' });
+};
+
+// Carrega a organização da rota garantindo que o usuário autenticado seja membro dela
+const loadMemberOrganization = async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const organization = isValidObjectId(id) ? await findMemberOrganization(id, req.userId!) : null;
+    if (!organization) {
+        res.status(404).json({ message: 'Loja não encontrada' });
+        return null;
+    }
+    return organization;
+};
+
+export const createOrganization = async (req: Request, res: Response) => {
+    try {
+        const data = createOrganizationSchema.parse(req.body);
+
+        // Quem cria a loja é o primeiro dono
+        const organization = await Organization.create({
+            ...data,
+            members: [{ user_id: req.userId, role: 'owner', joined_at: new Date() }],
+            created_by: req.userId,
+        });
+
+        res.status(201).json({ message: 'Loja criada com sucesso', organization });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const listMyOrganizations = async (req: Request, res: Response) => {
+    try {
+        const organizations = await findUserOrganizations(req.userId!);
+
+        res.status(200).json({
+            organizations: organizations.map(organization => ({
+                ...organization.toJSON(),
+                myRole: getMemberRole(organization, req.userId!),
+            })),
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const getOrganization = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        const myRole = getMemberRole(organization, req.userId!);
+        await organization.populate('members.user_id', 'username email');
+
+        res.status(200).json({ organization, myRole });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const updateOrganization = async (req: Request, res: Response) => {
+    try {
+        const data = updateOrganizationSchema.parse(req.body);
+
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        if (!hasOrganizationPermission(organization, req.userId!, 'organization:manage')) {
+            return res.status(403).json({ message: 'Apenas os donos podem alterar os dados da loja' });
+        }
+
+        organization.set(data);
+        await organization.save();
+
+        res.status(200).json({ message: 'Loja atualizada com sucesso', organization });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const listOrganizationVehicles = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        const { page, limit, skip, sort } = parseListingOptions(req.query);
+        const filter = { organization_id: organization._id };
+
+        const vehicles = await Vehicle.find(filter)
+            .select(LISTING_EXCLUDED_FIELDS)
+            .sort(sort)
+            .skip(skip)
+            .limit(limit);
+
+        const totalVehicles = await Vehicle.countDocuments(filter);
+
+        res.status(200).json({
+            vehicles: await toVehicleListItems(vehicles),
+            currentPage: page,
+            totalPages: Math.ceil(totalVehicles / limit),
+            totalVehicles,
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const inviteMember = async (req: Request, res: Response) => {
+    try {
+        const { email, role } = inviteMemberSchema.parse(req.body);
+
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        const actorRole = getMemberRole(organization, req.userId!);
+        if (!hasOrganizationPermission(organization, req.userId!, 'members:manage') || !canAssignRole(actorRole, role)) {
+            return res.status(403).json({ message: 'Você não tem permissão para convidar membros com este papel' });
+        }
+
+        const invitation = await createInvitation(organization, req.user!, email, role);
+
+        res.status(201).json({
+            message: 'Convite enviado por e-mail',
+            invitation: { _id: invitation._id, email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt },
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const listInvitations = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        if (!hasOrganizationPermission(organization, req.userId!, 'members:manage')) {
+            return res.status(403).json({ message: 'Você não tem permissão para gerenciar membros desta loja' });
+        }
+
+        const invitations = await OrganizationInvitation.find({
+            organization_id: organization._id,
+            status: 'pending',
+            expiresAt: { $gt: new Date() },
+        }).sort({ created_at: -1 });
+
+        res.status(200).json({ invitations });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const revokeInvitation = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        if (!hasOrganizationPermission(organization, req.userId!, 'members:manage')) {
+            return res.status(403).json({ message: 'Você não tem permissão para gerenciar membros desta loja' });
+        }
+
+        const { invitationId } = req.params;
+        const invitation = isValidObjectId(invitationId)
+            ? await OrganizationInvitation.findOneAndUpdate(
+                { _id: invitationId, organization_id: organization._id, status: 'pending' },
+                { $set: { status: 'revoked' } }
+            )
+            : null;
+
+        if (!invitation) {
+            return res.status(404).json({ message: 'Convite não encontrado' });
+        }
+
+        res.status(200).json({ message: 'Convite cancelado' });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const acceptOrganizationInvitation = async (req: Request, res: Response) => {
+    try {
+        const result = await acceptInvitation(req.params.token, req.user!);
+
+        switch (result.status) {
+            case 'accepted':
+                return res.status(200).json({ message: 'Convite aceito', organization: result.organization });
+            case 'email_mismatch':
+                return res.status(403).json({ message: 'Este convite foi enviado para outro e-mail. Entre com a conta do e-mail convidado.' });
+            case 'already_member':
+                return res.status(409).json({ message: 'Você já faz parte desta loja' });
+            default:
+                return res.status(400).json({ message: 'Convite inválido ou expirado' });
+        }
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const updateMemberRole = async (req: Request, res: Response) => {
+    try {
+        const { role } = updateMemberRoleSchema.parse(req.body);
+
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        const { userId } = req.params;
+        const member = organization.members.find(m => String(m.user_id) === userId);
+        if (!member) {
+            return res.status(404).json({ message: 'Membro não encontrado' });
+        }
+
+        // Quem altera precisa poder atribuir tanto o papel atual quanto o novo (gerentes não mexem em donos e gerentes)
+        const actorRole = getMemberRole(organization, req.userId!);
+        if (!hasOrganizationPermission(organization, req.userId!, 'members:manage') || !canAssignRole(actorRole, member.role) || !canAssignRole(actorRole, role)) {
+            return res.status(403).json({ message: 'Você não tem permissão para alterar o papel deste membro' });
+        }
+
+        if (member.role === 'owner' && role !== 'owner' && countOwners(organization) === 1) {
+            return res.status(400).json({ message: 'A loja precisa de pelo menos um dono' });
+        }
+
+        member.role = role;
+        await organization.save();
+
+        res.status(200).json({ message: 'Papel do membro atualizado', organization });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const removeMember = async (req: Request, res: Response) => {
+    try {
+        const organization = await loadMemberOrganization(req, res);
+        if (!organization) return;
+
+        const { userId } = req.params;
+        const member = organization.members.find(m => String(m.user_id) === userId);
+        if (!member) {
+            return res.status(404).json({ message: 'Membro não encontrado' });
+        }
+
+        // Qualquer membro pode sair da loja; remover outra pessoa exige permissão sobre o papel dela
+        const leaving = userId === req.userId;
+        const actorRole = getMemberRole(organization, req.userId!);
+        if (!leaving && (!hasOrganizationPermission(organization, req.userId!, 'members:manage') || !canAssignRole(actorRole, member.role))) {
+            return res.status(403).json({ message: 'Você não tem permissão para remover este membro' });
+        }
+
+        if (member.role === 'owner' && countOwners(organization) === 1) {
+            return res.status(400).json({ message: 'A loja precisa de pelo menos um dono. Promova outro membro antes de sair.' });
+        }
+
+        // Os anúncios da loja criados pelo membro continuam na loja, sob um dono
+        const newOwner = organization.members.find(m => m.role === 'owner' && String(m.user_id) !== userId)!;
+        await transferOrganizationListings(organization._id, userId, newOwner.user_id);
+
+        organization.set('members', organization.members.filter(m => String(m.user_id) !== userId));
+        await organization.save();
+
+        res.status(200).json({ message: leaving ? 'Você saiu da loja' : 'Membro removido da loja' });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { phoneVerificationSchema } from '../schemas/userSchema';
+import {
+    sendPhoneVerificationCode,
+    confirmPhoneVerificationCode,
+    getPhoneCodeRetryAfterMs,
+} from '../services/phoneVerificationService';
+
+export const requestPhoneVerification = async (req: Request, res: Response) => {
+    try {
+        const user = req.user!;
+
+        if (!user.phone) {
+            return res.status(400).json({ message: 'Cadastre um telefone no seu perfil antes de verificá-lo' });
+        }
+
+        if (user.phoneVerified) {
+            return res.status(400).json({ message: 'Telefone já verificado' });
+        }
+
+        const retryAfterMs = await getPhoneCodeRetryAfterMs(user._id.toString());
+        if (retryAfterMs > 0) {
+            res.set('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+            return res.status(429).json({ message: 'Aguarde antes de solicitar um novo código', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) });
+        }
+
+        await sendPhoneVerificationCode(user);
+
+        res.status(200).json({ message: 'Código de verificação enviado por SMS' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro ao enviar o código de verificação. Tente novamente mais tarde.' });
+    }
+};
+
+export const confirmPhoneVerification = async (req: Request, res: Response) => {
+    try {
+        const { code } = phoneVerificationSchema.parse(req.body);
+
+        const result = await confirmPhoneVerificationCode(req.user!, code);
+
+        switch (result) {
+            case 'verified':
+                return res.status(200).json({ message: 'Telefone verificado com sucesso' });
+            case 'invalid':
+                return res.status(400).json({ message: 'Código inválido' });
+            case 'too_many_attempts':
+                return res.status(429).json({ message: 'Muitas tentativas. Solicite um novo código.' });
+            default:
+                return res.status(400).json({ message: 'Código expirado ou inexistente. Solicite um novo código.' });
+        }
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
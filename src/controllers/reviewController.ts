@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import Review from '../models/Review';
+import ReviewReport from '../models/ReviewReport';
+import User from '../models/User';
+import { createReviewSchema, replyReviewSchema, reportReviewSchema } from '../schemas/reviewSchema';
+import { hasContactedSeller, getSellerRating } from '../services/reviewService';
+
+const isDuplicateKeyError = (err: any) => err?.code === 11000;
+
+const handleError = (err: any, res: Response) => {
+    if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Erro do servidor' });
+};
+
+export const createReview = async (req: Request, res: Response) => {
+    try {
+        const { sellerId, vehicleId, rating, text } = createReviewSchema.parse(req.body);
+        const reviewerId = req.userId!;
+
+        if (!isValidObjectId(sellerId) || !(await User.exists({ _id: sellerId }))) {
+            return res.status(404).json({ message: 'Vendedor não encontrado' });
+        }
+
+        if (sellerId === reviewerId) {
+            return res.status(400).json({ message: 'Você não pode avaliar a si mesmo' });
+        }
+
+        if (!(await hasContactedSeller(reviewerId, sellerId, vehicleId))) {
+            return res.status(403).json({ message: 'Só é possível avaliar vendedores com quem você entrou em contato por um anúncio' });
+        }
+
+        const review = await Review.create({ reviewer_id: reviewerId, seller_id: sellerId, vehicle_id: vehicleId, rating, text });
+
+        res.status(201).json({ message: 'Avaliação publicada', review });
+    } catch (err: any) {
+        if (isDuplicateKeyError(err)) {
+            return res.status(409).json({ message: 'Você já avaliou este vendedor' });
+        }
+        handleError(err, res);
+    }
+};
+
+export const listSellerReviews = async (req: Request, res: Response) => {
+    try {
+        const { sellerId } = req.params;
+        if (!isValidObjectId(sellerId)) {
+            return res.status(404).json({ message: 'Vendedor não encontrado' });
+        }
+
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+        const filter = { seller_id: sellerId, status: 'published' };
+
+        const reviews = await Review.find(filter)
+            .select('-moderationReason')
+            .populate('reviewer_id', 'username avatarUrl')
+            .sort({ created_at: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit);
+
+        const totalReviews = await Review.countDocuments(filter);
+
+        res.status(200).json({
+            rating: await getSellerRating(sellerId),
+            reviews,
+            currentPage: page,
+            totalPages: Math.ceil(totalReviews / limit),
+            totalReviews,
+        });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const replyToReview = async (req: Request, res: Response) => {
+    try {
+        const { text } = replyReviewSchema.parse(req.body);
+        const { id } = req.params;
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Avaliação não encontrada' });
+        }
+
+        // Apenas o vendedor avaliado responde, e uma única vez
+        const review = await Review.findOneAndUpdate(
+            { _id: id, seller_id: req.userId, status: 'published', reply: { $exists: false } },
+            { $set: { reply: { text, created_at: new Date() } } },
+            { new: true }
+        );
+
+        if (!review) {
+            const existing = await Review.findOne({ _id: id, seller_id: req.userId });
+            if (existing?.reply) {
+                return res.status(409).json({ message: 'Esta avaliação já foi respondida' });
+            }
+            return res.status(404).json({ message: 'Avaliação não encontrada' });
+        }
+
+        res.status(200).json({ message: 'Resposta publicada', review });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const reportReview = async (req: Request, res: Response) => {
+    try {
+        const { reason } = reportReviewSchema.parse(req.body);
+        const { id } = req.params;
+
+        if (!isValidObjectId(id) || !(await Review.exists({ _id: id, status: 'published' }))) {
+            return res.status(404).json({ message: 'Avaliação não encontrada' });
+        }
+
+        await ReviewReport.create({ review_id: id, reporter_id: req.userId, reason });
+
+        res.status(201).json({ message: 'Denúncia enviada para a moderação' });
+    } catch (err: any) {
+        if (isDuplicateKeyError(err)) {
+            return res.status(409).json({ message: 'Você já denunciou esta avaliação' });
+        }
+        handleError(err, res);
+    }
+};
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { z } from 'zod';
+import SavedSearch from '../models/SavedSearch';
+import { createSavedSearchSchema, updateSavedSearchSchema } from '../schemas/savedSearchSchema';
+import { MAX_SAVED_SEARCHES_PER_USER } from '../services/savedSearchService';
+
+const handleError = (err: any, res: Response) => {
+    if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+    }
+    console.error(err);
+    res.status(500).json({ message: 'Erro do servidor' });
+};
+
+export const listSavedSearches = async (req: Request, res: Response) => {
+    try {
+        const savedSearches = await SavedSearch.find({ user_id: req.userId }).select('-__v').sort({ created_at: -1 });
+        res.status(200).json({ savedSearches });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const createSavedSearch = async (req: Request, res: Response) => {
+    try {
+        const { name, query, frequency } = createSavedSearchSchema.parse(req.body);
+
+        if (await SavedSearch.countDocuments({ user_id: req.userId }) >= MAX_SAVED_SEARCHES_PER_USER) {
+            return res.status(409).json({ message: `Limite de ${MAX_SAVED_SEARCHES_PER_USER} buscas salvas atingido. Exclua uma busca para salvar outra.` });
+        }
+
+        // Os alertas consideram apenas anúncios criados a partir de agora
+        const savedSearch = await SavedSearch.create({ user_id: req.userId, name, query, frequency, last_run_at: new Date() });
+
+        res.status(201).json({ message: 'Busca salva', savedSearch });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const updateSavedSearch = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const data = updateSavedSearchSchema.parse(req.body);
+
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Busca salva não encontrada' });
+        }
+
+        const savedSearch = await SavedSearch.findOneAndUpdate(
+            { _id: id, user_id: req.userId },
+            { $set: data },
+            { new: true }
+        ).select('-__v');
+
+        if (!savedSearch) {
+            return res.status(404).json({ message: 'Busca salva não encontrada' });
+        }
+
+        res.status(200).json({ message: 'Busca salva atualizada', savedSearch });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
+
+export const deleteSavedSearch = async (req: Request, res: Response) => {
+    try {
+        const { id } = req.params;
+        const result = isValidObjectId(id) ? await SavedSearch.deleteOne({ _id: id, user_id: req.userId }) : null;
+
+        if (!result?.deletedCount) {
+            return res.status(404).json({ message: 'Busca salva não encontrada' });
+        }
+
+        res.status(200).json({ message: 'Busca salva excluída' });
+    } catch (err: any) {
+        handleError(err, res);
+    }
+};
@@ -0,0 +1,63 @@
+import { Request, Response } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { listActiveSessions, revokeSession, revokeAllSessions } from '../services/sessionService';
+
+export const listSessions = async (req: Request, res: Response) => {
+    try {
+        if (!req.userId) {
+            return res.status(401).json({ message: 'Não autorizado: ID do usuário não encontrado' });
+        }
+
+        const sessions = await listActiveSessions(req.userId);
+
+        res.status(200).json({
+            sessions: sessions.map(session => ({
+                ...session.toJSON(),
+                current: session._id.toString() === req.sessionId, // Indica a sessão que fez a requisição
+            })),
+        });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const revokeUserSession = async (req: Request, res: Response) => {
+    const { sessionId } = req.params;
+
+    try {
+        if (!req.userId) {
+            return res.status(401).json({ message: 'Não autorizado: ID do usuário não encontrado' });
+        }
+
+        if (!isValidObjectId(sessionId)) {
+            return res.status(404).json({ message: 'Sessão não encontrada' });
+        }
+
+        const revoked = await revokeSession(sessionId, 'user_revoked', req.userId);
+
+        if (!revoked) {
+            return res.status(404).json({ message: 'Sessão não encontrada' });
+        }
+
+        res.status(200).json({ message: 'Sessão revogada com sucesso' });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+    try {
+        if (!req.userId) {
+            return res.status(401).json({ message: 'Não autorizado: ID do usuário não encontrado' });
+        }
+
+        const revokedCount = await revokeAllSessions(req.userId, 'user_revoked_others', req.sessionId);
+
+        res.status(200).json({ message: 'Outras sessões revogadas com sucesso', revokedCount });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { z } from 'zod';
+import User, { User as UserDocument } from '../models/User';
+import { twoFactorCodeSchema, twoFactorLoginSchema, disableTwoFactorSchema } from '../schemas/userSchema';
+import {
+    generateTotpSecret,
+    buildOtpauthUri,
+    verifyTotp,
+    generateRecoveryCodes,
+    normalizeRecoveryCode,
+} from '../services/totpService';
+import { hashToken, verifyPurposeToken } from '../services/tokenService';
+import { recordFailedAttempt, clearAccountAttempts, getScopeRetryAfterMs } from '../services/bruteForceService';
+import { getClientIp, sendTooManyAttempts } from '../middleware/bruteForceMiddleware';
+import { issueLoginTokens, toLoginResponse, getAccountRestriction, TWO_FACTOR_CHALLENGE_PURPOSE } from '../services/loginService';
+
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+/**
+ * Valida o segundo fator (código TOTP ou código de recuperação) e o consome de forma atômica,
+ * para que o mesmo código não possa ser aceito duas vezes em requisições concorrentes.
+ */
+const consumeSecondFactor = async (user: UserDocument, factor: { code?: string; recoveryCode?: string }) => {
+    if (factor.code && user.twoFactorSecret) {
+        const step = verifyTotp(user.twoFactorSecret, factor.code, { lastUsedStep: user.twoFactorLastUsedStep });
+        if (step === null) {
+            return false;
+        }
+        const result = await User.updateOne(
+            { _id: user._id, $or: [{ twoFactorLastUsedStep: { $lt: step } }, { twoFactorLastUsedStep: null }] },
+            { $set: { twoFactorLastUsedStep: step } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    if (factor.recoveryCode) {
+        const codeHash = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+        const result = await User.updateOne(
+            { _id: user._id, twoFactorRecoveryCodes: codeHash },
+            { $pull: { twoFactorRecoveryCodes: codeHash } }
+        );
+        return result.modifiedCount > 0;
+    }
+
+    return false;
+};
+
+export const setupTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'A verificação em duas etapas já está ativada' });
+        }
+
+        // O segredo só passa a valer depois de confirmado com o primeiro código
+        const secret = generateTotpSecret();
+        user.twoFactorPendingSecret = secret;
+        await user.save();
+
+        res.status(200).json({
+            message: 'Escaneie o QR code no seu aplicativo autenticador e confirme com o primeiro código',
+            secret,
+            otpauthUri: buildOtpauthUri(secret, user.email),
+        });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const confirmTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const { code } = twoFactorCodeSchema.parse(req.body);
+
+        const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'A verificação em duas etapas já está ativada' });
+        }
+
+        if (!user.twoFactorPendingSecret) {
+            return res.status(400).json({ message: 'Inicie a configuração da verificação em duas etapas primeiro' });
+        }
+
+        const step = verifyTotp(user.twoFactorPendingSecret, code);
+        if (step === null) {
+            return res.status(400).json({ message: 'Código inválido' });
+        }
+
+        // Os códigos de recuperação são exibidos uma única vez; apenas os hashes são armazenados
+        const recoveryCodes = generateRecoveryCodes();
+
+        user.twoFactorEnabled = true;
+        user.twoFactorSecret = user.twoFactorPendingSecret;
+        user.twoFactorPendingSecret = undefined;
+        user.twoFactorLastUsedStep = step;
+        user.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => hashToken(recoveryCode));
+        await user.save();
+
+        res.status(200).json({
+            message: 'Verificação em duas etapas ativada com sucesso. Guarde os códigos de recuperação em local seguro.',
+            recoveryCodes,
+        });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const disableTwoFactor = async (req: Request, res: Response) => {
+    try {
+        const { password, code, recoveryCode } = disableTwoFactorSchema.parse(req.body);
+
+        const user = await User.findById(req.userId).select(TWO_FACTOR_FIELDS);
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (!user.twoFactorEnabled) {
+            return res.status(400).json({ message: 'A verificação em duas etapas não está ativada' });
+        }
+
+        // Contas sem senha local (login externo) confirmam apenas com o segundo fator
+        const isMatch = user.password ? Boolean(password) && await bcrypt.compare(password!, user.password) : true;
+        if (!isMatch || !(await consumeSecondFactor(user, { code, recoveryCode }))) {
+            return res.status(400).json({ message: 'Credenciais inválidas' });
+        }
+
+        await User.updateOne(
+            { _id: user._id },
+            {
+                $set: { twoFactorEnabled: false },
+                $unset: { twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorRecoveryCodes: 1, twoFactorLastUsedStep: 1 },
+            }
+        );
+
+        res.status(200).json({ message: 'Verificação em duas etapas desativada' });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+    try {
+        const { challengeToken, code, recoveryCode } = twoFactorLoginSchema.parse(req.body);
+
+        const decoded = verifyPurposeToken(challengeToken, TWO_FACTOR_CHALLENGE_PURPOSE) as { id: string };
+
+        // Limita as tentativas de código por conta, já que um desafio pode ser reutilizado até expirar
+        const retryAfterMs = await getScopeRetryAfterMs('two-factor', getClientIp(req), decoded.id);
+        if (retryAfterMs > 0) {
+            return sendTooManyAttempts(res, retryAfterMs);
+        }
+
+        const user = await User.findById(decoded.id).select(TWO_FACTOR_FIELDS);
+
+        if (!user || !user.twoFactorEnabled) {
+            return res.status(401).json({ message: 'Desafio de verificação inválido ou expirado' });
+        }
+
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction, statusReason: user.statusReason });
+        }
+
+        if (!(await consumeSecondFactor(user, { code, recoveryCode }))) {
+            const failure = await recordFailedAttempt('two-factor', getClientIp(req), decoded.id);
+            if (failure.retryAfterMs > 0) {
+                return sendTooManyAttempts(res, failure.retryAfterMs);
+            }
+            return res.status(400).json({ message: 'Código inválido' });
+        }
+
+        await clearAccountAttempts('two-factor', decoded.id);
+
+        const result = await issueLoginTokens(user, req);
+
+        res.status(200).json(toLoginResponse(result));
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        if (err instanceof jwt.JsonWebTokenError) {
+            return res.status(401).json({ message: 'Desafio de verificação inválido ou expirado' });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
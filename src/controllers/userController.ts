@@ -1,8 +1,21 @@
 import { Request, Response } from 'express';
 import User from '../models/User'; // Importa o modelo de Usuário do Mongoose
 import Vehicle from '../models/Vehicle'; // Importa o modelo de Veículo do Mongoose
-import { createUserSchema } from '../schemas/userSchema';
+import { updateUserSchema, changePasswordSchema } from '../schemas/userSchema';
 import bcrypt from 'bcryptjs';
+import { z } from 'zod';
+import { revokeAllUserTokens } from '../services/tokenRevocationService';
+import { createSession } from '../services/sessionService';
+import { applyNewPassword, isRecentPassword } from '../services/passwordService';
+import { sendMailWithRetry } from '../services/emailService';
+import { normalizePhone } from '../services/phoneVerificationService';
+import { parseListingOptions, publicVehicleFilter, toVehicleListItems, PUBLIC_LISTING_EXCLUDED_FIELDS } from '../services/vehicleService';
+import { getSellerStats } from '../services/sellerService';
+import { scheduleAccountDeletion } from '../services/accountDeletionService';
+import { isValidObjectId } from 'mongoose';
+
+// Únicos campos do usuário expostos no perfil público
+const PUBLIC_PROFILE_FIELDS = 'username avatarUrl city state created_at phoneVerified accountStatus deletionScheduledFor';
 
 /**
  * @api {put} /user/profile Atualizar perfil do usuário
@@ -35,6 +48,11 @@ import bcrypt from 'bcryptjs';
  *     {
  *       "message": "Usuário não encontrado"
  *     }
+ * @apiErrorExample {json} Resposta de Erro - Proibido:
+ *     HTTP/1.1 403 Forbidden
+ *     {
+ *       "message": "Proibido: Você só pode atualizar o seu próprio perfil."
+ *     }
  * @apiErrorExample {json} Resposta de Erro - Validação:
  *     HTTP/1.1 400 Bad Request
  *     {
@@ -58,17 +76,27 @@ export const updateUserProfile = async (req: Request, res: Response) => {
     const { id: userId } = req.params; // Obtém o userId dos parâmetros da URL
 
     try {
-        // Valida o corpo da requisição contra um esquema de usuário parcial para permitir atualizações parciais
-        const validatedData = createUserSchema.partial().parse(req.body);
+        if (userId !== req.userId) {
+            return res.status(403).json({ message: 'Proibido: Você só pode atualizar o seu próprio perfil.' });
+        }
 
-        if (validatedData.password) {
-            const salt = await bcrypt.genSalt(10);
-            validatedData.password = await bcrypt.hash(validatedData.password, salt);
+        if (req.body?.password !== undefined) {
+            return res.status(400).json({ message: 'A senha não pode ser alterada por esta rota. Use PUT /user/password.' });
         }
 
+        if (req.body?.email !== undefined && req.body.email !== req.user?.email) {
+            return res.status(400).json({ message: 'O e-mail não pode ser alterado por esta rota. Use PUT /user/email.' });
+        }
+
+        // Valida o corpo da requisição contra um esquema de usuário parcial para permitir atualizações parciais
+        const validatedData = updateUserSchema.parse(req.body);
+
+        // Um telefone novo precisa ser verificado novamente
+        const phoneChanged = validatedData.phone !== undefined && normalizePhone(validatedData.phone) !== normalizePhone(req.user?.phone);
+
         const updatedUser = await User.findByIdAndUpdate(
             userId,
-            { $set: validatedData },
+            { $set: { ...validatedData, ...(phoneChanged ? { phoneVerified: false } : {}) } },
             { new: true, runValidators: true }
         ).select('-password'); // Exclui a senha do objeto de usuário retornado
 
@@ -86,21 +114,104 @@ export const updateUserProfile = async (req: Request, res: Response) => {
     }
 };
 
+/**
+ * @api {put} /user/password Alterar senha
+ * @apiGroup User
+ * @apiHeader {String} Authorization Token de acesso único do usuário
+ * @apiParam {String} currentPassword Senha atual
+ * @apiParam {String} newPassword Nova senha (não pode repetir a atual nem as 5 anteriores)
+ * @apiSuccess {String} message Mensagem de sucesso
+ * @apiSuccess {String} accessToken Novo token de acesso (os anteriores são revogados)
+ * @apiSuccess {String} refreshToken Novo refresh token
+ * @apiSuccessExample {json} Resposta de Sucesso:
+ *     HTTP/1.1 200 OK
+ *     {
+ *       "message": "Senha alterada com sucesso",
+ *       "accessToken": "eyJhbGciOi...",
+ *       "refreshToken": "eyJhbGciOi..."
+ *     }
+ * @apiErrorExample {json} Resposta de Erro - Senha Atual Incorreta:
+ *     HTTP/1.1 400 Bad Request
+ *     {
+ *       "message": "Senha atual incorreta"
+ *     }
+ * @apiErrorExample {json} Resposta de Erro - Senha Reutilizada:
+ *     HTTP/1.1 400 Bad Request
+ *     {
+ *       "message": "A nova senha não pode ser igual a uma das senhas usadas recentemente"
+ *     }
+ */
+export const changePassword = async (req: Request, res: Response) => {
+    try {
+        const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+
+        const user = await User.findById(req.userId).select('+passwordHistory');
+
+        if (!user) {
+            return res.status(404).json({ message: 'Usuário não encontrado' });
+        }
+
+        if (!user.password) {
+            return res.status(400).json({ message: 'Esta conta não possui senha. Use a recuperação de senha para definir uma.' });
+        }
+
+        const isMatch = await bcrypt.compare(currentPassword, user.password);
+        if (!isMatch) {
+            return res.status(400).json({ message: 'Senha atual incorreta' });
+        }
+
+        if (await isRecentPassword(user, newPassword)) {
+            return res.status(400).json({ message: 'A nova senha não pode ser igual a uma das senhas usadas recentemente' });
+        }
+
+        await applyNewPassword(user, newPassword);
+        await user.save();
+
+        // Todas as sessões são encerradas; quem trocou a senha recebe uma sessão nova
+        await revokeAllUserTokens(user._id.toString(), 'password_changed');
+        const { accessToken, refreshToken } = await createSession(user._id.toString(), req);
+
+        sendMailWithRetry({
+            to: user.email,
+            subject: '.CARRO: Sua senha foi alterada',
+            html: `
+                Olá ${user.username || 'usuário'},
+                <p>A senha da sua conta .CARRO foi alterada em ${new Date().toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })}.</p>
+                <p>Por segurança, todas as sessões abertas em outros dispositivos foram encerradas.</p>
+                <p>Se você não fez esta alteração, <a href="${process.env.FRONTEND_DOMAIN}/esqueci-minha-senha" style="color: #007bff; text-decoration: none;">redefina sua senha</a> imediatamente e entre em contato com o suporte.</p>
+                <p>Obrigado,<br/>Equipe .CARRO</p>
+            `,
+        }).catch(emailError => console.error('Erro ao enviar e-mail de senha alterada:', emailError));
+
+        res.status(200).json({ message: 'Senha alterada com sucesso', accessToken, refreshToken });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
 /**
  * @api {delete} /user/delete Excluir conta de usuário
  * @apiGroup User
  * @apiHeader {String} Authorization Token de acesso único do usuário
+ * @apiDescription Agenda a exclusão da conta para daqui a 30 dias. Os anúncios saem do ar e todas as sessões
+ * e chaves de API são revogadas na hora; entrar novamente na conta antes do prazo cancela a exclusão.
  * @apiSuccess {String} message Mensagem de sucesso
+ * @apiSuccess {Date} deletionScheduledFor Data da exclusão definitiva
  * @apiSuccessExample {json} Resposta de Sucesso:
  *     HTTP/1.1 200 OK
  *     {
- *       "message": "Conta de usuário excluída com sucesso"
+ *       "message": "Exclusão da conta agendada. Entre novamente na conta antes da data informada para cancelar.",
+ *       "deletionScheduledFor": "2024-03-01T12:00:00.000Z"
  *     }
  * @apiError {String} message Mensagem de erro
- * @apiErrorExample {json} Resposta de Erro - Usuário Não Encontrado:
- *     HTTP/1.1 404 Not Found
+ * @apiErrorExample {json} Resposta de Erro - Exclusão Já Agendada:
+ *     HTTP/1.1 409 Conflict
  *     {
- *       "message": "Usuário não encontrado"
+ *       "message": "A exclusão desta conta já está agendada"
  *     }
  * @apiErrorExample {json} Resposta de Erro - Não Autorizado:
  *     HTTP/1.1 401 Unauthorized
@@ -114,21 +225,85 @@ export const updateUserProfile = async (req: Request, res: Response) => {
  *     }
  */
 export const deleteUserAccount = async (req: Request, res: Response) => {
-    const userId = (req as any).user.id; // user._id é anexado pelo middleware authenticateUser
+    const user = req.user!; // Carregado pelo middleware authenticateUser
 
     try {
-        // Exclui todos os veículos associados ao usuário
-        await Vehicle.deleteMany({ owner_id: userId });
+        if (user.deletionScheduledFor) {
+            return res.status(409).json({ message: 'A exclusão desta conta já está agendada', deletionScheduledFor: user.deletionScheduledFor });
+        }
 
-        const deletedUser = await User.findByIdAndDelete(userId);
+        const deletionScheduledFor = await scheduleAccountDeletion(user);
 
-        if (!deletedUser) {
-            return res.status(404).json({ message: 'Usuário não encontrado' });
+        res.status(200).json({
+            message: 'Exclusão da conta agendada. Entre novamente na conta antes da data informada para cancelar.',
+            deletionScheduledFor,
+        });
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+/**
+ * @api {get} /user/:id/public Perfil público do vendedor
+ * @apiGroup User
+ * @apiParam {String} id ID do vendedor
+ * @apiSuccess {Object} seller Nome de exibição, foto, cidade/estado e data de cadastro (nunca e-mail ou telefone)
+ * @apiSuccess {Object[]} vehicles Anúncios ativos do vendedor, paginados como em GET /vehicles
+ * @apiSuccess {Object} stats Total de anúncios, vendidos e tempo médio de resposta
+ * @apiErrorExample {json} Resposta de Erro - Vendedor Não Encontrado:
+ *     HTTP/1.1 404 Not Found
+ *     {
+ *       "message": "Vendedor não encontrado"
+ *     }
+ */
+export const getPublicProfile = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        if (!isValidObjectId(id)) {
+            return res.status(404).json({ message: 'Vendedor não encontrado' });
         }
 
-        res.status(200).json({ message: 'Conta de usuário excluída com sucesso' });
-    } catch (err) {
+        const seller = await User.findById(id).select(PUBLIC_PROFILE_FIELDS);
+
+        // Contas banidas ou aguardando exclusão não têm perfil público
+        if (!seller || seller.accountStatus === 'banned' || seller.deletionScheduledFor) {
+            return res.status(404).json({ message: 'Vendedor não encontrado' });
+        }
+
+        const { page, limit, skip, sort } = parseListingOptions(req.query);
+        const filter = { ...publicVehicleFilter(), owner_id: id };
+
+        const vehicles = await Vehicle.find(filter)
+            .select(PUBLIC_LISTING_EXCLUDED_FIELDS)
+            .sort(sort)
+            .skip(skip)
+            .limit(limit);
+
+        const totalVehicles = await Vehicle.countDocuments(filter);
+
+        // Os contatos do anúncio ficam apenas na página do veículo
+        const listings = (await toVehicleListItems(vehicles, req.userId)).map(({ announcerPhone, ...vehicle }) => vehicle);
+
+        res.status(200).json({
+            seller: {
+                _id: seller._id,
+                username: seller.username,
+                avatarUrl: seller.avatarUrl ?? null,
+                city: seller.city,
+                state: seller.state,
+                memberSince: seller.created_at,
+                phoneVerified: Boolean(seller.phoneVerified),
+            },
+            stats: await getSellerStats(id),
+            vehicles: listings,
+            currentPage: page,
+            totalPages: Math.ceil(totalVehicles / limit),
+            totalVehicles,
+        });
+    } catch (err: any) {
         console.error(err);
         res.status(500).json({ message: 'Erro do servidor' });
     }
-};
\ No newline at end of file
+};
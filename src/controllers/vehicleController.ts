@@ -1,96 +1,30 @@
 import { Request, Response } from 'express';
-import Vehicle from '../models/Vehicle';
-import { vehicleSchema } from '../schemas/vehicleSchema';
+import Vehicle, { VEHICLE_STATUSES, VehicleStatus } from '../models/Vehicle';
+import { vehicleSchema, createVehicleSchema, sellVehicleSchema } from '../schemas/vehicleSchema';
 import { z } from 'zod';
 import fs from 'fs';
+import { isValidObjectId } from 'mongoose';
 import path from 'path';
-import Image from '../models/Image';
-import cloudinary from '../config/cloudinary';
-
-const cleanCloudinaryUrl = (url: string, originalPublicId?: string) => {
-    // Se temos o originalPublicId, construímos a URL correta diretamente
-    if (originalPublicId && originalPublicId.includes('vehicles/')) {
-        const cloudName = process.env.CLOUDINARY_CLOUD_NAME || 'dw5xqqlvl';
-        // Garante que o publicId tenha extensão .webp (todas as imagens são convertidas para webp)
-        let finalPublicId = originalPublicId;
-        if (!/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(finalPublicId)) {
-            finalPublicId += '.webp';
-        } else if (!finalPublicId.endsWith('.webp')) {
-            // Se tem extensão mas não é webp, substitui por webp
-            finalPublicId = finalPublicId.replace(/\.(jpg|jpeg|png|gif|svg)$/i, '.webp');
-        }
-        return `https://res.cloudinary.com/${cloudName}/image/upload/f_auto,q_auto/${finalPublicId}`;
-    }
-
-    // Fallback para URLs antigas que podem precisar de correção
-    if (!url || (!url.startsWith('http://') && !url.startsWith('https://'))) {
-        return url; // Não é uma URL web, retorna como está
-    }
-
-    try {
-        const parsedUrl = new URL(url);
-        parsedUrl.searchParams.delete('_a');
-        parsedUrl.protocol = 'https:';
-
-        // Remove o segmento '/v1/' ou outras versões se existir
-        parsedUrl.pathname = parsedUrl.pathname.replace(/\/v\d+\//, '/');
-
-        let finalUrl = parsedUrl.toString();
-
-        // Adiciona .jpg se não tiver extensão e se for uma URL do Cloudinary
-        if (finalUrl.includes('res.cloudinary.com') && !/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(finalUrl)) {
-            finalUrl += '.jpg';
-        }
-
-        return finalUrl;
-    } catch (error) {
-        console.warn('Falha ao limpar URL do Cloudinary:', url, error);
-        return url; // Em caso de erro na URL, retorna a original
-    }
-};
-
-// Função auxiliar para remover acentos de uma string
-const stripAccents = (str: string): string => {
-    return str.normalize("NFD").replace(/\p{Diacritic}/gu, "");
-};
+import { findMemberOrganization, hasOrganizationPermission, applyOrganizationDefaults } from '../services/organizationService';
+import { listingExpiryFields, getListingTier, getOwnerListingTier, renewListingByToken } from '../services/listingExpiryService';
+import { getPriceChangeFields, recordPriceChange, getPriceHistory } from '../services/priceHistoryService';
+import { attachFavoriteCounts, notifyFavoriteWatchers } from '../services/favoriteService';
+import { purgeVehicle, findEditableVehicle, isVehicleContentLocked, SOLD_VEHICLE_LOCKED_MESSAGE, publicVehicleFilter, escapeRegex, getNextVehicleStatus, currentStatusFilter, VehicleStatusAction, decorateVehicles, buildVehicleSearchFilter, DESC_BY_DEFAULT_SORT_FIELDS, parseListingOptions, toVehicleListItems, LISTING_EXCLUDED_FIELDS, PUBLIC_LISTING_EXCLUDED_FIELDS, PUBLIC_VEHICLE_EXCLUDED_FIELDS } from '../services/vehicleService';
 
 export const getAllVehicles = async (req: Request, res: Response) => {
     try {
-        const page = parseInt(req.query.page as string) || 1; // Padrão para página 1
-        const limit = parseInt(req.query.limit as string) || 10; // Padrão para 10 itens por página
-        let sortBy = req.query.sortBy as string || 'created_at'; // Padrão de ordenação por 'created_at'
-        const sortOrder = req.query.sortOrder as string || (sortBy === 'created_at' ? 'desc' : 'asc'); // Padrão 'desc' para created_at, 'asc' para outros
-
-        // Mapeia 'createdAt' para 'created_at' para a consulta ao banco de dados
-        if (sortBy === 'createdAt') {
-            sortBy = 'created_at';
-        }
-
-        const skip = (page - 1) * limit;
-
-        const sort: { [key: string]: 1 | -1 } = {};
-        sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+        const { page, limit, skip, sort } = parseListingOptions(req.query);
 
-        const vehicles = await Vehicle.find()
-            .select('-description -features -images') // Exclui descrição e features
+        const vehicles = await Vehicle.find(publicVehicleFilter())
+            .select(PUBLIC_LISTING_EXCLUDED_FIELDS) // Exclui descrição, features, imagens e os campos privados do anúncio
             .sort(sort)
             .skip(skip)
             .limit(limit);
 
-        // Obtém manualmente as URLs das imagens para firstImageUrl sem popular o array inteiro
-        const vehiclesWithFirstImage = await Promise.all(vehicles.map(async (vehicle: any) => {
-            const firstImageDoc = await Image.findOne({ vehicle_id: vehicle._id }).select('imageUrl cloudinaryPublicId').lean();
-            const firstImageUrl = firstImageDoc ? cleanCloudinaryUrl(firstImageDoc.imageUrl, firstImageDoc.cloudinaryPublicId) : null;
-
-            const vehicleObject = vehicle.toJSON();
-            // O array de imagens não é populado, então não há necessidade de excluí-lo. Ele não estará lá.
-            return { ...vehicleObject, firstImageUrl };
-        }));
-
-        const totalVehicles = await Vehicle.countDocuments(); // Obtém a contagem total para paginação
+        const totalVehicles = await Vehicle.countDocuments(publicVehicleFilter()); // Obtém a contagem total para paginação
 
         res.status(200).json({
-            vehicles: vehiclesWithFirstImage,
+            vehicles: await toVehicleListItems(vehicles, req.userId),
             currentPage: page,
             totalPages: Math.ceil(totalVehicles / limit),
             totalVehicles,
@@ -113,39 +47,30 @@ export const getUserVehicles = async (req: Request, res: Response) => {
             return res.status(403).json({ message: 'Proibido: Você só pode visualizar seus próprios veículos.' });
         }
 
-        const page = parseInt(req.query.page as string) || 1; // Padrão para página 1
-        const limit = parseInt(req.query.limit as string) || 10; // Padrão para 10 itens por página
-        let sortBy = req.query.sortBy as string || 'created_at'; // Padrão de ordenação por 'created_at'
+        const { page, limit, skip, sort } = parseListingOptions(req.query);
 
-        if (sortBy === 'createdAt') {
-            sortBy = 'created_at';
+        // Filtro opcional por status (ex.: ?status=sold); sem ele, todos os anúncios do usuário
+        const status = req.query.status as string | undefined;
+        if (status && !VEHICLE_STATUSES.includes(status as VehicleStatus)) {
+            return res.status(400).json({ message: `Status inválido. Use um de: ${VEHICLE_STATUSES.join(', ')}` });
+        }
+        const filter: any = { owner_id: req.userId };
+        if (status) {
+            // Anúncios criados antes do campo status contam como ativos
+            filter.status = status === 'active' ? { $in: ['active', null] } : status;
         }
 
-        const sortOrder = req.query.sortOrder as string || (sortBy === 'created_at' ? 'desc' : 'asc'); // Padrão 'desc' para created_at, 'asc' para outros
-
-        const skip = (page - 1) * limit;
-
-        const sort: { [key: string]: 1 | -1 } = {};
-        sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
-
-        const vehicles = await Vehicle.find({ owner_id: req.userId })
-            .select('-description -features -images') // Exclui descrição, features e imagens
+        const vehicles = await Vehicle.find(filter)
+            .select(LISTING_EXCLUDED_FIELDS) // Exclui descrição, features e imagens
             .sort(sort)
             .skip(skip)
             .limit(limit);
 
-        const totalVehicles = await Vehicle.countDocuments({ owner_id: req.userId }); // Obtém a contagem total para paginação
+        const totalVehicles = await Vehicle.countDocuments(filter); // Obtém a contagem total para paginação
         const totalPages = Math.ceil(totalVehicles / limit);
 
-        // Anexa firstImageUrl a cada veículo
-        const vehiclesWithFirstImage = await Promise.all(vehicles.map(async (vehicle: any) => {
-            const firstImage = await Image.findOne({ vehicle_id: vehicle._id }).select('imageUrl cloudinaryPublicId').lean();
-            const plainVehicle = vehicle._doc ? { ...vehicle._doc } : { ...vehicle };
-            return { ...plainVehicle, firstImageUrl: firstImage ? cleanCloudinaryUrl(firstImage.imageUrl, firstImage.cloudinaryPublicId) : null };
-        }));
-
         res.status(200).json({
-            vehicles: vehiclesWithFirstImage,
+            vehicles: await attachFavoriteCounts(await toVehicleListItems(vehicles)), // O dono vê quantos usuários salvaram cada anúncio
             currentPage: page,
             totalPages: totalPages,
             totalVehicles: totalVehicles,
@@ -157,124 +82,28 @@ export const getUserVehicles = async (req: Request, res: Response) => {
 };
 
 export const searchVehicles = async (req: Request, res: Response) => {
-    const { brand, vehicleModel, engine, year, minPrice, maxPrice, state, city, fuel, transmission, bodyType, color, mileage, name, minMileage, maxMileage, minYear, maxYear } = req.query; // Adicionei minMileage, maxMileage, minYear e maxYear
-
     const page = parseInt(req.query.page as string) || 1; // Padrão para página 1
     const limit = parseInt(req.query.limit as string) || 10; // Padrão para 10 itens por página
     const sortBy = req.query.sortBy as string || 'created_at'; // Padrão de ordenação por 'created_at'
-    const sortOrder = req.query.sortOrder as string || (sortBy === 'created_at' ? 'desc' : 'asc'); // Padrão 'desc' para created_at, 'asc' para outros
+    const sortOrder = req.query.sortOrder as string || (DESC_BY_DEFAULT_SORT_FIELDS.includes(sortBy) ? 'desc' : 'asc'); // Padrão 'desc' para created_at e priceDroppedAt, 'asc' para outros
     const skip = (page - 1) * limit;
 
-    let filter: any = {};
-
-    if (name) {
-        const keywords = (name as string).split(' ').filter(Boolean); // Divide por espaço e remove strings vazias
-        const keywordFilters = keywords.map(keyword => {
-            const strippedKeyword = stripAccents(keyword); // Remove acentos da palavra-chave
-            const searchRegex = new RegExp(strippedKeyword, 'i');
-            const yearSearch = parseInt(keyword);
-            return {
-                $or: [
-                    { title: searchRegex },
-                    { brand: searchRegex },
-                    { vehicleModel: searchRegex },
-                    { color: searchRegex },
-                    { state: searchRegex },
-                    { city: searchRegex },
-                    ...(isNaN(yearSearch) ? [] : [{ year: yearSearch }]), // Adiciona busca por ano apenas se for um número válido
-                ]
-            };
-        });
-        filter.$and = [...(filter.$and || []), ...keywordFilters];
-    }
-    if (brand) {
-        filter.brand = { $regex: new RegExp(stripAccents(brand as string), 'i') }; // Aplica stripAccents ao filtro de marca
-    }
-    if (vehicleModel) {
-        filter.vehicleModel = { $regex: new RegExp(stripAccents(vehicleModel as string), 'i') }; // Aplica stripAccents ao filtro de modelo de veículo
-    }
-    if (engine) {
-        filter.engine = { $regex: new RegExp(stripAccents(engine as string), 'i') }; // Aplica stripAccents ao filtro de motorização
-    }
-
-    // Validação para campos numéricos
-    const parsedYear = parseInt(year as string);
-    if (!isNaN(parsedYear)) {
-        filter.year = parsedYear;
-    }
-
-    const parsedMinPrice = parseFloat(minPrice as string);
-    if (!isNaN(parsedMinPrice)) {
-        filter.price = { ...filter.price, $gte: parsedMinPrice };
-    }
-
-    const parsedMaxPrice = parseFloat(maxPrice as string);
-    if (!isNaN(parsedMaxPrice)) {
-        filter.price = { ...filter.price, $lte: parsedMaxPrice };
-    }
-
-    if (state) {
-        filter.state = { $regex: new RegExp(state as string, 'i') };
-    }
-    if (city) {
-        filter.city = { $regex: new RegExp(city as string, 'i') };
-    }
-    if (fuel) {
-        filter.fuel = { $regex: new RegExp(fuel as string, 'i') };
-    }
-    if (transmission) {
-        filter.transmission = { $regex: new RegExp(transmission as string, 'i') };
-    }
-    if (bodyType) {
-        filter.bodyType = { $regex: new RegExp(bodyType as string, 'i') };
-    }
-    if (color) {
-        filter.color = { $regex: new RegExp(stripAccents(color as string), 'i') }; // Aplica stripAccents ao filtro de cor
-    }
-
-    const parsedMinMileage = parseInt(minMileage as string);
-    if (!isNaN(parsedMinMileage)) {
-        filter.mileage = { ...filter.mileage, $gte: parsedMinMileage };
-    }
-
-    const parsedMaxMileage = parseInt(maxMileage as string);
-    if (!isNaN(parsedMaxMileage)) {
-        filter.mileage = { ...filter.mileage, $lte: parsedMaxMileage };
-    }
-
-    const parsedMinYear = parseInt(minYear as string);
-    if (!isNaN(parsedMinYear)) {
-        filter.year = { ...filter.year, $gte: parsedMinYear };
-    }
-
-    const parsedMaxYear = parseInt(maxYear as string);
-    if (!isNaN(parsedMaxYear)) {
-        filter.year = { ...filter.year, $lte: parsedMaxYear };
-    }
+    const filter = buildVehicleSearchFilter(req.query);
 
     const sort: { [key: string]: 1 | -1 } = {};
     sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
 
     try {
         const filteredVehicles = await Vehicle.find(filter)
-            .select('-description -features -images') // Exclui descrição e features
+            .select(PUBLIC_LISTING_EXCLUDED_FIELDS) // Exclui descrição, features, imagens e os campos privados do anúncio
             .sort(sort)
             .skip(skip)
             .limit(limit);
 
-        const vehiclesWithFirstImage = await Promise.all(filteredVehicles.map(async (vehicle: any) => {
-            const firstImageDoc = await Image.findOne({ vehicle_id: vehicle._id }).select('imageUrl cloudinaryPublicId').lean();
-            const firstImageUrl = firstImageDoc ? cleanCloudinaryUrl(firstImageDoc.imageUrl, firstImageDoc.cloudinaryPublicId) : null;
-
-            const vehicleObject = vehicle.toJSON();
-            // O array de imagens não é populado, então não há necessidade de excluí-lo. Ele não estará lá.
-            return { ...vehicleObject, firstImageUrl };
-        }));
-
         const totalVehicles = await Vehicle.countDocuments(filter);
 
         res.status(200).json({
-            vehicles: vehiclesWithFirstImage,
+            vehicles: await toVehicleListItems(filteredVehicles, req.userId),
             currentPage: page,
             totalPages: Math.ceil(totalVehicles / limit),
             totalVehicles,
@@ -293,8 +122,9 @@ export const getVehiclesByCityAndState = async (req: Request, res: Response) =>
             return res.status(400).json({ message: 'Please provide a city and state to search' });
         }
 
-        const vehicles = await Vehicle.find({ city: { $regex: new RegExp(city as string, 'i') }, state: { $regex: new RegExp(state as string, 'i') } });
-        res.status(200).json(vehicles);
+        const vehicles = await Vehicle.find({ ...publicVehicleFilter(), city: { $regex: new RegExp(escapeRegex(city as string), 'i') }, state: { $regex: new RegExp(escapeRegex(state as string), 'i') } })
+            .select(PUBLIC_VEHICLE_EXCLUDED_FIELDS);
+        res.status(200).json(await decorateVehicles(vehicles.map(vehicle => vehicle.toJSON()), req.userId));
     } catch (err: any) {
         console.error(err);
         res.status(500).json({ message: 'Erro ao buscar veículos por cidade e estado', error: err.message });
@@ -306,12 +136,26 @@ export const addVehicle = async (req: Request, res: Response) => {
         if (!req.userId) {
             return res.status(401).json({ message: 'Unauthorized: User ID not found' });
         }
-        const validatedData = vehicleSchema.parse(req.body);
+
+        // Anúncio da loja: exige permissão na organização e usa os dados do anunciante da loja como padrão
+        const { organizationId, ...vehicleData } = req.body ?? {};
+        let organization = null;
+        if (organizationId !== undefined) {
+            organization = isValidObjectId(organizationId) ? await findMemberOrganization(organizationId, req.userId) : null;
+            if (!organization || !hasOrganizationPermission(organization, req.userId, 'listings:create')) {
+                return res.status(403).json({ message: 'Você não tem permissão para publicar anúncios para esta loja' });
+            }
+        }
+
+        const validatedData = createVehicleSchema.parse(organization ? applyOrganizationDefaults(organization, vehicleData) : vehicleData);
 
         const { title, brand, vehicleModel, engine, year, price, mileage, state, city, fuel, transmission, bodyType, color, description, features, announcerName, announcerEmail, announcerPhone } = validatedData;
+        const status = validatedData.status ?? 'active';
+        const now = new Date();
 
         const newVehicle = new Vehicle({
             owner_id: req.userId, // Revertido para usar req.userId diretamente
+            organization_id: organization?._id,
             title,
             brand,
             vehicleModel,
@@ -330,9 +174,14 @@ export const addVehicle = async (req: Request, res: Response) => {
             announcerName,
             announcerEmail,
             announcerPhone,
+            status,
+            statusChangedAt: now,
+            publishedAt: status === 'active' ? now : undefined,
+            ...(status === 'active' ? listingExpiryFields(getListingTier(req.user), now) : {}),
         });
 
         const savedVehicle = await newVehicle.save();
+        await recordPriceChange(String(savedVehicle._id), price, undefined, req.userId);
         res.status(201).json(savedVehicle);
     } catch (err: any) {
         if (err instanceof z.ZodError) {
@@ -355,12 +204,18 @@ export const updateVehicle = async (req: Request, res: Response) => {
         // Valida o corpo da requisição com o esquema zod (parcial para atualizações)
         const validatedData = vehicleSchema.partial().parse(req.body);
 
-        const vehicle = await Vehicle.findOne({ _id: id, owner_id: ownerId });
+        const vehicle = await findEditableVehicle(id, ownerId!);
 
         if (!vehicle) {
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to edit this vehicle' });
         }
 
+        // Também evita avisos de preço aos favoritos de um anúncio já vendido
+        if (isVehicleContentLocked(vehicle)) {
+            return res.status(409).json({ message: SOLD_VEHICLE_LOCKED_MESSAGE });
+        }
+
+        const currentPrice = vehicle.price;
         Object.assign(vehicle, validatedData);
 
         // Garante que os campos numéricos sejam analisados corretamente se presentes em validatedData
@@ -368,8 +223,22 @@ export const updateVehicle = async (req: Request, res: Response) => {
         if (validatedData.price !== undefined) vehicle.price = validatedData.price;
         if (validatedData.mileage !== undefined) vehicle.mileage = validatedData.mileage;
 
+        // Alterações de preço ficam registradas no histórico e alimentam o indicador de redução
+        const priceChange = validatedData.price !== undefined ? getPriceChangeFields(currentPrice, validatedData.price, new Date()) : null;
+        if (priceChange) {
+            Object.assign(vehicle, priceChange);
+        }
+
         await vehicle.save();
 
+        if (priceChange) {
+            await recordPriceChange(id, vehicle.price, currentPrice, ownerId!);
+        }
+        if (priceChange?.priceDroppedAt) {
+            notifyFavoriteWatchers('price_drop', vehicle, ownerId)
+                .catch(notifyError => console.error('Erro ao avisar favoritos sobre redução de preço:', notifyError));
+        }
+
         res.status(200).json({ message: 'Veículo atualizado com sucesso', vehicle });
     } catch (err: any) {
         if (err instanceof z.ZodError) {
@@ -385,8 +254,8 @@ export const deleteImage = async (req: Request, res: Response) => {
         const { id, imageName } = req.params;
         const ownerId = req.userId; // Usa req.userId conforme definido pelo middleware de autenticação
 
-        // Verifica se o veículo existe e pertence ao usuário
-        const vehicle = await Vehicle.findOne({ _id: id, owner_id: ownerId });
+        // Verifica se o veículo existe e pode ser alterado pelo usuário (dono ou membro autorizado da loja)
+        const vehicle = await findEditableVehicle(id, ownerId!);
 
         if (!vehicle) {
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to delete images for this vehicle' });
@@ -412,38 +281,17 @@ export const deleteVehicle = async (req: Request, res: Response) => {
     const ownerId = req.userId; // Usa req.userId conforme definido pelo middleware de autenticação
 
     try {
-        // Encontra o veículo para garantir que ele exista e pertença ao usuário
-        const vehicleToDelete = await Vehicle.findOne({ _id: id, owner_id: ownerId });
+        // Encontra o veículo para garantir que ele exista e possa ser excluído pelo usuário
+        const vehicleToDelete = await findEditableVehicle(id, ownerId!, 'listings:delete');
 
         if (!vehicleToDelete) {
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to delete this vehicle' });
         }
 
-        // 1. Exclui todas as imagens da pasta do veículo no Cloudinary
-        if (id && id.trim() !== '') {
-            const folderPath = `vehicles/${id}`;
-            try {
-                // Exclui todas as imagens que começam com o prefixo da pasta
-                await cloudinary.api.delete_resources_by_prefix(`${folderPath}/`);
-
-                // Tenta excluir a pasta vazia (se existir)
-                try {
-                    await cloudinary.api.delete_folder(folderPath);
-                } catch (folderError: any) {
-                    // Ignora erro se a pasta não existir ou não estiver vazia
-                }
-            } catch (cloudinaryError: any) {
-                console.warn(`Erro ao excluir imagens/pasta do Cloudinary para veículo ${id}:`, cloudinaryError.message);
-            }
-        }
-
-        // 2. Exclui os registros de imagem da coleção Image no banco de dados
-        await Image.deleteMany({ vehicle_id: id });
+        // Remove imagens (Cloudinary e banco) e o registro do veículo
+        const deleted = await purgeVehicle(id);
 
-        // 4. Exclui o registro do veículo da coleção Vehicle no banco de dados
-        const result = await Vehicle.deleteOne({ _id: id, owner_id: ownerId });
-
-        if (result.deletedCount === 0) {
+        if (!deleted) {
             // Este caso idealmente não deveria ser alcançado se vehicleToDelete foi encontrado, mas por segurança
             return res.status(404).json({ message: 'Vehicle not found or you do not have permission to delete this vehicle' });
         }
@@ -458,17 +306,169 @@ export const deleteVehicle = async (req: Request, res: Response) => {
 export const getVehicleById = async (req: Request, res: Response) => {
     try {
         const { id } = req.params;
-        const vehicle = await Vehicle.findById(id);
+        // A página de um anúncio vendido continua acessível (com status 'sold'); rascunhos e pausados não
+        const vehicle = await Vehicle.findOne({ _id: id, ...publicVehicleFilter(['active', 'sold']) }).select(PUBLIC_VEHICLE_EXCLUDED_FIELDS);
 
         if (!vehicle) {
             return res.status(404).json({ message: 'Vehicle not found' });
         }
 
-        const vehicleObject = vehicle.toJSON();
+        const [vehicleObject] = await decorateVehicles([vehicle.toJSON()], req.userId);
 
         res.status(200).json(vehicleObject);
     } catch (err: any) {
         console.error(err);
         res.status(500).json({ message: 'Erro ao buscar veículo', error: err.message });
     }
-};
\ No newline at end of file
+};
+
+const STATUS_CHANGE_MESSAGES: Record<VehicleStatusAction, string> = {
+    publish: 'Anúncio publicado',
+    pause: 'Anúncio pausado',
+    sell: 'Venda registrada',
+    reactivate: 'Anúncio reativado',
+};
+
+/**
+ * Transições de status do anúncio (publicar, pausar, marcar como vendido, reativar).
+ * A venda guarda a data e o preço final, e o anúncio é mantido com as fotos em vez de excluído.
+ */
+export const changeVehicleStatus = (action: VehicleStatusAction) => async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const saleData = action === 'sell' ? sellVehicleSchema.parse(req.body ?? {}) : null;
+
+        const vehicle = await findEditableVehicle(id, req.userId!);
+
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found or you do not have permission to edit this vehicle' });
+        }
+
+        const nextStatus = getNextVehicleStatus(vehicle.status, action);
+        if (!nextStatus) {
+            return res.status(409).json({ message: `Não é possível aplicar esta ação a um anúncio com status ${vehicle.status}` });
+        }
+
+        const now = new Date();
+        const update: Record<string, unknown> = { status: nextStatus, statusChangedAt: now };
+        if (action === 'publish') {
+            update.publishedAt = now;
+        }
+        if (nextStatus === 'active') {
+            // Publicar ou reativar inicia um novo período de validade
+            Object.assign(update, listingExpiryFields(await getOwnerListingTier(vehicle.owner_id), now));
+        }
+        if (saleData) {
+            update.soldAt = saleData.soldAt ?? now;
+            update.soldPrice = saleData.soldPrice;
+        }
+
+        // Condicionado ao status lido, para que duas transições simultâneas não se sobreponham
+        const updated = await Vehicle.findOneAndUpdate(
+            { _id: id, status: currentStatusFilter(vehicle.status) },
+            { $set: update },
+            { new: true }
+        );
+
+        if (!updated) {
+            return res.status(409).json({ message: 'O status do anúncio foi alterado por outra requisição. Tente novamente.' });
+        }
+
+        if (action === 'sell') {
+            notifyFavoriteWatchers('sold', updated, req.userId)
+                .catch(notifyError => console.error('Erro ao avisar favoritos sobre a venda:', notifyError));
+        }
+
+        res.status(200).json({ message: STATUS_CHANGE_MESSAGES[action], vehicle: updated });
+    } catch (err: any) {
+        if (err instanceof z.ZodError) {
+            return res.status(400).json({ message: 'Erro de Validação', errors: err.issues });
+        }
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+/**
+ * Renova a validade de um anúncio ativo ou expirado (pelo dono ou membro da loja).
+ */
+export const renewVehicle = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const vehicle = await findEditableVehicle(id, req.userId!);
+
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found or you do not have permission to edit this vehicle' });
+        }
+
+        if (vehicle.status !== 'active' && vehicle.status !== 'expired') {
+            return res.status(409).json({ message: `Não é possível renovar um anúncio com status ${vehicle.status}` });
+        }
+
+        const now = new Date();
+        // Condicionado ao status lido: uma venda ou pausa simultânea não é desfeita pela renovação
+        const updated = await Vehicle.findOneAndUpdate(
+            { _id: id, status: currentStatusFilter(vehicle.status) },
+            {
+                $set: { status: 'active', statusChangedAt: now, ...listingExpiryFields(await getOwnerListingTier(vehicle.owner_id), now) },
+                $unset: { renewalTokenHash: 1 },
+            },
+            { new: true }
+        );
+
+        if (!updated) {
+            return res.status(409).json({ message: 'O status do anúncio foi alterado por outra requisição. Tente novamente.' });
+        }
+
+        res.status(200).json({ message: 'Anúncio renovado', vehicle: updated });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+/**
+ * Renovação em um clique pelo link do lembrete de vencimento (não exige login).
+ */
+export const renewVehicleByLink = async (req: Request, res: Response) => {
+    try {
+        const vehicle = await renewListingByToken(req.params.token);
+
+        if (!vehicle) {
+            return res.status(400).json({ message: 'Link de renovação inválido ou já utilizado' });
+        }
+
+        res.status(200).json({ message: 'Anúncio renovado', vehicleId: vehicle._id, expiresAt: vehicle.expiresAt });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+/**
+ * Histórico público de preços do anúncio, do preço inicial à alteração mais recente.
+ */
+export const getVehiclePriceHistory = async (req: Request, res: Response) => {
+    const { id } = req.params;
+
+    try {
+        const vehicle = await Vehicle.findOne({ _id: id, ...publicVehicleFilter(['active', 'sold']) }).select('price previousPrice priceDroppedAt');
+
+        if (!vehicle) {
+            return res.status(404).json({ message: 'Vehicle not found' });
+        }
+
+        res.status(200).json({
+            vehicleId: vehicle._id,
+            currentPrice: vehicle.price,
+            previousPrice: vehicle.previousPrice ?? null,
+            priceDroppedAt: vehicle.priceDroppedAt ?? null,
+            history: await getPriceHistory(id),
+        });
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro ao buscar o histórico de preços' });
+    }
+};
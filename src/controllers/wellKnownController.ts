@@ -0,0 +1,13 @@
+import { Request, Response } from 'express';
+import { getJwks } from '../services/keyManager';
+
+export const getJsonWebKeySet = async (req: Request, res: Response) => {
+    try {
+        // Outros serviços podem manter as chaves em cache; a rotação mantém a chave anterior publicada enquanto houver tokens válidos
+        res.set('Cache-Control', 'public, max-age=300');
+        res.status(200).json(getJwks());
+    } catch (err: any) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
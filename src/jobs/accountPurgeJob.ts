@@ -0,0 +1,12 @@
+import { scheduleJob } from './scheduler';
+import { purgeDueAccounts } from '../services/accountDeletionService';
+
+const ACCOUNT_PURGE_INTERVAL_MS = 60 * 60 * 1000; // A cada hora
+
+// Exclui definitivamente as contas cujo período de carência terminou
+export const startAccountPurgeJob = () => scheduleJob('account-purge', ACCOUNT_PURGE_INTERVAL_MS, async () => {
+    const purged = await purgeDueAccounts();
+    if (purged > 0) {
+        console.log(`Tarefa de exclusão de contas: ${purged} conta(s) excluída(s)`);
+    }
+});
@@ -0,0 +1,13 @@
+import { scheduleJob, Clock, systemClock } from './scheduler';
+import { failStaleDataExports, removeExpiredDataExports } from '../services/dataExportService';
+
+const DATA_EXPORT_CLEANUP_INTERVAL_MS = 10 * 60 * 1000; // A cada 10 minutos
+
+// Dá como falha as exportações interrompidas e remove as vencidas junto com os arquivos
+export const startDataExportCleanupJob = (clock: Clock = systemClock) => scheduleJob('data-export-cleanup', DATA_EXPORT_CLEANUP_INTERVAL_MS, async () => {
+    const failed = await failStaleDataExports(clock);
+    const removed = await removeExpiredDataExports(clock);
+    if (failed > 0 || removed > 0) {
+        console.log(`Tarefa de limpeza de exportações: ${failed} exportação(ões) interrompida(s), ${removed} removida(s)`);
+    }
+});
@@ -0,0 +1,13 @@
+import { ScheduledJob } from './scheduler';
+import { startAccountPurgeJob } from './accountPurgeJob';
+import { startListingExpiryJob } from './listingExpiryJob';
+import { startSavedSearchAlertJob } from './savedSearchAlertJob';
+import { startDataExportCleanupJob } from './dataExportCleanupJob';
+
+// Inicia todas as tarefas agendadas da API
+export const startJobs = (): ScheduledJob[] => [
+    startAccountPurgeJob(),
+    startListingExpiryJob(),
+    startSavedSearchAlertJob(),
+    startDataExportCleanupJob(),
+];
@@ -0,0 +1,14 @@
+import { scheduleJob, Clock, systemClock } from './scheduler';
+import { assignMissingListingExpiry, sendExpiryReminders, expireDueListings } from '../services/listingExpiryService';
+
+const LISTING_EXPIRY_INTERVAL_MS = 60 * 60 * 1000; // A cada hora
+
+// Envia os lembretes de vencimento e tira do ar os anúncios vencidos
+export const startListingExpiryJob = (clock: Clock = systemClock) => scheduleJob('listing-expiry', LISTING_EXPIRY_INTERVAL_MS, async () => {
+    await assignMissingListingExpiry(clock);
+    const reminded = await sendExpiryReminders(clock);
+    const expired = await expireDueListings(clock);
+    if (reminded > 0 || expired > 0) {
+        console.log(`Tarefa de vencimento de anúncios: ${reminded} lembrete(s) enviado(s), ${expired} anúncio(s) expirado(s)`);
+    }
+});
@@ -0,0 +1,12 @@
+import { scheduleJob, Clock, systemClock } from './scheduler';
+import { sendSavedSearchAlerts } from '../services/savedSearchService';
+
+const SAVED_SEARCH_ALERT_INTERVAL_MS = 10 * 60 * 1000; // A cada 10 minutos (frequência dos alertas "instant")
+
+// Envia os alertas de novos anúncios das buscas salvas
+export const startSavedSearchAlertJob = (clock: Clock = systemClock) => scheduleJob('saved-search-alerts', SAVED_SEARCH_ALERT_INTERVAL_MS, async () => {
+    const sent = await sendSavedSearchAlerts(clock);
+    if (sent > 0) {
+        console.log(`Tarefa de alertas de buscas salvas: ${sent} e-mail(s) enviado(s)`);
+    }
+});
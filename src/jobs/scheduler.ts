@@ -0,0 +1,42 @@
+// Fonte do horário atual usada pelas tarefas agendadas (substituível nos testes)
+export interface Clock {
+    now(): Date;
+}
+
+export const systemClock: Clock = {
+    now: () => new Date(),
+};
+
+export interface ScheduledJob {
+    name: string;
+    run(): Promise<void>; // Executa a tarefa imediatamente (ignorado se já estiver em execução)
+    stop(): void;
+}
+
+/**
+ * Executa uma tarefa periodicamente no próprio processo da API.
+ * Execuções não se sobrepõem: se a anterior ainda não terminou, o ciclo é pulado.
+ * O timer não impede o processo de encerrar.
+ */
+export const scheduleJob = (name: string, intervalMs: number, task: () => Promise<unknown>): ScheduledJob => {
+    let running = false;
+
+    const run = async () => {
+        if (running) {
+            return;
+        }
+        running = true;
+        try {
+            await task();
+        } catch (err) {
+            console.error(`Erro na tarefa agendada "${name}":`, err);
+        } finally {
+            running = false;
+        }
+    };
+
+    const timer = setInterval(run, intervalMs);
+    timer.unref();
+
+    return { name, run, stop: () => clearInterval(timer) };
+};
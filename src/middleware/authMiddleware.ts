@@ -1,14 +1,52 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import User from '../models/User'; // Importa o modelo de Usuário do Mongoose
+import User, { UserRole } from '../models/User'; // Importa o modelo de Usuário do Mongoose
+import { verifyToken, TokenPayload } from '../services/tokenService';
+import { isAccessTokenRevoked } from '../services/tokenRevocationService';
+import { getAccountRestriction } from '../services/loginService';
+import { findActiveApiKey } from '../services/apiKeyService';
+import { ApiKey, ApiKeyScope } from '../models/ApiKey';
 
 interface AuthRequest extends Request {
     userId?: string;
+    sessionId?: string;
+    tokenPayload?: TokenPayload;
+    apiKey?: ApiKey;
 }
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key';
+// Autenticação por chave de API (integrações de lojistas). A chave só é aceita em rotas que declaram o escopo exigido.
+const authenticateApiKey = async (key: string, requiredScope: ApiKeyScope | undefined, req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+        const apiKey = await findActiveApiKey(key);
+        if (!apiKey) {
+            return res.status(401).json({ message: 'API key is not valid' });
+        }
+        if (!requiredScope || !apiKey.scopes.includes(requiredScope)) {
+            return res.status(403).json({ message: 'Acesso negado: a chave de API não tem permissão para esta operação' });
+        }
+        const user = await User.findById(apiKey.user_id);
+        if (!user) {
+            return res.status(404).json({ message: 'User not found' });
+        }
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction });
+        }
+        req.userId = user._id.toString();
+        req.apiKey = apiKey;
+        req.user = user;
+        next();
+    } catch (err) {
+        console.error(err);
+        res.status(500).json({ message: 'Erro do servidor' });
+    }
+};
+
+const authenticate = (apiKeyScope?: ApiKeyScope) => async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const apiKey = req.header('X-Api-Key');
+    if (apiKey) {
+        return authenticateApiKey(apiKey, apiKeyScope, req, res, next);
+    }
 
-export const authenticateUser = async (req: AuthRequest, res: Response, next: NextFunction) => {
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
     if (!token) {
@@ -16,17 +54,80 @@ export const authenticateUser = async (req: AuthRequest, res: Response, next: Ne
     }
 
     try {
-        const decoded = jwt.verify(token, JWT_SECRET) as { id: string }; // id agora é string para o _id do MongoDB
+        // Apenas tokens de acesso: refresh tokens só valem em /auth/refresh-token e tokens de propósito específico em seus fluxos
+        const decoded = verifyToken(token); // id agora é string para o _id do MongoDB
         req.userId = decoded.id; // Anexa o ID do usuário à requisição
+        req.sessionId = decoded.sid; // Anexa o ID da sessão que emitiu o token
+        req.tokenPayload = decoded; // Usado no logout para revogar o próprio token
         const user = await User.findById(decoded.id);
         if (!user) {
             return res.status(404).json({ message: 'User not found' });
         }
-        // Não precisamos anexar o objeto de usuário completo se apenas o ID for usado
-        // (req as any).user = user; 
+        if (await isAccessTokenRevoked(decoded, user.tokensValidAfter)) {
+            return res.status(401).json({ message: 'Token is not valid' });
+        }
+        const restriction = getAccountRestriction(user);
+        if (restriction) {
+            return res.status(403).json({ message: restriction });
+        }
+        req.user = user; // Carregado uma única vez e reaproveitado pelos próximos middlewares e controllers
         next();
 
     } catch (err) {
         res.status(401).json({ message: 'Token is not valid' });
     }
 };
+
+// Aceita apenas tokens de sessão; chaves de API são recusadas por padrão
+export const authenticateUser = authenticate();
+
+// Aceita tokens de sessão ou chaves de API que possuam o escopo informado
+export const authenticateUserOrApiKey = (scope: ApiKeyScope) => authenticate(scope);
+
+// Rotas públicas que mudam conforme o usuário (ex.: isFavorited nas listagens): identifica o usuário
+// quando há um token válido e segue como visitante caso contrário, sem nunca recusar a requisição.
+export const optionalAuthentication = async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const token = req.header('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+        return next();
+    }
+
+    try {
+        const decoded = verifyToken(token);
+        const user = await User.findById(decoded.id);
+        if (user && !(await isAccessTokenRevoked(decoded, user.tokensValidAfter)) && !getAccountRestriction(user)) {
+            req.userId = user._id.toString();
+            req.user = user;
+        }
+    } catch (err) {
+        // Token inválido ou expirado: segue como visitante
+    }
+    next();
+};
+
+// Bloqueia ações de publicação (anúncios, imagens) até que o e-mail do usuário seja verificado.
+// Deve ser usado depois de authenticateUser.
+export const requireVerifiedEmail = (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+        return res.status(401).json({ message: 'No token, authorization denied' });
+    }
+    if (!req.user.emailVerified) {
+        return res.status(403).json({ message: 'Verifique seu e-mail antes de publicar anúncios', code: 'EMAIL_NOT_VERIFIED' });
+    }
+    next();
+};
+
+// Restringe a rota aos usuários que tenham ao menos um dos papéis informados.
+// Deve ser usado depois de authenticateUser, que carrega o usuário em req.user.
+export const authorize = (...roles: UserRole[]) => {
+    return (req: AuthRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.status(401).json({ message: 'No token, authorization denied' });
+        }
+        const userRoles: UserRole[] = req.user.roles || [];
+        if (!roles.some(role => userRoles.includes(role))) {
+            return res.status(403).json({ message: 'Acesso negado: permissão insuficiente' });
+        }
+        next();
+    };
+};
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { BruteForceScope, getScopeRetryAfterMs } from '../services/bruteForceService';
+
+export const getClientIp = (req: Request) => req.ip || req.socket.remoteAddress || 'unknown';
+
+// Responde 429 com Retry-After quando o IP ou a conta estiverem temporariamente bloqueados
+export const sendTooManyAttempts = (res: Response, retryAfterMs: number) => {
+    res.set('Retry-After', Math.ceil(retryAfterMs / 1000).toString());
+    return res.status(429).json({ message: 'Muitas tentativas. Tente novamente mais tarde.', retryAfterSeconds: Math.ceil(retryAfterMs / 1000) });
+};
+
+/**
+ * Rejeita a requisição enquanto o IP (ou a conta identificada por getAccount) estiver bloqueado no escopo informado.
+ * O registro das falhas fica a cargo do controller, que é quem sabe se a tentativa falhou.
+ */
+export const bruteForceProtection = (scope: BruteForceScope, getAccount?: (req: Request) => string | undefined) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        try {
+            const account = getAccount?.(req);
+            const retryAfterMs = await getScopeRetryAfterMs(scope, getClientIp(req), typeof account === 'string' ? account : undefined);
+            if (retryAfterMs > 0) {
+                return sendTooManyAttempts(res, retryAfterMs);
+            }
+            next();
+        } catch (err) {
+            console.error(err);
+            res.status(500).json({ message: 'Erro do servidor' });
+        }
+    };
+};
+
+// A conta é identificada pelo e-mail informado no corpo da requisição (normalizado pelo bruteForceService)
+export const accountFromEmail = (req: Request) => typeof req.body?.email === 'string' ? req.body.email : undefined;
@@ -15,3 +15,6 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
 
 // Inicializa o upload do Multer
 export const uploadVehicleImages = multer({ storage, fileFilter, limits: { fileSize: 10 * 1024 * 1024 } }).array('images', 10); // Máximo de 10 imagens, 10MB cada
+
+// Foto de perfil: um único arquivo no campo 'avatar', até 5MB
+export const uploadAvatar = multer({ storage, fileFilter, limits: { fileSize: 5 * 1024 * 1024 } }).single('avatar');
@@ -0,0 +1,28 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const API_KEY_SCOPES = ['vehicles:read', 'vehicles:write', 'images:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    name: string; // Nome dado pelo usuário para identificar a integração
+    prefix: string; // Início da chave, exibido na listagem para o usuário reconhecê-la
+    keyHash: string; // Hash SHA-256 da chave; a chave em si é exibida apenas na criação
+    scopes: ApiKeyScope[];
+    created_at?: Date;
+    last_used_at?: Date;
+    revokedAt?: Date;
+}
+
+const apiKeySchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    name: { type: String, required: true, trim: true },
+    prefix: { type: String, required: true },
+    keyHash: { type: String, required: true, unique: true, select: false },
+    scopes: { type: [{ type: String, enum: API_KEY_SCOPES }], required: true },
+    created_at: { type: Date, default: Date.now },
+    last_used_at: { type: Date },
+    revokedAt: { type: Date },
+});
+
+export default model<ApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,18 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Usuário bloqueado: nenhum dos dois pode enviar mensagens ao outro enquanto o bloqueio existir
+export interface Block extends Document {
+    blocker_id: Schema.Types.ObjectId; // Quem bloqueou
+    blocked_id: Schema.Types.ObjectId; // Quem foi bloqueado
+    created_at?: Date;
+}
+
+const blockSchema = new Schema({
+    blocker_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    blocked_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    created_at: { type: Date, default: Date.now },
+});
+
+blockSchema.index({ blocker_id: 1, blocked_id: 1 }, { unique: true });
+
+export default model<Block>('Block', blockSchema);
@@ -0,0 +1,23 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Contato de um comprador com o vendedor sobre um anúncio; habilita o comprador a avaliar o vendedor
+export interface Contact extends Document {
+    buyer_id: Schema.Types.ObjectId; // Referência ao modelo User (quem entrou em contato)
+    seller_id: Schema.Types.ObjectId; // Dono do anúncio no momento do contato
+    vehicle_id: string; // Referência ao modelo Vehicle (UUID)
+    created_at?: Date;
+    last_contacted_at?: Date;
+}
+
+const contactSchema = new Schema({
+    buyer_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    seller_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    vehicle_id: { type: String, required: true, ref: 'Vehicle' },
+    created_at: { type: Date, default: Date.now },
+    last_contacted_at: { type: Date, default: Date.now },
+});
+
+// Um registro por comprador e anúncio
+contactSchema.index({ buyer_id: 1, vehicle_id: 1 }, { unique: true });
+
+export default model<Contact>('Contact', contactSchema);
@@ -0,0 +1,40 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const CONVERSATION_ROLES = ['buyer', 'seller'] as const;
+export type ConversationRole = typeof CONVERSATION_ROLES[number];
+
+// Conversa entre um comprador e o dono do anúncio, sempre ligada a um veículo
+export interface Conversation extends Document {
+    vehicle_id: string; // Referência ao modelo Vehicle (UUID)
+    buyer_id: Schema.Types.ObjectId; // Quem iniciou a conversa
+    seller_id: Schema.Types.ObjectId; // Dono do anúncio no início da conversa
+    buyerUnread: number; // Mensagens do vendedor ainda não lidas pelo comprador
+    sellerUnread: number; // Mensagens do comprador ainda não lidas pelo vendedor
+    buyerLastReadAt?: Date;
+    sellerLastReadAt?: Date;
+    lastMessageAt: Date;
+    lastMessagePreview?: string;
+    sellerResponseMs?: number; // Tempo até a primeira resposta do vendedor (tempo médio de resposta do perfil)
+    created_at?: Date;
+}
+
+const conversationSchema = new Schema({
+    vehicle_id: { type: String, required: true, ref: 'Vehicle' },
+    buyer_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    seller_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    buyerUnread: { type: Number, default: 0 },
+    sellerUnread: { type: Number, default: 0 },
+    buyerLastReadAt: { type: Date },
+    sellerLastReadAt: { type: Date },
+    lastMessageAt: { type: Date, default: Date.now },
+    lastMessagePreview: { type: String },
+    sellerResponseMs: { type: Number },
+    created_at: { type: Date, default: Date.now },
+});
+
+// Uma conversa por comprador e anúncio
+conversationSchema.index({ vehicle_id: 1, buyer_id: 1 }, { unique: true });
+conversationSchema.index({ buyer_id: 1, lastMessageAt: -1 });
+conversationSchema.index({ seller_id: 1, lastMessageAt: -1 });
+
+export default model<Conversation>('Conversation', conversationSchema);
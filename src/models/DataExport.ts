@@ -0,0 +1,32 @@
+import { Schema, model, Document, Types } from 'mongoose';
+
+export const DATA_EXPORT_STATUSES = ['pending', 'ready', 'failed'] as const;
+export type DataExportStatus = typeof DATA_EXPORT_STATUSES[number];
+
+// Exportação de dados pessoais (LGPD) gerada em segundo plano
+export interface DataExport extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    status: DataExportStatus;
+    downloadTokenHash?: string; // Hash SHA-256 do token do link de download enviado por e-mail
+    file_id?: Types.ObjectId; // Arquivo JSON compactado com gzip, guardado no GridFS (bucket dataExports)
+    size?: number; // Tamanho do arquivo compactado, em bytes
+    created_at?: Date;
+    completed_at?: Date;
+    expiresAt: Date;
+}
+
+const dataExportSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    status: { type: String, enum: DATA_EXPORT_STATUSES, default: 'pending' },
+    downloadTokenHash: { type: String, select: false },
+    file_id: { type: Schema.Types.ObjectId },
+    size: { type: Number },
+    created_at: { type: Date, default: Date.now },
+    completed_at: { type: Date },
+    expiresAt: { type: Date, required: true, index: true }, // Removida com o arquivo pela tarefa de limpeza ao expirar
+});
+
+// Busca das exportações pendentes há tempo demais (tarefa de limpeza)
+dataExportSchema.index({ status: 1, created_at: 1 });
+
+export default model<DataExport>('DataExport', dataExportSchema);
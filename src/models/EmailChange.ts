@@ -0,0 +1,34 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const EMAIL_CHANGE_STATUSES = ['pending', 'confirmed', 'cancelled', 'reverted'] as const;
+export type EmailChangeStatus = typeof EMAIL_CHANGE_STATUSES[number];
+
+// Solicitação de troca de e-mail: só é aplicada após a confirmação no novo endereço
+// e pode ser desfeita pelo endereço antigo até undoExpiresAt
+export interface EmailChange extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    oldEmail: string;
+    newEmail: string;
+    confirmTokenHash: string; // Hash SHA-256 do link enviado ao novo endereço
+    undoTokenHash: string; // Hash SHA-256 do link enviado ao endereço antigo
+    status: EmailChangeStatus;
+    confirmExpiresAt: Date;
+    undoExpiresAt: Date;
+    created_at?: Date;
+    confirmed_at?: Date;
+}
+
+const emailChangeSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    oldEmail: { type: String, required: true },
+    newEmail: { type: String, required: true },
+    confirmTokenHash: { type: String, required: true, unique: true, select: false },
+    undoTokenHash: { type: String, required: true, unique: true, select: false },
+    status: { type: String, enum: EMAIL_CHANGE_STATUSES, default: 'pending' },
+    confirmExpiresAt: { type: Date, required: true },
+    undoExpiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removida automaticamente pelo MongoDB ao expirar
+    created_at: { type: Date, default: Date.now },
+    confirmed_at: { type: Date },
+});
+
+export default model<EmailChange>('EmailChange', emailChangeSchema);
@@ -0,0 +1,19 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Anúncio salvo por um comprador; quem favoritou é avisado de redução de preço e venda
+export interface Favorite extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    vehicle_id: string; // Referência ao modelo Vehicle (UUID)
+    created_at?: Date;
+}
+
+const favoriteSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    vehicle_id: { type: String, required: true, ref: 'Vehicle', index: true },
+    created_at: { type: Date, default: Date.now },
+});
+
+// Um favorito por usuário e anúncio
+favoriteSchema.index({ user_id: 1, vehicle_id: 1 }, { unique: true });
+
+export default model<Favorite>('Favorite', favoriteSchema);
@@ -0,0 +1,19 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface Message extends Document {
+    conversation_id: Schema.Types.ObjectId; // Referência ao modelo Conversation
+    sender_id: Schema.Types.ObjectId; // Comprador ou vendedor da conversa
+    text: string;
+    created_at?: Date;
+}
+
+const messageSchema = new Schema({
+    conversation_id: { type: Schema.Types.ObjectId, required: true, ref: 'Conversation' },
+    sender_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    text: { type: String, required: true },
+    created_at: { type: Date, default: Date.now },
+});
+
+messageSchema.index({ conversation_id: 1, created_at: -1 });
+
+export default model<Message>('Message', messageSchema);
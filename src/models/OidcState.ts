@@ -0,0 +1,24 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Estado de um login OIDC em andamento, guardado entre o redirecionamento ao provedor e o retorno do código
+export interface OidcState extends Document {
+    state: string;
+    provider: string;
+    nonce: string;
+    codeVerifier: string; // Verificador PKCE, enviado apenas na troca do código
+    redirectUri: string;
+    created_at?: Date;
+    expiresAt: Date;
+}
+
+const oidcStateSchema = new Schema({
+    state: { type: String, required: true, unique: true },
+    provider: { type: String, required: true },
+    nonce: { type: String, required: true },
+    codeVerifier: { type: String, required: true },
+    redirectUri: { type: String, required: true },
+    created_at: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removido automaticamente pelo MongoDB ao expirar
+});
+
+export default model<OidcState>('OidcState', oidcStateSchema);
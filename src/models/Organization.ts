@@ -0,0 +1,38 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const ORGANIZATION_ROLES = ['owner', 'manager', 'salesperson'] as const;
+export type OrganizationRole = typeof ORGANIZATION_ROLES[number];
+
+export interface OrganizationMember {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    role: OrganizationRole;
+    joined_at?: Date;
+}
+
+// Loja (revenda) com várias contas de vendedores; os anúncios da loja podem ser editados pelos membros
+export interface Organization extends Document {
+    name: string;
+    announcerName?: string; // Padrão usado em addVehicle quando o anúncio não informa o anunciante
+    announcerPhone?: string;
+    members: OrganizationMember[];
+    created_by: Schema.Types.ObjectId;
+    created_at?: Date;
+}
+
+const organizationSchema = new Schema({
+    name: { type: String, required: true },
+    announcerName: { type: String },
+    announcerPhone: { type: String },
+    members: [{
+        _id: false,
+        user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+        role: { type: String, enum: ORGANIZATION_ROLES, required: true },
+        joined_at: { type: Date, default: Date.now },
+    }],
+    created_by: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    created_at: { type: Date, default: Date.now },
+});
+
+organizationSchema.index({ 'members.user_id': 1 });
+
+export default model<Organization>('Organization', organizationSchema);
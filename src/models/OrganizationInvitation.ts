@@ -0,0 +1,32 @@
+import { Schema, model, Document } from 'mongoose';
+import { ORGANIZATION_ROLES, OrganizationRole } from './Organization';
+
+export const INVITATION_STATUSES = ['pending', 'accepted', 'revoked'] as const;
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+// Convite enviado por e-mail para entrar em uma organização
+export interface OrganizationInvitation extends Document {
+    organization_id: Schema.Types.ObjectId; // Referência ao modelo Organization
+    email: string;
+    role: OrganizationRole;
+    tokenHash: string; // Hash SHA-256 do token do link enviado por e-mail
+    status: InvitationStatus;
+    invited_by: Schema.Types.ObjectId;
+    created_at?: Date;
+    accepted_at?: Date;
+    expiresAt: Date;
+}
+
+const organizationInvitationSchema = new Schema({
+    organization_id: { type: Schema.Types.ObjectId, required: true, ref: 'Organization', index: true },
+    email: { type: String, required: true },
+    role: { type: String, enum: ORGANIZATION_ROLES, required: true },
+    tokenHash: { type: String, required: true, unique: true, select: false },
+    status: { type: String, enum: INVITATION_STATUSES, default: 'pending' },
+    invited_by: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    created_at: { type: Date, default: Date.now },
+    accepted_at: { type: Date },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removido automaticamente pelo MongoDB ao expirar
+});
+
+export default model<OrganizationInvitation>('OrganizationInvitation', organizationInvitationSchema);
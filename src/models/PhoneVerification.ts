@@ -0,0 +1,22 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Código de verificação de telefone pendente (um por usuário)
+export interface PhoneVerification extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    phone: string; // Telefone para o qual o código foi enviado
+    codeHash: string; // Hash SHA-256 do código de 6 dígitos
+    attempts: number; // Tentativas de confirmação já feitas com este código
+    created_at?: Date;
+    expiresAt: Date;
+}
+
+const phoneVerificationSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', unique: true },
+    phone: { type: String, required: true },
+    codeHash: { type: String, required: true },
+    attempts: { type: Number, default: 0 },
+    created_at: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removido automaticamente pelo MongoDB ao expirar
+});
+
+export default model<PhoneVerification>('PhoneVerification', phoneVerificationSchema);
@@ -0,0 +1,22 @@
+import { Schema, model, Document } from 'mongoose';
+
+// Cada alteração de preço de um anúncio (inclusive o preço inicial na publicação)
+export interface PriceHistory extends Document {
+    vehicle_id: string; // Referência ao modelo Vehicle (UUID)
+    price: number;
+    previousPrice?: number; // Ausente no registro do preço inicial
+    changed_by?: Schema.Types.ObjectId; // Usuário que alterou o preço (dono ou membro da loja)
+    created_at?: Date;
+}
+
+const priceHistorySchema = new Schema({
+    vehicle_id: { type: String, required: true, ref: 'Vehicle' },
+    price: { type: Number, required: true },
+    previousPrice: { type: Number },
+    changed_by: { type: Schema.Types.ObjectId, ref: 'User' },
+    created_at: { type: Date, default: Date.now },
+});
+
+priceHistorySchema.index({ vehicle_id: 1, created_at: 1 });
+
+export default model<PriceHistory>('PriceHistory', priceHistorySchema);
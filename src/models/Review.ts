@@ -0,0 +1,46 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const REVIEW_STATUSES = ['published', 'hidden'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+// Resposta pública do vendedor à avaliação (apenas uma)
+export interface ReviewReply {
+    text: string;
+    created_at?: Date;
+}
+
+// Avaliação de um vendedor por um comprador que entrou em contato com ele
+export interface Review extends Document {
+    reviewer_id: Schema.Types.ObjectId; // Referência ao modelo User (comprador)
+    seller_id: Schema.Types.ObjectId; // Referência ao modelo User (vendedor avaliado)
+    vehicle_id?: string; // Anúncio sobre o qual houve o contato (opcional)
+    rating: number; // 1 a 5
+    text: string;
+    reply?: ReviewReply;
+    status: ReviewStatus; // Avaliações ocultadas pela moderação não aparecem nem entram nas médias
+    moderationReason?: string;
+    created_at?: Date;
+}
+
+const reviewSchema = new Schema({
+    reviewer_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    seller_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    vehicle_id: { type: String, ref: 'Vehicle' },
+    rating: { type: Number, required: true, min: 1, max: 5 },
+    text: { type: String, required: true },
+    reply: {
+        type: new Schema({
+            text: { type: String, required: true },
+            created_at: { type: Date, default: Date.now },
+        }, { _id: false }),
+    },
+    status: { type: String, enum: REVIEW_STATUSES, default: 'published' },
+    moderationReason: { type: String },
+    created_at: { type: Date, default: Date.now },
+});
+
+// Cada comprador avalia um vendedor uma única vez
+reviewSchema.index({ reviewer_id: 1, seller_id: 1 }, { unique: true });
+reviewSchema.index({ seller_id: 1, status: 1, created_at: -1 });
+
+export default model<Review>('Review', reviewSchema);
@@ -0,0 +1,30 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const REVIEW_REPORT_STATUSES = ['open', 'dismissed', 'actioned'] as const;
+export type ReviewReportStatus = typeof REVIEW_REPORT_STATUSES[number];
+
+// Denúncia de uma avaliação abusiva, analisada pela moderação
+export interface ReviewReport extends Document {
+    review_id: Schema.Types.ObjectId; // Referência ao modelo Review
+    reporter_id: Schema.Types.ObjectId; // Referência ao modelo User
+    reason: string;
+    status: ReviewReportStatus;
+    resolved_by?: Schema.Types.ObjectId;
+    resolved_at?: Date;
+    created_at?: Date;
+}
+
+const reviewReportSchema = new Schema({
+    review_id: { type: Schema.Types.ObjectId, required: true, ref: 'Review' },
+    reporter_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    reason: { type: String, required: true },
+    status: { type: String, enum: REVIEW_REPORT_STATUSES, default: 'open', index: true },
+    resolved_by: { type: Schema.Types.ObjectId, ref: 'User' },
+    resolved_at: { type: Date },
+    created_at: { type: Date, default: Date.now },
+});
+
+// Cada usuário denuncia uma avaliação uma única vez
+reviewReportSchema.index({ review_id: 1, reporter_id: 1 }, { unique: true });
+
+export default model<ReviewReport>('ReviewReport', reviewReportSchema);
@@ -0,0 +1,17 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface RevokedToken extends Document {
+    jti: string; // Identificador único do token revogado (claim jti)
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    expiresAt: Date; // Mesmo vencimento do token: depois disso a entrada não é mais necessária
+    created_at?: Date;
+}
+
+const revokedTokenSchema = new Schema({
+    jti: { type: String, required: true, unique: true },
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removida automaticamente pelo MongoDB ao expirar
+    created_at: { type: Date, default: Date.now },
+});
+
+export default model<RevokedToken>('RevokedToken', revokedTokenSchema);
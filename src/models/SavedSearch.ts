@@ -0,0 +1,29 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const ALERT_FREQUENCIES = ['instant', 'daily', 'weekly'] as const;
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number];
+
+// Parâmetros de /vehicles/search salvos pelo comprador, com alerta por e-mail de novos anúncios
+export interface SavedSearch extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    name: string;
+    query: Record<string, string>; // Mesmos parâmetros aceitos pela busca (brand, maxPrice, city...)
+    frequency: AlertFrequency;
+    last_run_at: Date; // Anúncios criados depois desta data entram no próximo alerta
+    last_sent_at?: Date; // Último e-mail de alerta enviado
+    created_at?: Date;
+}
+
+const savedSearchSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    name: { type: String, required: true },
+    query: { type: Schema.Types.Mixed, required: true },
+    frequency: { type: String, enum: ALERT_FREQUENCIES, default: 'daily' },
+    last_run_at: { type: Date, default: Date.now },
+    last_sent_at: { type: Date },
+    created_at: { type: Date, default: Date.now },
+});
+
+savedSearchSchema.index({ frequency: 1, last_run_at: 1 });
+
+export default model<SavedSearch>('SavedSearch', savedSearchSchema);
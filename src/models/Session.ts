@@ -0,0 +1,29 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface Session extends Document {
+    user_id: Schema.Types.ObjectId; // Referência ao modelo User
+    deviceLabel: string;
+    ip?: string;
+    userAgent?: string;
+    refreshTokenHash: string; // Hash do refresh token atual da sessão (cada sessão é uma família de tokens)
+    created_at?: Date;
+    last_used_at?: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    revokedReason?: string;
+}
+
+const sessionSchema = new Schema({
+    user_id: { type: Schema.Types.ObjectId, required: true, ref: 'User', index: true },
+    deviceLabel: { type: String, required: true },
+    ip: { type: String },
+    userAgent: { type: String },
+    refreshTokenHash: { type: String, required: true },
+    created_at: { type: Date, default: Date.now },
+    last_used_at: { type: Date, default: Date.now },
+    expiresAt: { type: Date, required: true, index: { expires: 0 } }, // Removida automaticamente pelo MongoDB ao expirar
+    revokedAt: { type: Date },
+    revokedReason: { type: String },
+});
+
+export default model<Session>('Session', sessionSchema);
@@ -1,29 +1,99 @@
 import { Schema, model, Document } from 'mongoose';
 
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const ACCOUNT_STATUSES = ['active', 'suspended', 'banned'] as const;
+export type AccountStatus = typeof ACCOUNT_STATUSES[number];
+
+// Perfil do anunciante, que define a validade dos anúncios (ex.: lojistas têm anúncios mais longos)
+export const LISTING_TIERS = ['individual', 'dealer'] as const;
+export type ListingTier = typeof LISTING_TIERS[number];
+
+// Conta externa (OpenID Connect) vinculada ao usuário
+export interface UserIdentity {
+    provider: string;
+    subject: string; // Claim "sub" do provedor
+    email?: string;
+    linked_at?: Date;
+}
+
 export interface User extends Document {
     username: string;
     email: string;
-    password?: string;
+    password?: string; // Ausente em contas criadas apenas com login externo
+    passwordHistory?: string[]; // Hashes das senhas anteriores mais recentes
     phone?: string;
+    phoneVerified?: boolean; // Telefone confirmado por código enviado via SMS
     city?: string;
     state?: string;
-    refreshToken?: string; // Adiciona refreshToken à interface User
-    resetPasswordToken?: string; // Adiciona resetPasswordToken
+    avatarUrl?: string; // Foto de perfil (Cloudinary, pasta avatars/<userId>)
+    avatarPublicId?: string; // public_id no Cloudinary, usado para remover a foto anterior
+    emailVerified?: boolean;
+    emailVerificationSentAt?: Date; // Último envio do link de verificação (controle de reenvio)
+    twoFactorEnabled?: boolean;
+    twoFactorSecret?: string; // Segredo TOTP ativo (base32)
+    twoFactorPendingSecret?: string; // Segredo gerado na inscrição, aguardando confirmação
+    twoFactorRecoveryCodes?: string[]; // Hashes SHA-256 dos códigos de recuperação ainda não usados
+    twoFactorLastUsedStep?: number; // Último passo TOTP aceito (evita replay do mesmo código)
+    resetPasswordToken?: string; // Hash SHA-256 do token de redefinição enviado por e-mail
     resetPasswordExpires?: Date; // Adiciona resetPasswordExpires
+    magicLinkTokenHash?: string; // Hash SHA-256 do link de login sem senha pendente
+    magicLinkExpires?: Date;
+    tokensValidAfter?: Date; // Tokens emitidos antes desta data são rejeitados (logout geral, troca de senha)
+    roles: UserRole[];
+    accountStatus: AccountStatus;
+    suspendedUntil?: Date; // Fim da suspensão (sem data, a suspensão vale até ser revertida)
+    statusReason?: string; // Motivo informado pela moderação
+    listingTier: ListingTier;
+    identities?: UserIdentity[];
+    deletionRequestedAt?: Date; // Pedido de exclusão da conta (período de carência em andamento)
+    deletionScheduledFor?: Date; // Data em que a conta será excluída definitivamente
     created_at?: Date;
 }
 
 const userSchema = new Schema({
     username: { type: String, required: true },
     email: { type: String, required: true, unique: true },
-    password: { type: String, required: true },
-    phone: { type: String, unique: true }, // Adiciona o campo phone ao esquema
+    password: { type: String },
+    passwordHistory: { type: [String], select: false },
+    phone: { type: String, unique: true, sparse: true }, // Opcional: contas criadas por login externo não têm telefone
+    phoneVerified: { type: Boolean, default: false },
     city: { type: String },
     state: { type: String },
-    refreshToken: { type: String }, // Adiciona refreshToken ao esquema
+    avatarUrl: { type: String },
+    avatarPublicId: { type: String, select: false },
+    emailVerified: { type: Boolean, default: false },
+    emailVerificationSentAt: { type: Date },
+    twoFactorEnabled: { type: Boolean, default: false },
+    // Campos sensíveis do 2FA não são retornados por padrão nas consultas
+    twoFactorSecret: { type: String, select: false },
+    twoFactorPendingSecret: { type: String, select: false },
+    twoFactorRecoveryCodes: { type: [String], select: false },
+    twoFactorLastUsedStep: { type: Number, select: false },
     resetPasswordToken: { type: String }, // Adiciona resetPasswordToken ao esquema
     resetPasswordExpires: { type: Date }, // Adiciona resetPasswordExpires ao esquema
+    magicLinkTokenHash: { type: String, select: false },
+    magicLinkExpires: { type: Date },
+    tokensValidAfter: { type: Date },
+    roles: { type: [String], enum: USER_ROLES, default: ['user'] },
+    accountStatus: { type: String, enum: ACCOUNT_STATUSES, default: 'active' },
+    suspendedUntil: { type: Date },
+    statusReason: { type: String },
+    listingTier: { type: String, enum: LISTING_TIERS, default: 'individual' },
+    identities: [{
+        _id: false,
+        provider: { type: String, required: true },
+        subject: { type: String, required: true },
+        email: { type: String },
+        linked_at: { type: Date, default: Date.now },
+    }],
+    deletionRequestedAt: { type: Date },
+    deletionScheduledFor: { type: Date, index: true },
     created_at: { type: Date, default: Date.now }
 });
 
+// Cada conta externa só pode estar vinculada a um usuário
+userSchema.index({ 'identities.provider': 1, 'identities.subject': 1 }, { unique: true, sparse: true });
+
 export default model<User>('User', userSchema);
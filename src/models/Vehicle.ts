@@ -1,14 +1,21 @@
 import { Document, Schema, model } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid'; // Import uuid
 
+// Ciclo de vida do anúncio: apenas anúncios ativos aparecem nas listagens públicas
+export const VEHICLE_STATUSES = ['draft', 'active', 'paused', 'sold', 'expired'] as const;
+export type VehicleStatus = typeof VEHICLE_STATUSES[number];
+
 export interface Vehicle extends Document {
     owner_id: Schema.Types.ObjectId;
+    organization_id?: Schema.Types.ObjectId; // Anúncio da loja: pode ser editado pelos membros da organização
     title: string;
     brand: string;
     vehicleModel: string;
     engine: string;
     year: number;
     price: number;
+    previousPrice?: number; // Preço anterior à última alteração
+    priceDroppedAt?: Date; // Data da última redução de preço (removida se o preço voltar a subir)
     mileage: number;
     state: string;
     city: string;
@@ -21,18 +28,30 @@ export interface Vehicle extends Document {
     announcerName: string;
     announcerEmail: string;
     announcerPhone: string;
+    ownerPendingDeletion?: boolean; // Oculto das listagens enquanto a conta do dono aguarda exclusão
+    status: VehicleStatus;
+    statusChangedAt?: Date;
+    publishedAt?: Date; // Primeira publicação (saída do rascunho)
+    soldAt?: Date; // Data da venda informada pelo vendedor
+    soldPrice?: number; // Preço final da venda
+    expiresAt?: Date; // Fim da validade do anúncio ativo (definida ao publicar ou renovar)
+    expiryRemindersSent?: number[]; // Lembretes de vencimento já enviados (dias antes do vencimento)
+    renewalTokenHash?: string; // Hash SHA-256 do link de renovação enviado no lembrete
     created_at?: Date;
 }
 
 const vehicleSchema = new Schema({
     _id: { type: String, default: uuidv4 }, // Set _id to be generated as UUID
     owner_id: { type: Schema.Types.ObjectId, required: true, ref: 'User' },
+    organization_id: { type: Schema.Types.ObjectId, ref: 'Organization', index: true },
     title: { type: String, required: true },
     brand: { type: String, required: true },
     vehicleModel: { type: String, required: true },
     engine: { type: String, required: true },
     year: { type: Number, required: true },
     price: { type: Number, required: true },
+    previousPrice: { type: Number },
+    priceDroppedAt: { type: Date, index: true },
     mileage: { type: Number, required: true },
     state: { type: String, required: true },
     city: { type: String, required: true },
@@ -45,7 +64,19 @@ const vehicleSchema = new Schema({
     announcerName: { type: String, required: true },
     announcerEmail: { type: String, required: true },
     announcerPhone: { type: String, required: true },
+    ownerPendingDeletion: { type: Boolean, default: false },
+    status: { type: String, enum: VEHICLE_STATUSES, default: 'active', index: true },
+    statusChangedAt: { type: Date },
+    publishedAt: { type: Date },
+    soldAt: { type: Date },
+    soldPrice: { type: Number },
+    expiresAt: { type: Date, index: true },
+    expiryRemindersSent: { type: [Number], default: [] },
+    renewalTokenHash: { type: String, select: false },
     created_at: { type: Date, default: Date.now }
 }, { _id: false }); // Disable Mongoose's default _id generation
 
+// Busca pelo link de renovação (rota pública, sem login); só os anúncios com lembrete enviado têm o campo
+vehicleSchema.index({ renewalTokenHash: 1 }, { sparse: true });
+
 export default model<Vehicle>('Vehicle', vehicleSchema);
@@ -0,0 +1,21 @@
+import express, { Router } from 'express';
+import { listUsers, getUserById, updateUserStatus, updateUserRoles, updateUserListingTier, forceDeleteVehicle, listReviewReports, resolveReviewReport } from '../controllers/adminController';
+import { authenticateUser, authorize } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas administrativas
+router.use(authenticateUser, authorize('admin', 'moderator')); // Todas as rotas exigem um papel de moderação
+
+router.get('/users', listUsers);
+router.get('/users/:id', getUserById);
+router.put('/users/:id/status', updateUserStatus);
+router.put('/users/:id/roles', authorize('admin'), updateUserRoles);
+router.put('/users/:id/listing-tier', authorize('admin'), updateUserListingTier);
+router.delete('/vehicles/:id', forceDeleteVehicle);
+
+// Denúncias de avaliações
+router.get('/review-reports', listReviewReports);
+router.put('/review-reports/:id', resolveReviewReport);
+
+export default router;
@@ -1,14 +1,41 @@
 import express, { Router } from 'express';
-import { registerUser, loginUser, forgotPassword, refreshAccessToken, resetPassword } from '../controllers/authController';
+import { registerUser, loginUser, forgotPassword, refreshAccessToken, resetPassword, verifyEmail, resendVerificationEmail, logout, logoutAll, requestMagicLink, verifyMagicLink } from '../controllers/authController';
+import { listSessions, revokeUserSession, revokeOtherSessions } from '../controllers/sessionController';
+import { setupTwoFactor, confirmTwoFactor, disableTwoFactor, verifyTwoFactorLogin } from '../controllers/twoFactorController';
+import { listOidcProviders, startOidcLogin, completeOidcLogin } from '../controllers/oidcController';
+import { authenticateUser } from '../middleware/authMiddleware';
+import { bruteForceProtection, accountFromEmail } from '../middleware/bruteForceMiddleware';
 
 const router = Router();
 
 router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de autenticação
 
 router.post('/register', registerUser);
-router.post('/login', loginUser);
-router.post('/forgot-password', forgotPassword);
-router.post('/reset-password/:resetToken', resetPassword);
+router.post('/login', bruteForceProtection('login', accountFromEmail), loginUser);
+router.post('/login/2fa', bruteForceProtection('two-factor'), verifyTwoFactorLogin);
+router.post('/forgot-password', bruteForceProtection('forgot-password', accountFromEmail), forgotPassword);
+router.post('/reset-password/:resetToken', bruteForceProtection('reset-password'), resetPassword);
+router.post('/magic-link', bruteForceProtection('magic-link', accountFromEmail), requestMagicLink);
+router.post('/magic-link/:token', bruteForceProtection('magic-link-verify'), verifyMagicLink);
 router.post('/refresh-token', refreshAccessToken);
+router.post('/logout', authenticateUser, logout);
+router.post('/logout-all', authenticateUser, logoutAll);
+router.post('/verify-email/:token', verifyEmail);
+router.post('/resend-verification', authenticateUser, resendVerificationEmail);
+
+// Login com provedores externos (OpenID Connect)
+router.get('/oidc/providers', listOidcProviders);
+router.get('/oidc/:provider/authorize', startOidcLogin);
+router.post('/oidc/:provider/callback', completeOidcLogin);
+
+// Verificação em duas etapas (TOTP)
+router.post('/2fa/setup', authenticateUser, setupTwoFactor);
+router.post('/2fa/confirm', authenticateUser, confirmTwoFactor);
+router.post('/2fa/disable', authenticateUser, disableTwoFactor);
+
+// Sessões (dispositivos conectados)
+router.get('/sessions', authenticateUser, listSessions);
+router.delete('/sessions', authenticateUser, revokeOtherSessions);
+router.delete('/sessions/:sessionId', authenticateUser, revokeUserSession);
 
 export default router;
@@ -0,0 +1,33 @@
+import express, { Router } from 'express';
+import {
+    listConversations,
+    getUnreadMessageCount,
+    startConversation,
+    listMessages,
+    sendMessage,
+    markAsRead,
+    listBlockedUsers,
+    blockUser,
+    unblockUser,
+} from '../controllers/conversationController';
+import { authenticateUser, requireVerifiedEmail } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de mensagens
+router.use(authenticateUser); // Conversas são visíveis apenas para os dois participantes
+
+router.get('/', listConversations);
+router.get('/unread-count', getUnreadMessageCount);
+router.post('/', requireVerifiedEmail, startConversation);
+
+// Usuários bloqueados (antes das rotas com :id)
+router.get('/blocks', listBlockedUsers);
+router.post('/blocks/:userId', blockUser);
+router.delete('/blocks/:userId', unblockUser);
+
+router.get('/:id/messages', listMessages);
+router.post('/:id/messages', sendMessage);
+router.post('/:id/read', markAsRead);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { listFavorites, addFavorite, removeFavorite } from '../controllers/favoriteController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(authenticateUser); // Favoritos pertencem ao usuário logado
+
+router.get('/', listFavorites);
+router.post('/:vehicleId', addFavorite);
+router.delete('/:vehicleId', removeFavorite);
+
+export default router;
@@ -0,0 +1,39 @@
+import express, { Router } from 'express';
+import {
+    createOrganization,
+    listMyOrganizations,
+    getOrganization,
+    updateOrganization,
+    listOrganizationVehicles,
+    inviteMember,
+    listInvitations,
+    revokeInvitation,
+    acceptOrganizationInvitation,
+    updateMemberRole,
+    removeMember,
+} from '../controllers/organizationController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de organizações
+router.use(authenticateUser); // Todas as rotas de lojas exigem a sessão do usuário
+
+router.post('/', createOrganization);
+router.get('/', listMyOrganizations);
+
+// Aceite do convite recebido por e-mail (a conta precisa ter o e-mail convidado)
+router.post('/invitations/:token/accept', acceptOrganizationInvitation);
+
+router.get('/:id', getOrganization);
+router.put('/:id', updateOrganization);
+router.get('/:id/vehicles', listOrganizationVehicles);
+
+// Membros e convites
+router.post('/:id/invitations', inviteMember);
+router.get('/:id/invitations', listInvitations);
+router.delete('/:id/invitations/:invitationId', revokeInvitation);
+router.put('/:id/members/:userId', updateMemberRole);
+router.delete('/:id/members/:userId', removeMember);
+
+export default router;
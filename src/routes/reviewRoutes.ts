@@ -0,0 +1,14 @@
+import express, { Router } from 'express';
+import { createReview, listSellerReviews, replyToReview, reportReview } from '../controllers/reviewController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de avaliações
+
+router.get('/seller/:sellerId', listSellerReviews); // Avaliações públicas do vendedor
+router.post('/', authenticateUser, createReview);
+router.post('/:id/reply', authenticateUser, replyToReview);
+router.post('/:id/report', authenticateUser, reportReview);
+
+export default router;
@@ -0,0 +1,15 @@
+import express, { Router } from 'express';
+import { listSavedSearches, createSavedSearch, updateSavedSearch, deleteSavedSearch } from '../controllers/savedSearchController';
+import { authenticateUser } from '../middleware/authMiddleware';
+
+const router = Router();
+
+router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de buscas salvas
+router.use(authenticateUser); // Buscas salvas pertencem ao usuário logado
+
+router.get('/', listSavedSearches);
+router.post('/', createSavedSearch);
+router.put('/:id', updateSavedSearch);
+router.delete('/:id', deleteSavedSearch);
+
+export default router;
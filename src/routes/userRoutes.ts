@@ -1,12 +1,42 @@
 import express, { Router } from 'express';
-import { deleteUserAccount, updateUserProfile } from '../controllers/userController';
-import { authenticateUser } from '../middleware/authMiddleware';
+import { deleteUserAccount, updateUserProfile, changePassword, getPublicProfile } from '../controllers/userController';
+import { listApiKeys, createUserApiKey, revokeUserApiKey } from '../controllers/apiKeyController';
+import { requestPhoneVerification, confirmPhoneVerification } from '../controllers/phoneVerificationController';
+import { changeEmail, confirmNewEmail, undoEmailChangeRequest } from '../controllers/emailChangeController';
+import { exportMyData, downloadDataExport } from '../controllers/dataExportController';
+import { uploadUserAvatar, deleteUserAvatar } from '../controllers/avatarController';
+import { authenticateUser, optionalAuthentication } from '../middleware/authMiddleware';
+import { uploadAvatar } from '../middleware/uploadMiddleware';
 
 const router = Router();
 
 router.use(express.json()); // Aplica o parsing do corpo JSON para as rotas de usuário
 
+// Exportação dos dados pessoais (LGPD); o link de download enviado por e-mail é aberto sem login
+router.get('/me/export', authenticateUser, exportMyData);
+router.get('/me/export/download/:token', downloadDataExport);
+
+// Foto de perfil (multipart/form-data, campo "avatar")
+router.post('/me/avatar', authenticateUser, uploadAvatar, uploadUserAvatar);
+router.delete('/me/avatar', authenticateUser, deleteUserAvatar);
+
+router.get('/:id/public', optionalAuthentication, getPublicProfile); // Perfil público do vendedor (login opcional, para incluir isFavorited)
 router.put('/:id/update', authenticateUser, updateUserProfile);
+router.put('/password', authenticateUser, changePassword);
 router.delete('/delete', authenticateUser, deleteUserAccount);
 
+// Troca de e-mail: confirmação no novo endereço e link para desfazer no antigo (links abertos sem login)
+router.put('/email', authenticateUser, changeEmail);
+router.post('/email/confirm/:token', confirmNewEmail);
+router.post('/email/undo/:token', undoEmailChangeRequest);
+
+// Verificação do telefone por código enviado via SMS
+router.post('/phone/verification', authenticateUser, requestPhoneVerification);
+router.post('/phone/verification/confirm', authenticateUser, confirmPhoneVerification);
+
+// Chaves de API para integrações (gerenciadas apenas com a sessão do usuário, nunca com outra chave)
+router.get('/api-keys', authenticateUser, listApiKeys);
+router.post('/api-keys', authenticateUser, createUserApiKey);
+router.delete('/api-keys/:keyId', authenticateUser, revokeUserApiKey);
+
 export default router;
@@ -8,27 +8,44 @@ import {
     getVehiclesByCityAndState,
     getVehicleById,
     getUserVehicles,
+    changeVehicleStatus,
+    renewVehicle,
+    renewVehicleByLink,
+    getVehiclePriceHistory,
 } from '../controllers/vehicleController';
 import { uploadImages, deleteImage } from '../controllers/imageController';
-import { authenticateUser } from '../middleware/authMiddleware';
+import { contactSeller } from '../controllers/contactController';
+import { authenticateUser, authenticateUserOrApiKey, requireVerifiedEmail, optionalAuthentication } from '../middleware/authMiddleware';
 import { uploadVehicleImages } from '../middleware/uploadMiddleware';
 
 const router = Router();
 
-// Public routes
-router.get('/', getAllVehicles);
-router.get('/search', searchVehicles);
-router.get('/by-city-state', getVehiclesByCityAndState);
-router.get('/:id', getVehicleById);
+// Public routes (com login opcional, para incluir isFavorited)
+router.get('/', optionalAuthentication, getAllVehicles);
+router.get('/search', optionalAuthentication, searchVehicles);
+router.get('/by-city-state', optionalAuthentication, getVehiclesByCityAndState);
+router.get('/:id', optionalAuthentication, getVehicleById);
+router.get('/:id/price-history', getVehiclePriceHistory);
+router.post('/renew/:token', renewVehicleByLink); // Link do lembrete de vencimento
 
-// Authenticated routes
-router.get('/:id/my-vehicles', authenticateUser, getUserVehicles);
-router.post('/', authenticateUser, express.json(), addVehicle);
-router.put('/:id', authenticateUser, express.json(), updateVehicle);
-router.delete('/:id', authenticateUser, deleteVehicle);
+// Authenticated routes (também aceitam chaves de API com o escopo correspondente)
+router.get('/:id/my-vehicles', authenticateUserOrApiKey('vehicles:read'), getUserVehicles);
+router.post('/', authenticateUserOrApiKey('vehicles:write'), requireVerifiedEmail, express.json(), addVehicle);
+router.put('/:id', authenticateUserOrApiKey('vehicles:write'), express.json(), updateVehicle);
+router.delete('/:id', authenticateUserOrApiKey('vehicles:write'), deleteVehicle);
+
+// Ciclo de vida do anúncio
+router.post('/:id/publish', authenticateUserOrApiKey('vehicles:write'), requireVerifiedEmail, changeVehicleStatus('publish'));
+router.post('/:id/pause', authenticateUserOrApiKey('vehicles:write'), changeVehicleStatus('pause'));
+router.post('/:id/sell', authenticateUserOrApiKey('vehicles:write'), express.json(), changeVehicleStatus('sell'));
+router.post('/:id/reactivate', authenticateUserOrApiKey('vehicles:write'), requireVerifiedEmail, changeVehicleStatus('reactivate'));
+router.post('/:id/renew', authenticateUserOrApiKey('vehicles:write'), renewVehicle);
+
+// Contato do comprador com o anunciante (habilita a avaliação do vendedor)
+router.post('/:id/contact', authenticateUser, requireVerifiedEmail, express.json(), contactSeller);
 
 // Image routes
-router.post('/:id/images', authenticateUser, uploadVehicleImages, uploadImages);
-router.delete('/:id/images/:imageId', authenticateUser, deleteImage);
+router.post('/:id/images', authenticateUserOrApiKey('images:write'), requireVerifiedEmail, uploadVehicleImages, uploadImages);
+router.delete('/:id/images/:imageId', authenticateUserOrApiKey('images:write'), deleteImage);
 
 export default router;
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import { getJsonWebKeySet } from '../controllers/wellKnownController';
+
+const router = Router();
+
+router.get('/jwks.json', getJsonWebKeySet); // Chaves públicas para verificação dos tokens por outros serviços
+
+export default router;
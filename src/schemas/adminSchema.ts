@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { USER_ROLES, ACCOUNT_STATUSES, LISTING_TIERS } from '../models/User';
+import { REVIEW_REPORT_STATUSES } from '../models/ReviewReport';
+
+export const updateUserStatusSchema = z.object({
+    status: z.enum(ACCOUNT_STATUSES, "Status inválido"),
+    reason: z.string().max(500, "Motivo muito longo").optional(),
+    suspendedUntil: z.coerce.date("Data de fim da suspensão inválida").optional(),
+});
+
+// Filtros da listagem de usuários: valores fora das listas conhecidas (inclusive objetos como status[$ne]) são recusados
+export const listUsersQuerySchema = z.object({
+    q: z.string("Busca inválida").optional(),
+    role: z.enum(USER_ROLES, "Papel inválido").optional(),
+    status: z.enum(ACCOUNT_STATUSES, "Status inválido").optional(),
+});
+
+export const updateUserRolesSchema = z.object({
+    roles: z.array(z.enum(USER_ROLES, "Papel inválido")).min(1, "Informe ao menos um papel"),
+});
+
+export const updateUserListingTierSchema = z.object({
+    listingTier: z.enum(LISTING_TIERS, "Perfil de anunciante inválido"),
+});
+
+export const listReviewReportsQuerySchema = z.object({
+    status: z.enum(REVIEW_REPORT_STATUSES, "Status inválido").default('open'),
+});
+
+export const resolveReviewReportSchema = z.object({
+    action: z.enum(['dismiss', 'hide_review'], "Ação inválida"),
+    reason: z.string().max(500, "Motivo muito longo").optional(),
+});
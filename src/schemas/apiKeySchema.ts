@@ -0,0 +1,7 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../models/ApiKey';
+
+export const createApiKeySchema = z.object({
+    name: z.string().trim().min(1, "Nome é obrigatório").max(100, "Nome muito longo"),
+    scopes: z.array(z.enum(API_KEY_SCOPES, "Escopo inválido")).min(1, "Informe ao menos um escopo"),
+});
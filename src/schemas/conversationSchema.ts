@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+const messageText = z.string().trim().min(1, "A mensagem não pode estar vazia").max(2000, "Mensagem muito longa");
+
+export const startConversationSchema = z.object({
+    vehicleId: z.string().min(1, "Veículo é obrigatório"),
+    text: messageText,
+});
+
+export const sendMessageSchema = z.object({
+    text: messageText,
+});
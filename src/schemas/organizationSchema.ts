@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { ORGANIZATION_ROLES } from '../models/Organization';
+import { vehicleSchema } from './vehicleSchema';
+
+export const createOrganizationSchema = z.object({
+    name: z.string().min(2, "Nome da loja deve ter no mínimo 2 caracteres").max(100, "Nome da loja muito longo"),
+    // Padrões preenchidos nos anúncios da loja quando não informados
+    announcerName: vehicleSchema.shape.announcerName.optional(),
+    announcerPhone: vehicleSchema.shape.announcerPhone.optional(),
+});
+
+export const updateOrganizationSchema = createOrganizationSchema.partial();
+
+export const inviteMemberSchema = z.object({
+    email: z.string().email("E-mail inválido"),
+    role: z.enum(ORGANIZATION_ROLES, "Papel inválido").default('salesperson'),
+});
+
+export const updateMemberRoleSchema = z.object({
+    role: z.enum(ORGANIZATION_ROLES, "Papel inválido"),
+});
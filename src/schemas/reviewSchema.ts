@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const createReviewSchema = z.object({
+    sellerId: z.string().min(1, "Vendedor é obrigatório"),
+    vehicleId: z.string().optional(),
+    rating: z.number().int("A nota deve ser um número inteiro").min(1, "A nota mínima é 1").max(5, "A nota máxima é 5"),
+    text: z.string().min(10, "A avaliação deve ter no mínimo 10 caracteres").max(1000, "Avaliação muito longa"),
+});
+
+export const replyReviewSchema = z.object({
+    text: z.string().min(1, "Resposta é obrigatória").max(1000, "Resposta muito longa"),
+});
+
+export const reportReviewSchema = z.object({
+    reason: z.string().min(5, "Descreva o motivo da denúncia").max(500, "Motivo muito longo"),
+});
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ALERT_FREQUENCIES } from '../models/SavedSearch';
+import { SEARCH_FILTER_PARAMS, SearchFilterParam } from '../services/vehicleService';
+
+const NUMERIC_SEARCH_PARAMS: SearchFilterParam[] = ['year', 'minYear', 'maxYear', 'minPrice', 'maxPrice', 'minMileage', 'maxMileage'];
+
+// Valores chegam como na query string; números enviados no JSON são aceitos e guardados como texto.
+// O texto é buscado literalmente (ver buildVehicleSearchFilter); aqui são recusados os valores que a busca ignoraria.
+const searchQuerySchema = z.partialRecord(
+    z.enum(SEARCH_FILTER_PARAMS, "Parâmetro de busca inválido"),
+    z.union([z.string(), z.number()], "Valor do filtro inválido")
+        .transform(String)
+        .pipe(z.string().trim().min(1, "Valor do filtro é obrigatório").max(100, "Valor do filtro muito longo"))
+).superRefine((query, ctx) => {
+    for (const param of NUMERIC_SEARCH_PARAMS) {
+        const value = query[param];
+        if (value !== undefined && !Number.isFinite(Number(value))) {
+            ctx.addIssue({ code: 'custom', path: [param], message: "Valor numérico inválido" });
+        }
+    }
+    if (query.priceDropped !== undefined && query.priceDropped !== 'true') {
+        ctx.addIssue({ code: 'custom', path: ['priceDropped'], message: "priceDropped aceita apenas true" });
+    }
+}).refine(query => Object.keys(query).length > 0, "Informe ao menos um filtro da busca");
+
+const savedSearchName = z.string().min(1, "Nome da busca é obrigatório").max(100, "Nome da busca muito longo");
+const alertFrequency = z.enum(ALERT_FREQUENCIES, "Frequência inválida");
+
+export const createSavedSearchSchema = z.object({
+    name: savedSearchName,
+    query: searchQuerySchema,
+    frequency: alertFrequency.default('daily'),
+});
+
+// Sem padrões: apenas os campos enviados são alterados
+export const updateSavedSearchSchema = z.object({
+    name: savedSearchName.optional(),
+    query: searchQuerySchema.optional(),
+    frequency: alertFrequency.optional(),
+});
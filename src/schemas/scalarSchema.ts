@@ -25,6 +25,11 @@ export const openApiSpec = {
                 scheme: 'bearer',
                 bearerFormat: 'JWT',
             },
+            apiKeyAuth: {
+                type: 'apiKey',
+                in: 'header',
+                name: 'X-Api-Key',
+            },
         },
         schemas: {
             User: {
@@ -36,6 +41,78 @@ export const openApiSpec = {
                     phone: { type: 'string' },
                     city: { type: 'string' },
                     state: { type: 'string' },
+                    avatarUrl: { type: 'string', description: 'Foto de perfil (quadrada, 400x400)' },
+                    emailVerified: { type: 'boolean' },
+                    phoneVerified: { type: 'boolean' },
+                    twoFactorEnabled: { type: 'boolean' },
+                    identities: {
+                        type: 'array',
+                        description: 'Contas externas (OpenID Connect) vinculadas',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                provider: { type: 'string' },
+                                subject: { type: 'string' },
+                                email: { type: 'string' },
+                                linked_at: { type: 'string', format: 'date-time' },
+                            },
+                        },
+                    },
+                    roles: { type: 'array', items: { type: 'string', enum: ['user', 'moderator', 'admin'] } },
+                    accountStatus: { type: 'string', enum: ['active', 'suspended', 'banned'] },
+                    suspendedUntil: { type: 'string', format: 'date-time' },
+                    statusReason: { type: 'string' },
+                    listingTier: { type: 'string', enum: ['individual', 'dealer'], description: 'Define por quantos dias os anúncios ficam ativos' },
+                    created_at: { type: 'string', format: 'date-time' },
+                },
+            },
+            RatingStats: {
+                type: 'object',
+                description: 'Média das avaliações publicadas do vendedor',
+                properties: {
+                    average: { type: 'number', nullable: true, example: 4.6 },
+                    count: { type: 'integer', example: 12 },
+                },
+            },
+            Review: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    reviewer_id: { type: 'string' },
+                    seller_id: { type: 'string' },
+                    vehicle_id: { type: 'string' },
+                    rating: { type: 'integer', minimum: 1, maximum: 5 },
+                    text: { type: 'string' },
+                    reply: {
+                        type: 'object',
+                        properties: {
+                            text: { type: 'string' },
+                            created_at: { type: 'string', format: 'date-time' },
+                        },
+                    },
+                    status: { type: 'string', enum: ['published', 'hidden'] },
+                    created_at: { type: 'string', format: 'date-time' },
+                },
+            },
+            Organization: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    name: { type: 'string' },
+                    announcerName: { type: 'string' },
+                    announcerPhone: { type: 'string' },
+                    members: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                user_id: { type: 'string' },
+                                role: { type: 'string', enum: ['owner', 'manager', 'salesperson'] },
+                                joined_at: { type: 'string', format: 'date-time' },
+                            },
+                        },
+                    },
+                    created_by: { type: 'string' },
                     created_at: { type: 'string', format: 'date-time' },
                 },
             },
@@ -44,12 +121,15 @@ export const openApiSpec = {
                 properties: {
                     _id: { type: 'string' },
                     owner_id: { type: 'string' },
+                    organization_id: { type: 'string', description: 'Loja dona do anúncio, quando publicado em nome de uma organização' },
                     title: { type: 'string' },
                     brand: { type: 'string' },
                     vehicleModel: { type: 'string' },
                     engine: { type: 'string' },
                     year: { type: 'number' },
                     price: { type: 'number' },
+                    previousPrice: { type: 'number', description: 'Preço anterior à última alteração' },
+                    priceDroppedAt: { type: 'string', format: 'date-time', nullable: true, description: 'Data da última redução de preço (nula se a última alteração foi um aumento)' },
                     mileage: { type: 'number' },
                     state: { type: 'string' },
                     city: { type: 'string' },
@@ -61,10 +141,20 @@ export const openApiSpec = {
                     features: { type: 'array', items: { type: 'string' } },
                     images: { type: 'array', items: { $ref: '#/components/schemas/Image' } },
                     announcerName: { type: 'string' },
-                    announcerEmail: { type: 'string', format: 'email' },
+                    announcerEmail: { type: 'string', format: 'email', description: 'Omitido nas respostas públicas: o contato é feito pelas mensagens (/conversations)' },
                     announcerPhone: { type: 'string' },
+                    status: { type: 'string', enum: ['draft', 'active', 'paused', 'sold', 'expired'] },
+                    statusChangedAt: { type: 'string', format: 'date-time' },
+                    publishedAt: { type: 'string', format: 'date-time' },
+                    soldAt: { type: 'string', format: 'date-time' },
+                    soldPrice: { type: 'number', description: 'Preço final informado ao marcar como vendido' },
+                    expiresAt: { type: 'string', format: 'date-time', description: 'Fim da validade; depois disso o anúncio passa a expired e sai das buscas' },
                     created_at: { type: 'string', format: 'date-time' },
                     firstImageUrl: { type: 'string' },
+                    verifiedSeller: { type: 'boolean', description: 'O telefone do anúncio é o telefone verificado do vendedor' },
+                    sellerRating: { $ref: '#/components/schemas/RatingStats' },
+                    isFavorited: { type: 'boolean', description: 'Presente apenas quando a requisição é autenticada' },
+                    favoriteCount: { type: 'integer', description: 'Quantos usuários salvaram o anúncio (apenas na listagem dos próprios veículos)' },
                 },
             },
             Image: {
@@ -76,6 +166,88 @@ export const openApiSpec = {
                     created_at: { type: 'string', format: 'date-time' },
                 },
             },
+            Session: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    deviceLabel: { type: 'string' },
+                    ip: { type: 'string' },
+                    userAgent: { type: 'string' },
+                    created_at: { type: 'string', format: 'date-time' },
+                    last_used_at: { type: 'string', format: 'date-time' },
+                    expiresAt: { type: 'string', format: 'date-time' },
+                    current: { type: 'boolean' },
+                },
+            },
+            ApiKey: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    name: { type: 'string' },
+                    prefix: { type: 'string', description: 'Início da chave, para identificá-la' },
+                    scopes: { type: 'array', items: { type: 'string', enum: ['vehicles:read', 'vehicles:write', 'images:write'] } },
+                    created_at: { type: 'string', format: 'date-time' },
+                    last_used_at: { type: 'string', format: 'date-time' },
+                },
+            },
+            Message: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    conversation_id: { type: 'string' },
+                    sender_id: { type: 'string' },
+                    text: { type: 'string' },
+                    created_at: { type: 'string', format: 'date-time' },
+                },
+            },
+            ConversationSummary: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    role: { type: 'string', enum: ['buyer', 'seller'], description: 'Papel do usuário autenticado na conversa' },
+                    vehicle: {
+                        type: 'object',
+                        nullable: true,
+                        description: 'Nulo quando o anúncio foi excluído',
+                        properties: {
+                            _id: { type: 'string' },
+                            title: { type: 'string' },
+                            price: { type: 'number' },
+                            status: { type: 'string' },
+                        },
+                    },
+                    otherParticipant: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                            _id: { type: 'string' },
+                            username: { type: 'string' },
+                            avatarUrl: { type: 'string', nullable: true },
+                        },
+                    },
+                    lastMessageAt: { type: 'string', format: 'date-time' },
+                    lastMessagePreview: { type: 'string', nullable: true },
+                    unreadCount: { type: 'integer' },
+                },
+            },
+            SavedSearch: {
+                type: 'object',
+                properties: {
+                    _id: { type: 'string' },
+                    user_id: { type: 'string' },
+                    name: { type: 'string' },
+                    query: {
+                        type: 'object',
+                        additionalProperties: { type: 'string' },
+                        description: 'Parâmetros de /vehicles/search (name, brand, vehicleModel, engine, year, minYear, maxYear, minPrice, maxPrice, minMileage, maxMileage, state, city, fuel, transmission, bodyType, color, priceDropped)',
+                        example: { brand: 'Honda', maxPrice: '90000', state: 'SP' },
+                    },
+                    frequency: { type: 'string', enum: ['instant', 'daily', 'weekly'] },
+                    last_run_at: { type: 'string', format: 'date-time' },
+                    last_sent_at: { type: 'string', format: 'date-time' },
+                    created_at: { type: 'string', format: 'date-time' },
+                },
+            },
             Error: {
                 type: 'object',
                 properties: {
@@ -163,6 +335,7 @@ export const openApiSpec = {
                                 properties: {
                                     email: { type: 'string', format: 'email', example: 'joao.silva@example.com' },
                                     password: { type: 'string', format: 'password', example: 'Senha@123' },
+                                    deviceLabel: { type: 'string', example: 'Celular do João' },
                                 },
                             },
                         },
@@ -180,6 +353,9 @@ export const openApiSpec = {
                                         accessToken: { type: 'string' },
                                         user: { $ref: '#/components/schemas/User' },
                                         refreshToken: { type: 'string' },
+                                        twoFactorRequired: { type: 'boolean' },
+                                        challengeToken: { type: 'string', description: 'Presente apenas quando a conta exige verificação em duas etapas' },
+                                        accountDeletionCancelled: { type: 'boolean', description: 'Presente quando o login cancelou uma exclusão de conta agendada' },
                                     },
                                 },
                             },
@@ -193,6 +369,14 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    429: {
+                        description: 'Muitas tentativas; aguarde o tempo indicado no cabeçalho Retry-After',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     500: {
                         description: 'Erro interno do servidor',
                         content: {
@@ -204,20 +388,22 @@ export const openApiSpec = {
                 },
             },
         },
-        '/auth/forgot-password': {
+        '/auth/login/2fa': {
             post: {
                 tags: ['Authentication'],
-                summary: 'Solicitar redefinição de senha',
-                description: 'Envia um e-mail com instruções para redefinir a senha',
+                summary: 'Concluir login com verificação em duas etapas',
+                description: 'Troca o token de desafio retornado por /auth/login por tokens de acesso, mediante um código TOTP válido ou um código de recuperação',
                 requestBody: {
                     required: true,
                     content: {
                         'application/json': {
                             schema: {
                                 type: 'object',
-                                required: ['email'],
+                                required: ['challengeToken'],
                                 properties: {
-                                    email: { type: 'string', format: 'email', example: 'joao.silva@example.com' },
+                                    challengeToken: { type: 'string' },
+                                    code: { type: 'string', example: '123456' },
+                                    recoveryCode: { type: 'string', example: 'a1b2c-3d4e5' },
                                 },
                             },
                         },
@@ -225,20 +411,40 @@ export const openApiSpec = {
                 },
                 responses: {
                     200: {
-                        description: 'Instruções enviadas por e-mail',
+                        description: 'Login realizado com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
                                         message: { type: 'string' },
+                                        accessToken: { type: 'string' },
+                                        user: { $ref: '#/components/schemas/User' },
+                                        refreshToken: { type: 'string' },
+                                        accountDeletionCancelled: { type: 'boolean', description: 'Presente quando o login cancelou uma exclusão de conta agendada' },
                                     },
                                 },
                             },
                         },
                     },
-                    404: {
-                        description: 'Usuário não encontrado',
+                    400: {
+                        description: 'Código inválido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Desafio inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Muitas tentativas; aguarde o tempo indicado no cabeçalho Retry-After',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -256,50 +462,74 @@ export const openApiSpec = {
                 },
             },
         },
-        '/auth/reset-password/{resetToken}': {
-            post: {
+        '/auth/oidc/providers': {
+            get: {
                 tags: ['Authentication'],
-                summary: 'Redefinir senha',
-                description: 'Redefine a senha do usuário usando o token enviado por e-mail',
+                summary: 'Listar provedores de login externo',
+                description: 'Retorna os nomes dos provedores OpenID Connect configurados (ex.: google)',
+                responses: {
+                    200: {
+                        description: 'Provedores disponíveis',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        providers: { type: 'array', items: { type: 'string' }, example: ['google'] },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/oidc/{provider}/authorize': {
+            get: {
+                tags: ['Authentication'],
+                summary: 'Iniciar login externo',
+                description: 'Gera a URL de autorização do provedor (fluxo authorization code com PKCE). O frontend deve redirecionar o usuário para ela; o provedor retorna code e state para a página de retorno do frontend. O state expira em 10 minutos.',
                 parameters: [
                     {
-                        name: 'resetToken',
+                        name: 'provider',
                         in: 'path',
                         required: true,
-                        schema: { type: 'string' },
-                        description: 'Token de redefinição de senha',
+                        schema: { type: 'string', example: 'google' },
+                        description: 'Nome do provedor configurado em OIDC_PROVIDERS',
                     },
                 ],
-                requestBody: {
-                    required: true,
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                required: ['password'],
-                                properties: {
-                                    password: { type: 'string', format: 'password', example: 'NovaSenha@123' },
-                                },
-                            },
-                        },
-                    },
-                },
                 responses: {
                     200: {
-                        description: 'Senha redefinida com sucesso',
+                        description: 'URL de autorização gerada',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        message: { type: 'string' },
+                                        authorizationUrl: { type: 'string', format: 'uri' },
                                     },
                                 },
                             },
                         },
                     },
-                    400: {
-                        description: 'Token inválido ou dados inválidos',
+                    404: {
+                        description: 'Provedor não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    502: {
+                        description: 'Falha ao contatar o provedor',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -317,20 +547,30 @@ export const openApiSpec = {
                 },
             },
         },
-        '/auth/refresh-token': {
+        '/auth/oidc/{provider}/callback': {
             post: {
                 tags: ['Authentication'],
-                summary: 'Renovar token de acesso',
-                description: 'Gera um novo token de acesso usando o refresh token',
+                summary: 'Concluir login externo',
+                description: 'Troca o código de autorização pelo id_token do provedor e retorna os mesmos tokens do login. A conta externa é vinculada ao usuário com o mesmo e-mail (se verificado pelo provedor e já confirmado na conta) ou uma nova conta sem senha é criada. Se a conta com o e-mail ainda não foi confirmada, o login é recusado.',
+                parameters: [
+                    {
+                        name: 'provider',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string', example: 'google' },
+                        description: 'Nome do provedor configurado em OIDC_PROVIDERS',
+                    },
+                ],
                 requestBody: {
                     required: true,
                     content: {
                         'application/json': {
                             schema: {
                                 type: 'object',
-                                required: ['refreshToken'],
+                                required: ['code', 'state'],
                                 properties: {
-                                    refreshToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+                                    code: { type: 'string' },
+                                    state: { type: 'string' },
                                 },
                             },
                         },
@@ -338,7 +578,7 @@ export const openApiSpec = {
                 },
                 responses: {
                     200: {
-                        description: 'Tokens renovados com sucesso',
+                        description: 'Login realizado com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
@@ -346,14 +586,42 @@ export const openApiSpec = {
                                     properties: {
                                         message: { type: 'string' },
                                         accessToken: { type: 'string' },
+                                        user: { $ref: '#/components/schemas/User' },
                                         refreshToken: { type: 'string' },
+                                        twoFactorRequired: { type: 'boolean' },
+                                        challengeToken: { type: 'string', description: 'Presente apenas quando a conta exige verificação em duas etapas' },
+                                        accountDeletionCancelled: { type: 'boolean', description: 'Presente quando o login cancelou uma exclusão de conta agendada' },
                                     },
                                 },
                             },
                         },
                     },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     401: {
-                        description: 'Refresh token inválido',
+                        description: 'Login externo inválido, expirado ou e-mail não verificado pelo provedor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Conta suspensa ou banida',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Provedor não encontrado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -371,60 +639,44 @@ export const openApiSpec = {
                 },
             },
         },
-
-        // Vehicle routes
-        '/vehicles': {
-            get: {
-                tags: ['Vehicles'],
-                summary: 'Listar todos os veículos',
-                description: 'Retorna uma lista paginada de todos os veículos disponíveis',
-                parameters: [
-                    {
-                        name: 'page',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, default: 1 },
-                        description: 'Número da página',
-                    },
-                    {
-                        name: 'limit',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
-                        description: 'Itens por página',
-                    },
-                    {
-                        name: 'sortBy',
-                        in: 'query',
-                        schema: { type: 'string', enum: ['createdAt', 'price', 'year', 'mileage'] },
-                        description: 'Campo para ordenação',
-                    },
-                    {
-                        name: 'sortOrder',
-                        in: 'query',
-                        schema: { type: 'string', enum: ['asc', 'desc'] },
-                        description: 'Ordem de ordenação',
-                    },
-                ],
+        '/auth/2fa/setup': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Iniciar configuração do 2FA',
+                description: 'Gera um segredo TOTP e retorna a URI otpauth para o aplicativo autenticador (requer autenticação)',
+                security: [{ bearerAuth: [] }],
                 responses: {
                     200: {
-                        description: 'Lista de veículos retornada com sucesso',
+                        description: 'Segredo gerado',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        vehicles: {
-                                            type: 'array',
-                                            items: { $ref: '#/components/schemas/Vehicle' },
-                                        },
-                                        currentPage: { type: 'integer' },
-                                        totalPages: { type: 'integer' },
-                                        totalVehicles: { type: 'integer' },
-                                        firstImageUrl: { type: 'string' },
+                                        message: { type: 'string' },
+                                        secret: { type: 'string' },
+                                        otpauthUri: { type: 'string', example: 'otpauth://totp/.CARRO%3Ajoao%40example.com?secret=...' },
                                     },
                                 },
                             },
                         },
                     },
+                    400: {
+                        description: '2FA já ativado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     500: {
                         description: 'Erro interno do servidor',
                         content: {
@@ -435,10 +687,12 @@ export const openApiSpec = {
                     },
                 },
             },
+        },
+        '/auth/2fa/confirm': {
             post: {
-                tags: ['Vehicles'],
-                summary: 'Criar novo veículo',
-                description: 'Cria um novo anúncio de veículo (requer autenticação)',
+                tags: ['Authentication'],
+                summary: 'Confirmar configuração do 2FA',
+                description: 'Ativa o 2FA após validar o primeiro código e retorna os códigos de recuperação, exibidos uma única vez (requer autenticação)',
                 security: [{ bearerAuth: [] }],
                 requestBody: {
                     required: true,
@@ -446,34 +700,4894 @@ export const openApiSpec = {
                         'application/json': {
                             schema: {
                                 type: 'object',
-                                required: ['title', 'brand', 'vehicleModel', 'year', 'price', 'mileage', 'state', 'city', 'fuel', 'transmission', 'color', 'announcerName', 'announcerEmail'],
+                                required: ['code'],
                                 properties: {
-                                    title: { type: 'string', example: 'Fusca 1970' },
-                                    brand: { type: 'string', example: 'Volkswagen' },
-                                    vehicleModel: { type: 'string', example: 'Fusca' },
-                                    engine: { type: 'string', example: '1.5L' },
+                                    code: { type: 'string', example: '123456' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: '2FA ativado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        recoveryCodes: { type: 'array', items: { type: 'string' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Código inválido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/2fa/disable': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Desativar 2FA',
+                description: 'Desativa o 2FA mediante a senha atual e um código TOTP ou de recuperação (requer autenticação). Contas sem senha local (login externo) informam apenas o código.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    password: { type: 'string', format: 'password' },
+                                    code: { type: 'string', example: '123456' },
+                                    recoveryCode: { type: 'string' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: '2FA desativado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Credenciais inválidas',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/forgot-password': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Solicitar redefinição de senha',
+                description: 'Envia um e-mail com instruções para redefinir a senha',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['email'],
+                                properties: {
+                                    email: { type: 'string', format: 'email', example: 'joao.silva@example.com' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Instruções enviadas por e-mail',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Usuário não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Muitas tentativas; aguarde o tempo indicado no cabeçalho Retry-After',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/reset-password/{resetToken}': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Redefinir senha',
+                description: 'Redefine a senha do usuário usando o token enviado por e-mail. Todos os tokens e sessões existentes são revogados',
+                parameters: [
+                    {
+                        name: 'resetToken',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token de redefinição de senha',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['password'],
+                                properties: {
+                                    password: { type: 'string', format: 'password', example: 'NovaSenha@123' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Senha redefinida com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Token inválido ou dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Muitas tentativas; aguarde o tempo indicado no cabeçalho Retry-After',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/magic-link': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Solicitar link de acesso',
+                description: 'Envia por e-mail um link de login sem senha, válido por 15 minutos e de uso único. A resposta é a mesma exista ou não uma conta com o e-mail informado, e o e-mail é enviado em segundo plano.',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['email'],
+                                properties: {
+                                    email: { type: 'string', format: 'email', example: 'joao@email.com' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Solicitação processada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Muitas solicitações',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/magic-link/{token}': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Entrar com link de acesso',
+                description: 'Troca o token do link de acesso pelos mesmos tokens retornados no login. O link é consumido no primeiro uso e marca o e-mail da conta como verificado. Se a conta tiver verificação em duas etapas, retorna um desafio como no login com senha.',
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token recebido no link do e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Login realizado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        accessToken: { type: 'string' },
+                                        user: { $ref: '#/components/schemas/User' },
+                                        refreshToken: { type: 'string' },
+                                        twoFactorRequired: { type: 'boolean' },
+                                        challengeToken: { type: 'string', description: 'Presente apenas quando a conta exige verificação em duas etapas' },
+                                        accountDeletionCancelled: { type: 'boolean', description: 'Presente quando o login cancelou uma exclusão de conta agendada' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Link inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Conta suspensa ou banida',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Muitas tentativas',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/refresh-token': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Renovar token de acesso',
+                description: 'Gera um novo token de acesso usando o refresh token. O refresh token é rotacionado a cada uso; reapresentar um token já rotacionado revoga a sessão inteira',
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['refreshToken'],
+                                properties: {
+                                    refreshToken: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Tokens renovados com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        accessToken: { type: 'string' },
+                                        refreshToken: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Refresh token inválido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/logout': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Fazer logout',
+                description: 'Revoga imediatamente o access token usado na requisição e encerra a sessão correspondente, invalidando seu refresh token',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Logout realizado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/logout-all': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Fazer logout em todos os dispositivos',
+                description: 'Revoga todos os tokens já emitidos para o usuário e encerra todas as suas sessões',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Logout realizado em todos os dispositivos',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/verify-email/{token}': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Verificar e-mail',
+                description: 'Confirma o e-mail do usuário usando o token enviado por e-mail',
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token de verificação de e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'E-mail verificado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Token inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/resend-verification': {
+            post: {
+                tags: ['Authentication'],
+                summary: 'Reenviar e-mail de verificação',
+                description: 'Reenvia o link de verificação de e-mail (requer autenticação). Há um intervalo mínimo entre reenvios',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'E-mail de verificação reenviado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'E-mail já verificado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Reenvio solicitado antes do intervalo mínimo (ver cabeçalho Retry-After)',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/sessions': {
+            get: {
+                tags: ['Authentication'],
+                summary: 'Listar sessões ativas',
+                description: 'Retorna as sessões (dispositivos) ativas do usuário autenticado',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Sessões retornadas com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        sessions: { type: 'array', items: { $ref: '#/components/schemas/Session' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Authentication'],
+                summary: 'Revogar as outras sessões',
+                description: 'Revoga todas as sessões do usuário, exceto a que fez a requisição',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Sessões revogadas com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        revokedCount: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/auth/sessions/{sessionId}': {
+            delete: {
+                tags: ['Authentication'],
+                summary: 'Revogar uma sessão',
+                description: 'Revoga uma sessão específica do usuário autenticado',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'sessionId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da sessão',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Sessão revogada com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Sessão não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+
+        // Vehicle routes
+        '/vehicles': {
+            get: {
+                tags: ['Vehicles'],
+                summary: 'Listar todos os veículos',
+                description: 'Retorna uma lista paginada de todos os veículos disponíveis',
+                parameters: [
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                        description: 'Itens por página',
+                    },
+                    {
+                        name: 'sortBy',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['createdAt', 'price', 'year', 'mileage', 'priceDroppedAt'] },
+                        description: 'Campo para ordenação',
+                    },
+                    {
+                        name: 'sortOrder',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['asc', 'desc'] },
+                        description: 'Ordem de ordenação',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Lista de veículos retornada com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Vehicle' },
+                                        },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                        firstImageUrl: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Criar novo veículo',
+                description: 'Cria um novo anúncio de veículo (requer autenticação). Aceita chave de API com o escopo vehicles:write no cabeçalho X-Api-Key. Com organizationId, o anúncio pertence à loja e pode ser editado pelos membros autorizados',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['title', 'brand', 'vehicleModel', 'year', 'price', 'mileage', 'state', 'city', 'fuel', 'transmission', 'color', 'announcerName', 'announcerEmail'],
+                                properties: {
+                                    title: { type: 'string', example: 'Fusca 1970' },
+                                    brand: { type: 'string', example: 'Volkswagen' },
+                                    vehicleModel: { type: 'string', example: 'Fusca' },
+                                    engine: { type: 'string', example: '1.5L' },
                                     year: { type: 'number', example: 1970 },
                                     price: { type: 'number', example: 15000 },
                                     mileage: { type: 'number', example: 50000 },
                                     state: { type: 'string', example: 'SP' },
                                     city: { type: 'string', example: 'São Paulo' },
-                                    fuel: { type: 'string', example: 'Gasolina' },
-                                    transmission: { type: 'string', example: 'Manual' },
-                                    bodyType: { type: 'string', example: 'Hatch' },
-                                    color: { type: 'string', example: 'Azul' },
-                                    description: { type: 'string', example: 'Fusca em excelente estado de conservação.' },
-                                    features: { type: 'array', items: { type: 'string' }, example: ['Ar condicionado', 'Vidros elétricos'] },
-                                    announcerName: { type: 'string', example: 'João Silva' },
-                                    announcerEmail: { type: 'string', format: 'email', example: 'joao.silva@example.com' },
-                                    announcerPhone: { type: 'string', example: '+55 (11) 98765-4321' },
+                                    fuel: { type: 'string', example: 'Gasolina' },
+                                    transmission: { type: 'string', example: 'Manual' },
+                                    bodyType: { type: 'string', example: 'Hatch' },
+                                    color: { type: 'string', example: 'Azul' },
+                                    description: { type: 'string', example: 'Fusca em excelente estado de conservação.' },
+                                    features: { type: 'array', items: { type: 'string' }, example: ['Ar condicionado', 'Vidros elétricos'] },
+                                    announcerName: { type: 'string', example: 'João Silva' },
+                                    announcerEmail: { type: 'string', format: 'email', example: 'joao.silva@example.com' },
+                                    announcerPhone: { type: 'string', example: '+55 (11) 98765-4321' },
+                                    organizationId: { type: 'string', description: 'Publica o anúncio em nome da loja (exige ser membro). Sem announcerName/announcerPhone, usa os padrões da loja' },
+                                    status: { type: 'string', enum: ['draft', 'active'], default: 'active', description: 'draft salva o anúncio sem publicá-lo' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Veículo criado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'E-mail do usuário ainda não verificado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/search': {
+            get: {
+                tags: ['Vehicles'],
+                summary: 'Buscar veículos',
+                description: 'Busca veículos por termo de pesquisa',
+                parameters: [
+                    {
+                        name: 'q',
+                        in: 'query',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Termo de busca',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                        description: 'Itens por página',
+                    },
+                    {
+                        name: 'priceDropped',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['true'] },
+                        description: 'Apenas anúncios com redução de preço nos últimos 30 dias',
+                    },
+                    {
+                        name: 'sortBy',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['created_at', 'price', 'year', 'mileage', 'priceDroppedAt'], default: 'created_at' },
+                        description: 'Campo para ordenação (priceDroppedAt ordena pelas reduções mais recentes)',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Resultados da busca',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Vehicle' },
+                                        },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Termo de busca não fornecido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/by-city-state': {
+            get: {
+                tags: ['Vehicles'],
+                summary: 'Buscar veículos por cidade e estado',
+                description: 'Retorna veículos filtrados por cidade e estado',
+                parameters: [
+                    {
+                        name: 'city',
+                        in: 'query',
+                        schema: { type: 'string' },
+                        description: 'Cidade',
+                    },
+                    {
+                        name: 'state',
+                        in: 'query',
+                        schema: { type: 'string' },
+                        description: 'Estado',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                        description: 'Itens por página',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Veículos encontrados',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Vehicle' },
+                                        },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}': {
+            get: {
+                tags: ['Vehicles'],
+                summary: 'Buscar veículo por ID',
+                description: 'Retorna os detalhes de um veículo específico. Anúncios vendidos continuam visíveis, sem o preço e a data da venda.',
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Veículo encontrado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            put: {
+                tags: ['Vehicles'],
+                summary: 'Atualizar veículo',
+                description: 'Atualiza os dados de um veículo (requer autenticação e propriedade). Anúncios vendidos não podem ser editados. Aceita chave de API com o escopo vehicles:write no cabeçalho X-Api-Key',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    title: { type: 'string' },
+                                    brand: { type: 'string' },
+                                    vehicleModel: { type: 'string' },
+                                    engine: { type: 'string' },
+                                    year: { type: 'number' },
+                                    price: { type: 'number' },
+                                    mileage: { type: 'number' },
+                                    state: { type: 'string' },
+                                    city: { type: 'string' },
+                                    fuel: { type: 'string' },
+                                    transmission: { type: 'string' },
+                                    bodyType: { type: 'string' },
+                                    color: { type: 'string' },
+                                    description: { type: 'string' },
+                                    features: { type: 'array', items: { type: 'string' } },
+                                    announcerName: { type: 'string' },
+                                    announcerEmail: { type: 'string', format: 'email' },
+                                    announcerPhone: { type: 'string' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Veículo atualizado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Anúncio vendido não pode ser editado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Vehicles'],
+                summary: 'Excluir veículo',
+                description: 'Remove um veículo do sistema (requer autenticação e propriedade). Aceita chave de API com o escopo vehicles:write no cabeçalho X-Api-Key',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Veículo excluído com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/my-vehicles': {
+            get: {
+                tags: ['Vehicles'],
+                summary: 'Listar veículos do usuário',
+                description: 'Retorna todos os veículos de um usuário específico (requer autenticação). Aceita chave de API com o escopo vehicles:read no cabeçalho X-Api-Key',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário',
+                    },
+                    {
+                        name: 'status',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['draft', 'active', 'paused', 'sold', 'expired'] },
+                        description: 'Filtra os anúncios pelo status (sem o parâmetro, retorna todos)',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                        description: 'Itens por página',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Veículos do usuário retornados com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Vehicle' },
+                                        },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/images': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Upload de imagens',
+                description: 'Faz upload de imagens para um veículo específico (requer autenticação e propriedade). Anúncios vendidos não aceitam novas fotos. Aceita chave de API com o escopo images:write no cabeçalho X-Api-Key',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'multipart/form-data': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    images: {
+                                        type: 'array',
+                                        items: { type: 'string', format: 'binary' },
+                                        description: 'Arquivos de imagem (máximo 10 imagens)',
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Imagens enviadas com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        images: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Image' },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos ou limite de imagens excedido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'E-mail do usuário ainda não verificado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Anúncio vendido: as fotos não podem ser alteradas',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/images/{imageId}': {
+            delete: {
+                tags: ['Vehicles'],
+                summary: 'Excluir imagem',
+                description: 'Remove uma imagem específica de um veículo (requer autenticação e propriedade). As fotos de anúncios vendidos não podem ser removidas. Aceita chave de API com o escopo images:write no cabeçalho X-Api-Key',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                    {
+                        name: 'imageId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da imagem',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Imagem excluída com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo ou imagem não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Anúncio vendido: as fotos não podem ser alteradas',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+
+        // User routes
+        '/user/me/export': {
+            get: {
+                tags: ['Users'],
+                summary: 'Exportar meus dados (LGPD)',
+                description: 'Gera uma cópia dos dados pessoais do usuário: perfil (sem senha e segredos), veículos, imagens dos veículos com URLs, sessões, chaves de API e demais registros vinculados. Contas com poucos registros recebem o arquivo na própria resposta; exportações grandes são geradas em segundo plano e o link de download (válido por 48 horas) é enviado por e-mail.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Arquivo JSON compactado (gzip) com os dados do usuário',
+                        content: {
+                            'application/gzip': {
+                                schema: { type: 'string', format: 'binary' },
+                            },
+                        },
+                    },
+                    202: {
+                        description: 'Exportação sendo gerada em segundo plano',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        exportId: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Já existe uma exportação em andamento (pendências com mais de 30 minutos são consideradas interrompidas e não bloqueiam um novo pedido)',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/me/export/download/{token}': {
+            get: {
+                tags: ['Users'],
+                summary: 'Baixar exportação de dados',
+                description: 'Baixa o arquivo de uma exportação gerada em segundo plano, pelo token recebido por e-mail. Não exige login.',
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token do link enviado por e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Arquivo JSON compactado (gzip) com os dados do usuário',
+                        content: {
+                            'application/gzip': {
+                                schema: { type: 'string', format: 'binary' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Link de download inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/me/avatar': {
+            post: {
+                tags: ['Users'],
+                summary: 'Enviar foto de perfil',
+                description: 'Envia a foto de perfil do usuário (multipart/form-data, campo avatar, até 5MB). A imagem é recortada em um quadrado de 400x400 e guardada na pasta avatars/<userId> do Cloudinary; a foto anterior é removida. A URL aparece no usuário retornado pelo login e no perfil público.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'multipart/form-data': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    avatar: { type: 'string', format: 'binary', description: 'Arquivo de imagem' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Foto atualizada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        avatarUrl: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Nenhuma imagem enviada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Users'],
+                summary: 'Remover foto de perfil',
+                description: 'Remove a foto de perfil do usuário, inclusive do Cloudinary.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Foto removida',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Nenhuma foto de perfil cadastrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/{id}/public': {
+            get: {
+                tags: ['Users'],
+                summary: 'Perfil público do vendedor',
+                description: 'Retorna os dados públicos do vendedor (nome de exibição, foto de perfil, cidade/estado e data de cadastro), estatísticas e os anúncios ativos, paginados como em GET /vehicles. E-mail e telefone nunca são incluídos.',
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do vendedor',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', default: 10 },
+                        description: 'Itens por página',
+                    },
+                    {
+                        name: 'sortBy',
+                        in: 'query',
+                        schema: { type: 'string', default: 'created_at' },
+                        description: 'Campo para ordenação',
+                    },
+                    {
+                        name: 'sortOrder',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['asc', 'desc'] },
+                        description: 'Ordem da classificação',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Perfil do vendedor',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        seller: {
+                                            type: 'object',
+                                            properties: {
+                                                _id: { type: 'string' },
+                                                username: { type: 'string' },
+                                                avatarUrl: { type: 'string', nullable: true },
+                                                city: { type: 'string' },
+                                                state: { type: 'string' },
+                                                memberSince: { type: 'string', format: 'date-time' },
+                                                phoneVerified: { type: 'boolean' },
+                                            },
+                                        },
+                                        stats: {
+                                            type: 'object',
+                                            properties: {
+                                                totalListings: { type: 'integer' },
+                                                soldCount: { type: 'integer', description: 'Anúncios marcados como vendidos' },
+                                                averageResponseTimeMinutes: { type: 'number', nullable: true, description: 'Tempo médio até a primeira resposta nas conversas; nulo se o vendedor ainda não respondeu nenhuma' },
+                                                rating: { $ref: '#/components/schemas/RatingStats' },
+                                            },
+                                        },
+                                        vehicles: { type: 'array', items: { $ref: '#/components/schemas/Vehicle' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Vendedor não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/{id}/update': {
+            put: {
+                tags: ['Users'],
+                summary: 'Atualizar perfil do usuário',
+                description: 'Atualiza os dados do perfil do próprio usuário (requer autenticação). A senha é alterada em PUT /user/password e o e-mail em PUT /user/email. Alterar o telefone exige uma nova verificação.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    username: { type: 'string', example: 'João Silva Atualizado' },
+                                    phone: { type: 'string', example: '+55 (11) 98765-4321' },
+                                    city: { type: 'string', example: 'São Paulo' },
+                                    state: { type: 'string', example: 'SP' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Perfil atualizado com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        user: { $ref: '#/components/schemas/User' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Tentativa de atualizar o perfil de outro usuário',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Usuário não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/password': {
+            put: {
+                tags: ['Users'],
+                summary: 'Alterar senha',
+                description: 'Altera a senha do usuário mediante a senha atual. Senhas recentes não podem ser reutilizadas; todas as sessões são revogadas e um novo par de tokens é retornado (requer autenticação)',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['currentPassword', 'newPassword'],
+                                properties: {
+                                    currentPassword: { type: 'string', format: 'password', example: 'Senha@123' },
+                                    newPassword: { type: 'string', format: 'password', example: 'NovaSenha@123' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Senha alterada com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        accessToken: { type: 'string' },
+                                        refreshToken: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Senha atual incorreta, senha reutilizada ou dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/email': {
+            put: {
+                tags: ['Users'],
+                summary: 'Alterar e-mail',
+                description: 'Registra a troca de e-mail como pendente. Um link de confirmação (válido por 24 horas) é enviado ao novo endereço e um aviso com link para desfazer (válido por 7 dias) ao endereço atual. O e-mail só muda após a confirmação. Enquanto a troca anterior ainda puder ser desfeita, uma nova troca é recusada. A senha atual é obrigatória para contas com senha local.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['newEmail'],
+                                properties: {
+                                    newEmail: { type: 'string', format: 'email', example: 'joao.novo@email.com' },
+                                    password: { type: 'string', format: 'password' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    202: {
+                        description: 'Confirmação enviada ao novo e-mail',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos, senha incorreta ou e-mail igual ao atual',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'E-mail já está em uso ou a troca anterior ainda pode ser desfeita',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/email/confirm/{token}': {
+            post: {
+                tags: ['Users'],
+                summary: 'Confirmar novo e-mail',
+                description: 'Aplica a troca de e-mail pendente a partir do link enviado ao novo endereço. O novo e-mail passa a ser considerado verificado.',
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token recebido no link do e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'E-mail alterado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        email: { type: 'string', format: 'email' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Link inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'E-mail já está em uso',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/email/undo/{token}': {
+            post: {
+                tags: ['Users'],
+                summary: 'Desfazer alteração de e-mail',
+                description: 'Cancela a troca pendente a partir do link enviado ao endereço antigo. Se a troca já foi confirmada, restaura o e-mail anterior (mesmo que a conta já use outro endereço) e encerra todas as sessões da conta.',
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token recebido no link do e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Alteração cancelada ou desfeita',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Link inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'O e-mail anterior já está em uso por outra conta',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/delete': {
+            delete: {
+                tags: ['Users'],
+                summary: 'Excluir conta do usuário',
+                description: 'Agenda a exclusão definitiva da conta para daqui a 30 dias (requer autenticação). Durante esse período os anúncios ficam ocultos, todas as sessões e chaves de API são revogadas e entrar novamente na conta cancela a exclusão. Ao fim do prazo, a conta, os veículos, as imagens (inclusive no Cloudinary) e os demais dados vinculados são removidos e um comprovante é enviado por e-mail.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Exclusão agendada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        deletionScheduledFor: { type: 'string', format: 'date-time' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Exclusão já agendada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/phone/verification': {
+            post: {
+                tags: ['Users'],
+                summary: 'Enviar código de verificação do telefone',
+                description: 'Envia por SMS um código de 6 dígitos para o telefone do perfil. O código expira em 10 minutos e aceita até 5 tentativas. É possível solicitar um novo código a cada 1 minuto.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Código enviado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Telefone ausente ou já verificado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Aguarde antes de solicitar um novo código',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro ao enviar o SMS',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/phone/verification/confirm': {
+            post: {
+                tags: ['Users'],
+                summary: 'Confirmar telefone',
+                description: 'Confirma o telefone com o código recebido por SMS. Após a confirmação, anúncios cujo telefone seja o do vendedor exibem o selo de vendedor verificado. Alterar o telefone no perfil exige uma nova verificação.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['code'],
+                                properties: {
+                                    code: { type: 'string', example: '123456' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Telefone verificado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Código inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    429: {
+                        description: 'Limite de tentativas atingido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/api-keys': {
+            get: {
+                tags: ['Users'],
+                summary: 'Listar chaves de API',
+                description: 'Lista as chaves de API ativas do usuário autenticado. A chave completa nunca é retornada, apenas o prefixo.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Chaves de API ativas',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        apiKeys: { type: 'array', items: { $ref: '#/components/schemas/ApiKey' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                tags: ['Users'],
+                summary: 'Criar chave de API',
+                description: 'Cria uma chave de API para integrações (ex.: sistemas de estoque de lojistas). A chave é exibida apenas nesta resposta e armazenada somente como hash. Use-a no cabeçalho X-Api-Key. Limite de 10 chaves ativas por usuário.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['name', 'scopes'],
+                                properties: {
+                                    name: { type: 'string', example: 'Integração estoque' },
+                                    scopes: { type: 'array', items: { type: 'string', enum: ['vehicles:read', 'vehicles:write', 'images:write'] }, example: ['vehicles:read', 'vehicles:write'] },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Chave de API criada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        key: { type: 'string', example: 'pc_3q2+7w...' },
+                                        apiKey: { $ref: '#/components/schemas/ApiKey' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Dados inválidos ou limite de chaves atingido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/user/api-keys/{keyId}': {
+            delete: {
+                tags: ['Users'],
+                summary: 'Revogar chave de API',
+                description: 'Revoga uma chave de API do usuário autenticado. Integrações que a utilizam deixam de ter acesso imediatamente.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'keyId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da chave de API',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Chave de API revogada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Chave de API não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/contact': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Entrar em contato com o anunciante',
+                description: 'Envia a mensagem do comprador por e-mail ao anunciante e registra o contato. Só quem entrou em contato pode avaliar o vendedor (requer e-mail verificado).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['message'],
+                                properties: {
+                                    message: { type: 'string', example: 'O carro ainda está disponível?' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Mensagem enviada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação ou anúncio próprio',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'E-mail não verificado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations': {
+            post: {
+                tags: ['Organizations'],
+                summary: 'Criar loja',
+                description: 'Cria uma organização (revenda). Quem cria é o primeiro dono. announcerName e announcerPhone são usados como padrão nos anúncios da loja.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['name'],
+                                properties: {
+                                    name: { type: 'string', example: 'Auto Center Paulista' },
+                                    announcerName: { type: 'string' },
+                                    announcerPhone: { type: 'string' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Loja criada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        organization: { $ref: '#/components/schemas/Organization' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            get: {
+                tags: ['Organizations'],
+                summary: 'Minhas lojas',
+                description: 'Lista as lojas das quais o usuário faz parte, com o papel dele em cada uma.',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Lojas do usuário',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        organizations: { type: 'array', items: { $ref: '#/components/schemas/Organization' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/invitations/{token}/accept': {
+            post: {
+                tags: ['Organizations'],
+                summary: 'Aceitar convite',
+                description: 'Aceita o convite recebido por e-mail. A conta autenticada precisa ter o mesmo e-mail convidado.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'token',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'Token do link enviado por e-mail',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Convite aceito',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        organization: { $ref: '#/components/schemas/Organization' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Convite inválido ou expirado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Convite enviado para outro e-mail',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Usuário já é membro da loja',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/{id}': {
+            get: {
+                tags: ['Organizations'],
+                summary: 'Detalhes da loja',
+                description: 'Retorna a loja com a lista de membros (apenas para membros).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Loja',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        organization: { $ref: '#/components/schemas/Organization' },
+                                        myRole: { type: 'string', enum: ['owner', 'manager', 'salesperson'] },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Loja não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            put: {
+                tags: ['Organizations'],
+                summary: 'Atualizar loja',
+                description: 'Atualiza o nome e os padrões de anunciante da loja (apenas donos).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string' },
+                                    announcerName: { type: 'string' },
+                                    announcerPhone: { type: 'string' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Loja atualizada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        organization: { $ref: '#/components/schemas/Organization' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Apenas donos podem alterar a loja',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Loja não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/{id}/vehicles': {
+            get: {
+                tags: ['Organizations'],
+                summary: 'Anúncios da loja',
+                description: 'Lista os anúncios da loja, paginados como em GET /vehicles (apenas para membros).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', default: 10 },
+                        description: 'Itens por página',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Anúncios da loja',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: { type: 'array', items: { $ref: '#/components/schemas/Vehicle' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Loja não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/{id}/invitations': {
+            post: {
+                tags: ['Organizations'],
+                summary: 'Convidar membro',
+                description: 'Envia um convite por e-mail, válido por 7 dias. Gerentes só convidam vendedores; donos convidam qualquer papel.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['email'],
+                                properties: {
+                                    email: { type: 'string', format: 'email' },
+                                    role: { type: 'string', enum: ['owner', 'manager', 'salesperson'], default: 'salesperson' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Convite enviado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        invitation: { type: 'object' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem permissão para convidar com este papel',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Loja não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            get: {
+                tags: ['Organizations'],
+                summary: 'Convites pendentes',
+                description: 'Lista os convites pendentes da loja (donos e gerentes).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Convites pendentes',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        invitations: { type: 'array', items: { type: 'object' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem permissão para gerenciar membros',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Loja não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/{id}/invitations/{invitationId}': {
+            delete: {
+                tags: ['Organizations'],
+                summary: 'Cancelar convite',
+                description: 'Cancela um convite pendente (donos e gerentes).',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                    {
+                        name: 'invitationId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do convite',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Convite cancelado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem permissão para gerenciar membros',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Convite não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/organizations/{id}/members/{userId}': {
+            put: {
+                tags: ['Organizations'],
+                summary: 'Alterar papel do membro',
+                description: 'Altera o papel de um membro. Gerentes só gerenciam vendedores; a loja precisa manter ao menos um dono.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                    {
+                        name: 'userId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário membro',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['role'],
+                                properties: {
+                                    role: { type: 'string', enum: ['owner', 'manager', 'salesperson'] },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Papel atualizado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        organization: { $ref: '#/components/schemas/Organization' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação ou último dono',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem permissão para alterar este membro',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Membro não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Organizations'],
+                summary: 'Remover membro',
+                description: 'Remove um membro da loja, ou sai da loja quando userId é o próprio usuário. Os anúncios da loja criados pelo membro continuam na loja.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da loja',
+                    },
+                    {
+                        name: 'userId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário membro',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Membro removido',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'A loja precisa de pelo menos um dono',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem permissão para remover este membro',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Membro não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/reviews': {
+            post: {
+                tags: ['Reviews'],
+                summary: 'Avaliar vendedor',
+                description: 'Publica uma avaliação (nota de 1 a 5 e texto) de um vendedor. Exige ter entrado em contato com o vendedor por um anúncio (POST /vehicles/{id}/contact); com vehicleId, o contato precisa ter sido sobre aquele anúncio. Cada usuário avalia um vendedor uma vez.',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['sellerId', 'rating', 'text'],
+                                properties: {
+                                    sellerId: { type: 'string' },
+                                    vehicleId: { type: 'string' },
+                                    rating: { type: 'integer', minimum: 1, maximum: 5 },
+                                    text: { type: 'string', minLength: 10, maxLength: 1000 },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Avaliação publicada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        review: { $ref: '#/components/schemas/Review' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Sem contato com o vendedor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Vendedor não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Vendedor já avaliado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/favorites': {
+            get: {
+                tags: ['Favorites'],
+                summary: 'Listar favoritos',
+                description: 'Anúncios salvos pelo usuário (ativos e vendidos), paginados como a listagem geral e com firstImageUrl',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                        description: 'Itens por página',
+                    },
+                    {
+                        name: 'sortBy',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['createdAt', 'price', 'year', 'mileage', 'priceDroppedAt'] },
+                        description: 'Campo para ordenação',
+                    },
+                    {
+                        name: 'sortOrder',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['asc', 'desc'] },
+                        description: 'Ordem de ordenação',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Favoritos do usuário',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        vehicles: { type: 'array', items: { $ref: '#/components/schemas/Vehicle' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalVehicles: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/favorites/{vehicleId}': {
+            post: {
+                tags: ['Favorites'],
+                summary: 'Favoritar anúncio',
+                description: 'Salva o anúncio nos favoritos. Quem favoritou é avisado por e-mail quando o preço baixa ou o carro é vendido',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'vehicleId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    201: {
+                        description: 'Anúncio adicionado aos favoritos',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    200: {
+                        description: 'O anúncio já estava nos favoritos',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Favorites'],
+                summary: 'Remover dos favoritos',
+                description: 'Remove o anúncio dos favoritos do usuário',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'vehicleId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Anúncio removido dos favoritos',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'O anúncio não está nos favoritos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/saved-searches': {
+            get: {
+                tags: ['Saved Searches'],
+                summary: 'Listar buscas salvas',
+                description: 'Buscas salvas do usuário, das mais recentes para as mais antigas',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Buscas salvas',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        savedSearches: { type: 'array', items: { $ref: '#/components/schemas/SavedSearch' } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                tags: ['Saved Searches'],
+                summary: 'Salvar busca',
+                description: 'Salva parâmetros de /vehicles/search com um nome e a frequência do alerta por e-mail. Os alertas trazem os anúncios publicados desde o envio anterior que correspondem à busca (até 20 buscas por usuário). Os textos são buscados literalmente; filtros numéricos precisam ser números',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['name', 'query'],
+                                properties: {
+                                    name: { type: 'string' },
+                                    query: { type: 'object', additionalProperties: { type: 'string' }, example: { brand: 'Honda', maxPrice: '90000' } },
+                                    frequency: { type: 'string', enum: ['instant', 'daily', 'weekly'], default: 'daily' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Busca salva',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        savedSearch: { $ref: '#/components/schemas/SavedSearch' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Limite de buscas salvas atingido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/saved-searches/{id}': {
+            put: {
+                tags: ['Saved Searches'],
+                summary: 'Atualizar busca salva',
+                description: 'Altera o nome, os parâmetros ou a frequência do alerta; apenas os campos enviados são alterados',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da busca salva',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                properties: {
+                                    name: { type: 'string' },
+                                    query: { type: 'object', additionalProperties: { type: 'string' }, example: { brand: 'Honda', maxPrice: '90000' } },
+                                    frequency: { type: 'string', enum: ['instant', 'daily', 'weekly'] },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Busca salva atualizada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        savedSearch: { $ref: '#/components/schemas/SavedSearch' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Busca salva não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Saved Searches'],
+                summary: 'Excluir busca salva',
+                description: 'Exclui a busca salva e interrompe os alertas',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da busca salva',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Busca salva excluída',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Busca salva não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations': {
+            get: {
+                tags: ['Messages'],
+                summary: 'Caixa de entrada',
+                description: 'Conversas do usuário como comprador e como vendedor, da mais recente para a mais antiga, com as mensagens não lidas de cada uma',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 50, default: 20 },
+                        description: 'Itens por página',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Conversas do usuário',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        conversations: { type: 'array', items: { $ref: '#/components/schemas/ConversationSummary' } },
+                                        unreadCount: { type: 'integer', description: 'Total de mensagens não lidas' },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalConversations: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                tags: ['Messages'],
+                summary: 'Enviar mensagem sobre um anúncio',
+                description: 'Inicia a conversa com o dono do anúncio (ou continua a já existente). O destinatário é avisado por e-mail quando não tinha mensagens não lidas na conversa. Exige e-mail verificado',
+                security: [{ bearerAuth: [] }],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['vehicleId', 'text'],
+                                properties: {
+                                    vehicleId: { type: 'string' },
+                                    text: { type: 'string', maxLength: 2000 },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Conversa iniciada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        conversationId: { type: 'string' },
+                                        message: { $ref: '#/components/schemas/Message' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    200: {
+                        description: 'Mensagem adicionada à conversa já existente',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        conversationId: { type: 'string' },
+                                        message: { $ref: '#/components/schemas/Message' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação ou anúncio do próprio usuário',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'E-mail não verificado ou usuário bloqueado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations/unread-count': {
+            get: {
+                tags: ['Messages'],
+                summary: 'Mensagens não lidas',
+                description: 'Total de mensagens não lidas em todas as conversas do usuário',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Total de mensagens não lidas',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        unreadCount: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations/blocks': {
+            get: {
+                tags: ['Messages'],
+                summary: 'Usuários bloqueados',
+                description: 'Usuários bloqueados pelo usuário autenticado',
+                security: [{ bearerAuth: [] }],
+                responses: {
+                    200: {
+                        description: 'Usuários bloqueados',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        blockedUsers: { type: 'array', items: { type: 'object', properties: { user: { type: 'object' }, blockedAt: { type: 'string', format: 'date-time' } } } },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations/blocks/{userId}': {
+            post: {
+                tags: ['Messages'],
+                summary: 'Bloquear usuário',
+                description: 'Impede a troca de mensagens com o usuário nos dois sentidos',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'userId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Usuário bloqueado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Não é possível bloquear a si mesmo',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Usuário não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            delete: {
+                tags: ['Messages'],
+                summary: 'Desbloquear usuário',
+                description: 'Remove o bloqueio',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'userId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do usuário',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Usuário desbloqueado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Este usuário não está bloqueado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations/{id}/messages': {
+            get: {
+                tags: ['Messages'],
+                summary: 'Mensagens da conversa',
+                description: 'Mensagens da conversa, das mais recentes para as mais antigas. Disponível apenas para o comprador e o vendedor',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da conversa',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 50, default: 20 },
+                        description: 'Itens por página',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Mensagens da conversa',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        messages: { type: 'array', items: { $ref: '#/components/schemas/Message' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalMessages: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Conversa não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+            post: {
+                tags: ['Messages'],
+                summary: 'Responder na conversa',
+                description: 'Envia uma mensagem ao outro participante da conversa',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da conversa',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['text'],
+                                properties: {
+                                    text: { type: 'string', maxLength: 2000 },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Mensagem enviada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { $ref: '#/components/schemas/Message' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Usuário bloqueado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Conversa não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/conversations/{id}/read': {
+            post: {
+                tags: ['Messages'],
+                summary: 'Marcar como lida',
+                description: 'Zera as mensagens não lidas do usuário na conversa',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da conversa',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Conversa marcada como lida',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        unreadCount: { type: 'integer', description: 'Total restante em todas as conversas' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Conversa não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/reviews/seller/{sellerId}': {
+            get: {
+                tags: ['Reviews'],
+                summary: 'Avaliações do vendedor',
+                description: 'Lista as avaliações publicadas do vendedor, com a média e as respostas do vendedor.',
+                parameters: [
+                    {
+                        name: 'sellerId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do vendedor',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', default: 10 },
+                        description: 'Itens por página (máximo 50)',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Avaliações do vendedor',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        rating: { $ref: '#/components/schemas/RatingStats' },
+                                        reviews: { type: 'array', items: { $ref: '#/components/schemas/Review' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalReviews: { type: 'integer' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Vendedor não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/reviews/{id}/reply': {
+            post: {
+                tags: ['Reviews'],
+                summary: 'Responder avaliação',
+                description: 'Publica a resposta do vendedor avaliado. Cada avaliação aceita uma única resposta.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da avaliação',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['text'],
+                                properties: {
+                                    text: { type: 'string', maxLength: 1000 },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Resposta publicada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        review: { $ref: '#/components/schemas/Review' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Avaliação não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Avaliação já respondida',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/reviews/{id}/report': {
+            post: {
+                tags: ['Reviews'],
+                summary: 'Denunciar avaliação',
+                description: 'Envia uma avaliação abusiva para a moderação.',
+                security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da avaliação',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['reason'],
+                                properties: {
+                                    reason: { type: 'string', maxLength: 500 },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    201: {
+                        description: 'Denúncia enviada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Avaliação não encontrada',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Avaliação já denunciada pelo usuário',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/publish': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Publicar rascunho',
+                description: 'Publica um anúncio em rascunho (draft → active). Exige e-mail verificado',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Anúncio publicado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
                                 },
                             },
                         },
                     },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado ou sem permissão',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Transição não permitida a partir do status atual',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                 },
+            },
+        },
+        '/vehicles/{id}/pause': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Pausar anúncio',
+                description: 'Retira temporariamente um anúncio ativo das listagens públicas (active → paused)',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
                 responses: {
-                    201: {
-                        description: 'Veículo criado com sucesso',
+                    200: {
+                        description: 'Anúncio pausado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado ou sem permissão',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Transição não permitida a partir do status atual',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/sell': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Marcar como vendido',
+                description: 'Registra a venda com o preço final e a data (padrão: agora). A página do anúncio continua acessível com status sold',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['soldPrice'],
+                                properties: {
+                                    soldPrice: { type: 'number', minimum: 0 },
+                                    soldAt: { type: 'string', format: 'date-time' },
+                                },
+                            },
+                        },
+                    },
+                },
+                responses: {
+                    200: {
+                        description: 'Venda registrada',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    400: {
+                        description: 'Erro de validação',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado ou sem permissão',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Transição não permitida a partir do status atual',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/reactivate': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Reativar anúncio',
+                description: 'Volta a exibir um anúncio pausado ou expirado (paused/expired → active). Exige e-mail verificado',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Anúncio reativado',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        message: { type: 'string' },
+                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado ou sem permissão',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    409: {
+                        description: 'Transição não permitida a partir do status atual',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    500: {
+                        description: 'Erro interno do servidor',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+        '/vehicles/{id}/renew': {
+            post: {
+                tags: ['Vehicles'],
+                summary: 'Renovar anúncio',
+                description: 'Inicia um novo período de validade para um anúncio ativo ou expirado (60 dias para anunciantes particulares, 90 para lojas)',
+                security: [{ bearerAuth: [] }, { apiKeyAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Anúncio renovado',
                         content: {
                             'application/json': {
                                 schema: {
@@ -486,16 +5600,24 @@ export const openApiSpec = {
                             },
                         },
                     },
-                    400: {
-                        description: 'Dados inválidos',
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado ou sem permissão',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
-                    401: {
-                        description: 'Não autorizado',
+                    409: {
+                        description: 'O anúncio não está ativo nem expirado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -513,54 +5635,38 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/search': {
-            get: {
+        '/vehicles/renew/{token}': {
+            post: {
                 tags: ['Vehicles'],
-                summary: 'Buscar veículos',
-                description: 'Busca veículos por termo de pesquisa',
+                summary: 'Renovar anúncio pelo link do lembrete',
+                description: 'Renovação em um clique pelo link enviado por e-mail 7 dias e 1 dia antes do vencimento. Não exige login; o link é de uso único',
                 parameters: [
                     {
-                        name: 'q',
-                        in: 'query',
+                        name: 'token',
+                        in: 'path',
                         required: true,
                         schema: { type: 'string' },
-                        description: 'Termo de busca',
-                    },
-                    {
-                        name: 'page',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, default: 1 },
-                        description: 'Número da página',
-                    },
-                    {
-                        name: 'limit',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
-                        description: 'Itens por página',
+                        description: 'Token do link de renovação',
                     },
                 ],
                 responses: {
                     200: {
-                        description: 'Resultados da busca',
+                        description: 'Anúncio renovado',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        vehicles: {
-                                            type: 'array',
-                                            items: { $ref: '#/components/schemas/Vehicle' },
-                                        },
-                                        currentPage: { type: 'integer' },
-                                        totalPages: { type: 'integer' },
-                                        totalVehicles: { type: 'integer' },
+                                        message: { type: 'string' },
+                                        vehicleId: { type: 'string' },
+                                        expiresAt: { type: 'string', format: 'date-time' },
                                     },
                                 },
                             },
                         },
                     },
                     400: {
-                        description: 'Termo de busca não fornecido',
+                        description: 'Link de renovação inválido ou já utilizado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -578,57 +5684,56 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/by-city-state': {
+        '/vehicles/{id}/price-history': {
             get: {
                 tags: ['Vehicles'],
-                summary: 'Buscar veículos por cidade e estado',
-                description: 'Retorna veículos filtrados por cidade e estado',
+                summary: 'Histórico de preços',
+                description: 'Retorna todas as alterações de preço do anúncio, do preço inicial à mais recente',
                 parameters: [
                     {
-                        name: 'city',
-                        in: 'query',
-                        schema: { type: 'string' },
-                        description: 'Cidade',
-                    },
-                    {
-                        name: 'state',
-                        in: 'query',
+                        name: 'id',
+                        in: 'path',
+                        required: true,
                         schema: { type: 'string' },
-                        description: 'Estado',
-                    },
-                    {
-                        name: 'page',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, default: 1 },
-                        description: 'Número da página',
-                    },
-                    {
-                        name: 'limit',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
-                        description: 'Itens por página',
+                        description: 'ID do veículo',
                     },
                 ],
                 responses: {
                     200: {
-                        description: 'Veículos encontrados',
+                        description: 'Histórico de preços',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        vehicles: {
+                                        vehicleId: { type: 'string' },
+                                        currentPrice: { type: 'number' },
+                                        previousPrice: { type: 'number', nullable: true },
+                                        priceDroppedAt: { type: 'string', format: 'date-time', nullable: true },
+                                        history: {
                                             type: 'array',
-                                            items: { $ref: '#/components/schemas/Vehicle' },
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    price: { type: 'number' },
+                                                    previousPrice: { type: 'number', description: 'Ausente no preço inicial' },
+                                                    created_at: { type: 'string', format: 'date-time' },
+                                                },
+                                            },
                                         },
-                                        currentPage: { type: 'integer' },
-                                        totalPages: { type: 'integer' },
-                                        totalVehicles: { type: 'integer' },
                                     },
                                 },
                             },
                         },
                     },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     500: {
                         description: 'Erro interno do servidor',
                         content: {
@@ -640,14 +5745,16 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/{id}': {
+
+        // Image routes
+        '/images/{vehicleId}': {
             get: {
-                tags: ['Vehicles'],
-                summary: 'Buscar veículo por ID',
-                description: 'Retorna os detalhes de um veículo específico',
+                tags: ['Images'],
+                summary: 'Listar imagens de um veículo',
+                description: 'Retorna todas as imagens associadas a um veículo específico',
                 parameters: [
                     {
-                        name: 'id',
+                        name: 'vehicleId',
                         in: 'path',
                         required: true,
                         schema: { type: 'string' },
@@ -656,13 +5763,16 @@ export const openApiSpec = {
                 ],
                 responses: {
                     200: {
-                        description: 'Veículo encontrado',
+                        description: 'Imagens retornadas com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                        images: {
+                                            type: 'array',
+                                            items: { $ref: '#/components/schemas/Image' },
+                                        },
                                     },
                                 },
                             },
@@ -686,83 +5796,84 @@ export const openApiSpec = {
                     },
                 },
             },
-            put: {
-                tags: ['Vehicles'],
-                summary: 'Atualizar veículo',
-                description: 'Atualiza os dados de um veículo (requer autenticação e propriedade)',
-                security: [{ bearerAuth: [] }],
+        },
+        '/images/{vehicleId}/first': {
+            get: {
+                tags: ['Images'],
+                summary: 'Obter primeira imagem do veículo',
+                description: 'Retorna a primeira imagem de um veículo específico',
                 parameters: [
                     {
-                        name: 'id',
+                        name: 'vehicleId',
                         in: 'path',
                         required: true,
                         schema: { type: 'string' },
                         description: 'ID do veículo',
                     },
                 ],
-                requestBody: {
-                    required: true,
-                    content: {
-                        'application/json': {
-                            schema: {
-                                type: 'object',
-                                properties: {
-                                    title: { type: 'string' },
-                                    brand: { type: 'string' },
-                                    vehicleModel: { type: 'string' },
-                                    engine: { type: 'string' },
-                                    year: { type: 'number' },
-                                    price: { type: 'number' },
-                                    mileage: { type: 'number' },
-                                    state: { type: 'string' },
-                                    city: { type: 'string' },
-                                    fuel: { type: 'string' },
-                                    transmission: { type: 'string' },
-                                    bodyType: { type: 'string' },
-                                    color: { type: 'string' },
-                                    description: { type: 'string' },
-                                    features: { type: 'array', items: { type: 'string' } },
-                                    announcerName: { type: 'string' },
-                                    announcerEmail: { type: 'string', format: 'email' },
-                                    announcerPhone: { type: 'string' },
-                                },
-                            },
-                        },
-                    },
-                },
                 responses: {
                     200: {
-                        description: 'Veículo atualizado com sucesso',
+                        description: 'Primeira imagem retornada com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        message: { type: 'string' },
-                                        vehicle: { $ref: '#/components/schemas/Vehicle' },
+                                        image: { $ref: '#/components/schemas/Image' },
                                     },
                                 },
                             },
                         },
                     },
-                    400: {
-                        description: 'Dados inválidos',
+                    404: {
+                        description: 'Veículo ou imagem não encontrada',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
-                    401: {
-                        description: 'Não autorizado',
+                    500: {
+                        description: 'Erro interno do servidor',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
+                },
+            },
+        },
+        '/images/image/{imageId}': {
+            get: {
+                tags: ['Images'],
+                summary: 'Obter imagem por ID',
+                description: 'Retorna os detalhes de uma imagem específica',
+                parameters: [
+                    {
+                        name: 'imageId',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID da imagem',
+                    },
+                ],
+                responses: {
+                    200: {
+                        description: 'Imagem retornada com sucesso',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        image: { $ref: '#/components/schemas/Image' },
+                                    },
+                                },
+                            },
+                        },
+                    },
                     404: {
-                        description: 'Veículo não encontrado',
+                        description: 'Imagem não encontrada',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -779,34 +5890,72 @@ export const openApiSpec = {
                     },
                 },
             },
-            delete: {
-                tags: ['Vehicles'],
-                summary: 'Excluir veículo',
-                description: 'Remove um veículo do sistema (requer autenticação e propriedade)',
+        },
+
+        // Admin routes
+        '/admin/users': {
+            get: {
+                tags: ['Admin'],
+                summary: 'Listar e buscar usuários',
+                description: 'Lista usuários com busca por nome, e-mail ou telefone e filtros por papel e status (requer papel admin ou moderator)',
                 security: [{ bearerAuth: [] }],
                 parameters: [
                     {
-                        name: 'id',
-                        in: 'path',
-                        required: true,
+                        name: 'q',
+                        in: 'query',
                         schema: { type: 'string' },
-                        description: 'ID do veículo',
+                        description: 'Texto buscado em nome, e-mail e telefone',
+                    },
+                    {
+                        name: 'role',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['user', 'moderator', 'admin'] },
+                        description: 'Filtra por papel',
+                    },
+                    {
+                        name: 'status',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['active', 'suspended', 'banned'] },
+                        description: 'Filtra por status da conta',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+                        description: 'Itens por página',
                     },
                 ],
                 responses: {
                     200: {
-                        description: 'Veículo excluído com sucesso',
+                        description: 'Usuários retornados com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        message: { type: 'string' },
+                                        users: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalUsers: { type: 'integer' },
                                     },
                                 },
                             },
                         },
                     },
+                    400: {
+                        description: 'Filtro de papel ou status inválido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     401: {
                         description: 'Não autorizado',
                         content: {
@@ -815,8 +5964,8 @@ export const openApiSpec = {
                             },
                         },
                     },
-                    404: {
-                        description: 'Veículo não encontrado',
+                    403: {
+                        description: 'Permissão insuficiente',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -834,11 +5983,11 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/{id}/my-vehicles': {
+        '/admin/users/{id}': {
             get: {
-                tags: ['Vehicles'],
-                summary: 'Listar veículos do usuário',
-                description: 'Retorna todos os veículos de um usuário específico (requer autenticação)',
+                tags: ['Admin'],
+                summary: 'Obter usuário',
+                description: 'Retorna os dados de um usuário e a quantidade de veículos anunciados (requer papel admin ou moderator)',
                 security: [{ bearerAuth: [] }],
                 parameters: [
                     {
@@ -848,33 +5997,16 @@ export const openApiSpec = {
                         schema: { type: 'string' },
                         description: 'ID do usuário',
                     },
-                    {
-                        name: 'page',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, default: 1 },
-                        description: 'Número da página',
-                    },
-                    {
-                        name: 'limit',
-                        in: 'query',
-                        schema: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
-                        description: 'Itens por página',
-                    },
                 ],
                 responses: {
                     200: {
-                        description: 'Veículos do usuário retornados com sucesso',
+                        description: 'Usuário retornado com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
-                                    properties: {
-                                        vehicles: {
-                                            type: 'array',
-                                            items: { $ref: '#/components/schemas/Vehicle' },
-                                        },
-                                        currentPage: { type: 'integer' },
-                                        totalPages: { type: 'integer' },
+                                    properties: {
+                                        user: { $ref: '#/components/schemas/User' },
                                         totalVehicles: { type: 'integer' },
                                     },
                                 },
@@ -889,6 +6021,22 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    403: {
+                        description: 'Permissão insuficiente',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Usuário não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     500: {
                         description: 'Erro interno do servidor',
                         content: {
@@ -900,11 +6048,11 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/{id}/images': {
-            post: {
-                tags: ['Vehicles'],
-                summary: 'Upload de imagens',
-                description: 'Faz upload de imagens para um veículo específico (requer autenticação e propriedade)',
+        '/admin/users/{id}/status': {
+            put: {
+                tags: ['Admin'],
+                summary: 'Suspender, banir ou reativar conta',
+                description: 'Altera o status da conta. Banimentos exigem papel admin; moderadores só podem agir sobre usuários comuns. Contas suspensas ou banidas têm todas as sessões revogadas',
                 security: [{ bearerAuth: [] }],
                 parameters: [
                     {
@@ -912,21 +6060,20 @@ export const openApiSpec = {
                         in: 'path',
                         required: true,
                         schema: { type: 'string' },
-                        description: 'ID do veículo',
+                        description: 'ID do usuário',
                     },
                 ],
                 requestBody: {
                     required: true,
                     content: {
-                        'multipart/form-data': {
+                        'application/json': {
                             schema: {
                                 type: 'object',
+                                required: ['status'],
                                 properties: {
-                                    images: {
-                                        type: 'array',
-                                        items: { type: 'string', format: 'binary' },
-                                        description: 'Arquivos de imagem (máximo 10 imagens)',
-                                    },
+                                    status: { type: 'string', enum: ['active', 'suspended', 'banned'] },
+                                    reason: { type: 'string', example: 'Anúncios fraudulentos' },
+                                    suspendedUntil: { type: 'string', format: 'date-time' },
                                 },
                             },
                         },
@@ -934,24 +6081,21 @@ export const openApiSpec = {
                 },
                 responses: {
                     200: {
-                        description: 'Imagens enviadas com sucesso',
+                        description: 'Status atualizado com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
                                         message: { type: 'string' },
-                                        images: {
-                                            type: 'array',
-                                            items: { $ref: '#/components/schemas/Image' },
-                                        },
+                                        user: { $ref: '#/components/schemas/User' },
                                     },
                                 },
                             },
                         },
                     },
                     400: {
-                        description: 'Dados inválidos ou limite de imagens excedido',
+                        description: 'Dados inválidos',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -966,8 +6110,16 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    403: {
+                        description: 'Permissão insuficiente',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     404: {
-                        description: 'Veículo não encontrado',
+                        description: 'Usuário não encontrado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -985,11 +6137,11 @@ export const openApiSpec = {
                 },
             },
         },
-        '/vehicles/{id}/images/{imageId}': {
-            delete: {
-                tags: ['Vehicles'],
-                summary: 'Excluir imagem',
-                description: 'Remove uma imagem específica de um veículo (requer autenticação e propriedade)',
+        '/admin/users/{id}/roles': {
+            put: {
+                tags: ['Admin'],
+                summary: 'Alterar papéis do usuário',
+                description: 'Define os papéis do usuário (requer papel admin)',
                 security: [{ bearerAuth: [] }],
                 parameters: [
                     {
@@ -997,30 +6149,46 @@ export const openApiSpec = {
                         in: 'path',
                         required: true,
                         schema: { type: 'string' },
-                        description: 'ID do veículo',
-                    },
-                    {
-                        name: 'imageId',
-                        in: 'path',
-                        required: true,
-                        schema: { type: 'string' },
-                        description: 'ID da imagem',
+                        description: 'ID do usuário',
                     },
                 ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['roles'],
+                                properties: {
+                                    roles: { type: 'array', items: { type: 'string', enum: ['user', 'moderator', 'admin'] } },
+                                },
+                            },
+                        },
+                    },
+                },
                 responses: {
                     200: {
-                        description: 'Imagem excluída com sucesso',
+                        description: 'Papéis atualizados com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
                                         message: { type: 'string' },
+                                        user: { $ref: '#/components/schemas/User' },
                                     },
                                 },
                             },
                         },
                     },
+                    400: {
+                        description: 'Dados inválidos',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     401: {
                         description: 'Não autorizado',
                         content: {
@@ -1029,8 +6197,16 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    403: {
+                        description: 'Permissão insuficiente',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     404: {
-                        description: 'Veículo ou imagem não encontrada',
+                        description: 'Usuário não encontrado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -1048,13 +6224,11 @@ export const openApiSpec = {
                 },
             },
         },
-
-        // User routes
-        '/user/{id}/update': {
+        '/admin/users/{id}/listing-tier': {
             put: {
-                tags: ['Users'],
-                summary: 'Atualizar perfil do usuário',
-                description: 'Atualiza os dados do perfil de um usuário (requer autenticação)',
+                tags: ['Admin'],
+                summary: 'Alterar perfil de anunciante',
+                description: 'Define o perfil de anunciante do usuário, que determina a validade dos anúncios publicados, reativados ou renovados a partir de então (requer papel admin). Os dias de validade por perfil são configurados em LISTING_EXPIRY_DAYS.',
                 security: [{ bearerAuth: [] }],
                 parameters: [
                     {
@@ -1071,12 +6245,9 @@ export const openApiSpec = {
                         'application/json': {
                             schema: {
                                 type: 'object',
+                                required: ['listingTier'],
                                 properties: {
-                                    username: { type: 'string', example: 'João Silva Atualizado' },
-                                    email: { type: 'string', format: 'email', example: 'joao.atualizado@example.com' },
-                                    phone: { type: 'string', example: '+55 (11) 98765-4321' },
-                                    city: { type: 'string', example: 'São Paulo' },
-                                    state: { type: 'string', example: 'SP' },
+                                    listingTier: { type: 'string', enum: ['individual', 'dealer'] },
                                 },
                             },
                         },
@@ -1084,7 +6255,7 @@ export const openApiSpec = {
                 },
                 responses: {
                     200: {
-                        description: 'Perfil atualizado com sucesso',
+                        description: 'Perfil de anunciante atualizado com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
@@ -1113,6 +6284,14 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    403: {
+                        description: 'Permissão insuficiente',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     404: {
                         description: 'Usuário não encontrado',
                         content: {
@@ -1132,15 +6311,24 @@ export const openApiSpec = {
                 },
             },
         },
-        '/user/delete': {
+        '/admin/vehicles/{id}': {
             delete: {
-                tags: ['Users'],
-                summary: 'Excluir conta do usuário',
-                description: 'Remove permanentemente a conta do usuário e todos os seus dados (requer autenticação)',
+                tags: ['Admin'],
+                summary: 'Excluir qualquer veículo',
+                description: 'Exclui um veículo de qualquer usuário, incluindo as imagens no Cloudinary (requer papel admin ou moderator)',
                 security: [{ bearerAuth: [] }],
+                parameters: [
+                    {
+                        name: 'id',
+                        in: 'path',
+                        required: true,
+                        schema: { type: 'string' },
+                        description: 'ID do veículo',
+                    },
+                ],
                 responses: {
                     200: {
-                        description: 'Conta excluída com sucesso',
+                        description: 'Veículo excluído com sucesso',
                         content: {
                             'application/json': {
                                 schema: {
@@ -1160,6 +6348,22 @@ export const openApiSpec = {
                             },
                         },
                     },
+                    403: {
+                        description: 'Permissão insuficiente',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    404: {
+                        description: 'Veículo não encontrado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
                     500: {
                         description: 'Erro interno do servidor',
                         content: {
@@ -1172,40 +6376,68 @@ export const openApiSpec = {
             },
         },
 
-        // Image routes
-        '/images/{vehicleId}': {
+        // Well-known routes
+        '/admin/review-reports': {
             get: {
-                tags: ['Images'],
-                summary: 'Listar imagens de um veículo',
-                description: 'Retorna todas as imagens associadas a um veículo específico',
+                tags: ['Admin'],
+                summary: 'Denúncias de avaliações',
+                description: 'Lista as denúncias de avaliações, das mais antigas para as mais recentes (requer papel admin ou moderator)',
+                security: [{ bearerAuth: [] }],
                 parameters: [
                     {
-                        name: 'vehicleId',
-                        in: 'path',
-                        required: true,
-                        schema: { type: 'string' },
-                        description: 'ID do veículo',
+                        name: 'status',
+                        in: 'query',
+                        schema: { type: 'string', enum: ['open', 'dismissed', 'actioned'], default: 'open' },
+                        description: 'Status das denúncias',
+                    },
+                    {
+                        name: 'page',
+                        in: 'query',
+                        schema: { type: 'integer', default: 1 },
+                        description: 'Número da página',
+                    },
+                    {
+                        name: 'limit',
+                        in: 'query',
+                        schema: { type: 'integer', default: 20 },
+                        description: 'Itens por página (máximo 100)',
                     },
                 ],
                 responses: {
                     200: {
-                        description: 'Imagens retornadas com sucesso',
+                        description: 'Denúncias',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        images: {
-                                            type: 'array',
-                                            items: { $ref: '#/components/schemas/Image' },
-                                        },
+                                        reports: { type: 'array', items: { type: 'object' } },
+                                        currentPage: { type: 'integer' },
+                                        totalPages: { type: 'integer' },
+                                        totalReports: { type: 'integer' },
                                     },
                                 },
                             },
                         },
                     },
-                    404: {
-                        description: 'Veículo não encontrado',
+                    400: {
+                        description: 'Status inválido',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    401: {
+                        description: 'Não autorizado',
+                        content: {
+                            'application/json': {
+                                schema: { $ref: '#/components/schemas/Error' },
+                            },
+                        },
+                    },
+                    403: {
+                        description: 'Permissão insuficiente',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -1223,83 +6455,76 @@ export const openApiSpec = {
                 },
             },
         },
-        '/images/{vehicleId}/first': {
-            get: {
-                tags: ['Images'],
-                summary: 'Obter primeira imagem do veículo',
-                description: 'Retorna a primeira imagem de um veículo específico',
+        '/admin/review-reports/{id}': {
+            put: {
+                tags: ['Admin'],
+                summary: 'Analisar denúncia de avaliação',
+                description: 'Descarta a denúncia ou oculta a avaliação denunciada. Ocultar encerra todas as denúncias abertas da avaliação, que deixa de aparecer e de contar na média do vendedor (requer papel admin ou moderator)',
+                security: [{ bearerAuth: [] }],
                 parameters: [
                     {
-                        name: 'vehicleId',
+                        name: 'id',
                         in: 'path',
                         required: true,
                         schema: { type: 'string' },
-                        description: 'ID do veículo',
+                        description: 'ID da denúncia',
                     },
                 ],
+                requestBody: {
+                    required: true,
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'object',
+                                required: ['action'],
+                                properties: {
+                                    action: { type: 'string', enum: ['dismiss', 'hide_review'] },
+                                    reason: { type: 'string' },
+                                },
+                            },
+                        },
+                    },
+                },
                 responses: {
                     200: {
-                        description: 'Primeira imagem retornada com sucesso',
+                        description: 'Denúncia analisada',
                         content: {
                             'application/json': {
                                 schema: {
                                     type: 'object',
                                     properties: {
-                                        image: { $ref: '#/components/schemas/Image' },
+                                        message: { type: 'string' },
                                     },
                                 },
                             },
                         },
                     },
-                    404: {
-                        description: 'Veículo ou imagem não encontrada',
+                    400: {
+                        description: 'Erro de validação',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
-                    500: {
-                        description: 'Erro interno do servidor',
+                    401: {
+                        description: 'Não autorizado',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
-                },
-            },
-        },
-        '/images/image/{imageId}': {
-            get: {
-                tags: ['Images'],
-                summary: 'Obter imagem por ID',
-                description: 'Retorna os detalhes de uma imagem específica',
-                parameters: [
-                    {
-                        name: 'imageId',
-                        in: 'path',
-                        required: true,
-                        schema: { type: 'string' },
-                        description: 'ID da imagem',
-                    },
-                ],
-                responses: {
-                    200: {
-                        description: 'Imagem retornada com sucesso',
+                    403: {
+                        description: 'Permissão insuficiente',
                         content: {
                             'application/json': {
-                                schema: {
-                                    type: 'object',
-                                    properties: {
-                                        image: { $ref: '#/components/schemas/Image' },
-                                    },
-                                },
+                                schema: { $ref: '#/components/schemas/Error' },
                             },
                         },
                     },
                     404: {
-                        description: 'Imagem não encontrada',
+                        description: 'Denúncia não encontrada ou já analisada',
                         content: {
                             'application/json': {
                                 schema: { $ref: '#/components/schemas/Error' },
@@ -1317,5 +6542,43 @@ export const openApiSpec = {
                 },
             },
         },
+        '/.well-known/jwks.json': {
+            get: {
+                tags: ['Well-known'],
+                summary: 'Chaves públicas de assinatura (JWKS)',
+                description: 'Retorna as chaves públicas usadas para verificar os tokens JWT (RS256/ES256), incluindo chaves anteriores ainda aceitas durante a rotação. O campo kid corresponde ao cabeçalho kid dos tokens.',
+                responses: {
+                    200: {
+                        description: 'Conjunto de chaves públicas',
+                        content: {
+                            'application/json': {
+                                schema: {
+                                    type: 'object',
+                                    properties: {
+                                        keys: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    kty: { type: 'string' },
+                                                    kid: { type: 'string' },
+                                                    alg: { type: 'string' },
+                                                    use: { type: 'string' },
+                                                    n: { type: 'string' },
+                                                    e: { type: 'string' },
+                                                    crv: { type: 'string' },
+                                                    x: { type: 'string' },
+                                                    y: { type: 'string' },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
     },
 };
\ No newline at end of file
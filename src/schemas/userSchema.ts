@@ -28,6 +28,58 @@ export const createUserSchema = z
         city: z.string().min(1, "Campo obrigatório")
     })
 
+// Senha e e-mail não podem ser alterados pela atualização de perfil; use changePasswordSchema e changeEmailSchema
+export const updateUserSchema = createUserSchema.omit({ password: true, email: true }).partial();
+
+export const changeEmailSchema = z.object({
+    newEmail: createUserSchema.shape.email,
+    password: z.string().min(1, "Senha é obrigatória").optional(), // Contas sem senha local (login externo) não informam
+});
+
+export const changePasswordSchema = z.object({
+    currentPassword: z.string().min(1, "Senha atual é obrigatória"),
+    newPassword: createUserSchema.shape.password,
+});
+
 export const forgotPasswordSchema = z.object({
     email: z.string().email("E-mail inválido"),
-});
\ No newline at end of file
+});
+
+export const magicLinkSchema = z.object({
+    email: z.string().email("E-mail inválido"),
+});
+
+export const oidcCallbackSchema = z.object({
+    code: z.string().min(1, "Código de autorização é obrigatório"),
+    state: z.string().min(1, "Parâmetro state é obrigatório"),
+});
+
+export const twoFactorCodeSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos"),
+});
+
+export const phoneVerificationSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos"),
+});
+
+export const twoFactorLoginSchema = z
+    .object({
+        challengeToken: z.string().min(1, "Token de desafio é obrigatório"),
+        code: z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos").optional(),
+        recoveryCode: z.string().min(1, "Código de recuperação inválido").optional(),
+    })
+    .refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+        message: "Informe o código do autenticador ou um código de recuperação",
+        path: ["code"],
+    });
+
+export const disableTwoFactorSchema = z
+    .object({
+        password: z.string().min(1, "Senha é obrigatória").optional(), // Contas sem senha (login externo) confirmam só com o segundo fator
+        code: z.string().regex(/^\d{6}$/, "Código deve ter 6 dígitos").optional(),
+        recoveryCode: z.string().min(1, "Código de recuperação inválido").optional(),
+    })
+    .refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+        message: "Informe o código do autenticador ou um código de recuperação",
+        path: ["code"],
+    });
@@ -21,3 +21,17 @@ export const vehicleSchema = z.object({
     announcerEmail: z.string().min(1, "E-mail do anunciante é obrigatório").max(150, "E-mail do anunciante muito longo").email("E-mail do anunciante inválido"),
     announcerPhone: z.string().min(1, "Telefone do anunciante é obrigatório").min(10, "Telefone do anunciante inválido (mínimo 10 caracteres)").max(11, "Telefone do anunciante inválido (máximo 11 caracteres)"),
 });
+
+export const contactSellerSchema = z.object({
+    message: z.string().min(1, "Mensagem é obrigatória").max(1000, "Mensagem muito longa"),
+});
+
+// Na criação o anúncio pode ser salvo como rascunho; depois, o status muda apenas pelas rotas de transição
+export const createVehicleSchema = vehicleSchema.extend({
+    status: z.enum(['draft', 'active'], "Status inicial inválido").optional(),
+});
+
+export const sellVehicleSchema = z.object({
+    soldPrice: z.number().min(0, "Preço de venda inválido"),
+    soldAt: z.coerce.date("Data da venda inválida").optional(),
+});
@@ -0,0 +1,215 @@
+import User, { User as UserDocument } from '../models/User';
+import Vehicle from '../models/Vehicle';
+import Session from '../models/Session';
+import RevokedToken from '../models/RevokedToken';
+import ApiKey from '../models/ApiKey';
+import PhoneVerification from '../models/PhoneVerification';
+import EmailChange from '../models/EmailChange';
+import OrganizationInvitation from '../models/OrganizationInvitation';
+import Contact from '../models/Contact';
+import Favorite from '../models/Favorite';
+import SavedSearch from '../models/SavedSearch';
+import Conversation from '../models/Conversation';
+import Message from '../models/Message';
+import Block from '../models/Block';
+import Review from '../models/Review';
+import ReviewReport from '../models/ReviewReport';
+import { purgeVehicle } from './vehicleService';
+import { destroyCloudinaryAsset } from './imageUploadService';
+import { releaseOrganizationMemberships } from './organizationService';
+import { revokeAllUserTokens } from './tokenRevocationService';
+import { revokeAllApiKeys } from './apiKeyService';
+import { sendMailWithRetry } from './emailService';
+import { deleteDataExports } from './dataExportService';
+import { Clock, systemClock } from '../jobs/scheduler';
+
+export const ACCOUNT_DELETION_GRACE_PERIOD_MS = 30 * 24 * 60 * 60 * 1000; // 30 dias para desistir da exclusão
+
+export const getAccountDeletionDate = (requestedAt: Date) => new Date(requestedAt.getTime() + ACCOUNT_DELETION_GRACE_PERIOD_MS);
+
+const formatDate = (date: Date) => date.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+/**
+ * Cada etapa remove um tipo de registro ligado ao usuário e devolve quantos foram removidos.
+ */
+export interface AccountPurgeStep {
+    name: string;
+    purge(userId: string): Promise<number>;
+}
+
+export const ACCOUNT_PURGE_STEPS: AccountPurgeStep[] = [
+    // Antes dos veículos: os anúncios de loja criados pelo usuário passam para outro membro
+    { name: 'organizationMemberships', purge: releaseOrganizationMemberships },
+    {
+        // Convites de organização endereçados ao e-mail do usuário (guardado em minúsculas no convite)
+        name: 'organizationInvitations',
+        purge: async userId => {
+            const user = await User.findById(userId).select('email');
+            if (!user) {
+                return 0;
+            }
+            return (await OrganizationInvitation.deleteMany({ email: user.email.toLowerCase() })).deletedCount;
+        },
+    },
+    {
+        // Veículos com as imagens no Cloudinary (pasta vehicles/<id>) e os registros de Image
+        name: 'vehicles',
+        purge: async userId => {
+            const vehicles = await Vehicle.find({ owner_id: userId }).select('_id').lean();
+            let removed = 0;
+            for (const vehicle of vehicles) {
+                if (await purgeVehicle(String(vehicle._id))) {
+                    removed++;
+                }
+            }
+            return removed;
+        },
+    },
+    {
+        // Foto de perfil (pasta avatars/<userId> no Cloudinary)
+        name: 'avatar',
+        purge: async userId => {
+            const user = await User.findById(userId).select('+avatarPublicId');
+            if (!user?.avatarPublicId) {
+                return 0;
+            }
+            await destroyCloudinaryAsset(user.avatarPublicId);
+            return 1;
+        },
+    },
+    { name: 'sessions', purge: async userId => (await Session.deleteMany({ user_id: userId })).deletedCount },
+    { name: 'revokedTokens', purge: async userId => (await RevokedToken.deleteMany({ user_id: userId })).deletedCount },
+    { name: 'apiKeys', purge: async userId => (await ApiKey.deleteMany({ user_id: userId })).deletedCount },
+    { name: 'phoneVerifications', purge: async userId => (await PhoneVerification.deleteMany({ user_id: userId })).deletedCount },
+    { name: 'emailChanges', purge: async userId => (await EmailChange.deleteMany({ user_id: userId })).deletedCount },
+    // Exportações de dados com os arquivos no GridFS
+    { name: 'dataExports', purge: userId => deleteDataExports({ user_id: userId }) },
+    { name: 'favorites', purge: async userId => (await Favorite.deleteMany({ user_id: userId })).deletedCount },
+    { name: 'savedSearches', purge: async userId => (await SavedSearch.deleteMany({ user_id: userId })).deletedCount },
+    {
+        // Conversas de que o usuário participa, com todas as mensagens (a conversa não existe sem um dos lados)
+        name: 'conversations',
+        purge: async userId => {
+            const conversations = await Conversation.find({ $or: [{ buyer_id: userId }, { seller_id: userId }] }).select('_id').lean();
+            const conversationIds = conversations.map(conversation => conversation._id);
+            await Message.deleteMany({ conversation_id: { $in: conversationIds } });
+            return (await Conversation.deleteMany({ _id: { $in: conversationIds } })).deletedCount;
+        },
+    },
+    {
+        name: 'blocks',
+        purge: async userId => (await Block.deleteMany({ $or: [{ blocker_id: userId }, { blocked_id: userId }] })).deletedCount,
+    },
+    {
+        name: 'contacts',
+        purge: async userId => (await Contact.deleteMany({ $or: [{ buyer_id: userId }, { seller_id: userId }] })).deletedCount,
+    },
+    {
+        // Avaliações feitas e recebidas, com as denúncias sobre elas e as feitas pelo usuário
+        name: 'reviews',
+        purge: async userId => {
+            const reviews = await Review.find({ $or: [{ reviewer_id: userId }, { seller_id: userId }] }).select('_id').lean();
+            const reviewIds = reviews.map(review => review._id);
+            await ReviewReport.deleteMany({ $or: [{ review_id: { $in: reviewIds } }, { reporter_id: userId }] });
+            return (await Review.deleteMany({ _id: { $in: reviewIds } })).deletedCount;
+        },
+    },
+];
+
+/**
+ * Inicia o período de carência da exclusão: os anúncios saem do ar, todas as sessões e chaves de API
+ * são revogadas e o usuário é avisado por e-mail. Entrar na conta antes do prazo cancela a exclusão.
+ */
+export const scheduleAccountDeletion = async (user: UserDocument, clock: Clock = systemClock) => {
+    const userId = user._id.toString();
+    const requestedAt = clock.now();
+    const deletionScheduledFor = getAccountDeletionDate(requestedAt);
+
+    await User.updateOne({ _id: userId }, { $set: { deletionRequestedAt: requestedAt, deletionScheduledFor } });
+    // Anúncios de loja continuam no ar: pertencem à organização, não só a este usuário
+    await Vehicle.updateMany({ owner_id: userId, organization_id: null }, { $set: { ownerPendingDeletion: true } });
+    await revokeAllUserTokens(userId, 'account_deletion');
+    await revokeAllApiKeys(userId);
+
+    sendMailWithRetry({
+        to: user.email,
+        subject: '.CARRO: Sua conta será excluída',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Recebemos o pedido de exclusão da sua conta .CARRO. Seus anúncios já foram retirados do ar.</p>
+            <p>A conta e todos os seus dados serão excluídos definitivamente em <b>${formatDate(deletionScheduledFor)}</b>.</p>
+            <p>Mudou de ideia? Basta <a href="${process.env.FRONTEND_DOMAIN}/entrar" style="color: #007bff; text-decoration: none;">entrar na sua conta</a> antes dessa data para cancelar a exclusão.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    }).catch(emailError => console.error('Erro ao enviar e-mail de exclusão agendada:', emailError));
+
+    return deletionScheduledFor;
+};
+
+/**
+ * Cancela uma exclusão pendente e devolve os anúncios às listagens. Retorna false se não havia exclusão agendada.
+ */
+export const cancelAccountDeletion = async (userId: string) => {
+    const user = await User.findOneAndUpdate(
+        { _id: userId, deletionScheduledFor: { $exists: true } },
+        { $unset: { deletionRequestedAt: 1, deletionScheduledFor: 1 } }
+    );
+
+    if (!user) {
+        return false;
+    }
+
+    await Vehicle.updateMany({ owner_id: userId }, { $set: { ownerPendingDeletion: false } });
+    return true;
+};
+
+/**
+ * Exclui definitivamente a conta e todos os registros ligados a ela, enviando o comprovante por e-mail.
+ */
+export const purgeUserAccount = async (user: Pick<UserDocument, '_id' | 'email' | 'username'>, clock: Clock = systemClock) => {
+    const userId = user._id.toString();
+    const removed: Record<string, number> = {};
+
+    for (const step of ACCOUNT_PURGE_STEPS) {
+        removed[step.name] = await step.purge(userId);
+    }
+
+    await User.deleteOne({ _id: userId });
+
+    const deletedAt = clock.now();
+    console.log(`Conta ${userId} excluída definitivamente:`, removed);
+
+    sendMailWithRetry({
+        to: user.email,
+        subject: '.CARRO: Comprovante de exclusão da conta',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Sua conta .CARRO foi excluída definitivamente em ${deletedAt.toLocaleString('pt-BR', { timeZone: 'America/Sao_Paulo' })}.</p>
+            <p>Foram removidos seu perfil, ${removed.vehicles} anúncio(s) com as respectivas imagens, suas sessões, chaves de API e demais dados vinculados à conta.</p>
+            <p>Este e-mail é o comprovante da exclusão. Não é possível recuperar a conta; se quiser voltar a anunciar, crie uma nova conta.</p>
+            <p>Obrigado por ter usado a .CARRO,<br/>Equipe .CARRO</p>
+        `,
+    }).catch(emailError => console.error('Erro ao enviar comprovante de exclusão da conta:', emailError));
+
+    return removed;
+};
+
+/**
+ * Exclui as contas cujo período de carência terminou. Retorna quantas contas foram excluídas.
+ */
+export const purgeDueAccounts = async (clock: Clock = systemClock) => {
+    const dueUsers = await User.find({ deletionScheduledFor: { $lte: clock.now() } }).select('email username');
+
+    let purged = 0;
+    for (const user of dueUsers) {
+        try {
+            await purgeUserAccount(user, clock);
+            purged++;
+        } catch (err) {
+            // Uma conta com erro não impede as demais; ela é tentada de novo na próxima execução
+            console.error(`Erro ao excluir a conta ${user._id}:`, err);
+        }
+    }
+
+    return purged;
+};
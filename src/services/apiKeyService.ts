@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import ApiKey, { ApiKeyScope } from '../models/ApiKey';
+import { hashToken } from './tokenService';
+
+const API_KEY_PREFIX = 'pc_';
+const PREFIX_DISPLAY_LENGTH = 11; // "pc_" + 8 caracteres
+export const MAX_API_KEYS_PER_USER = 10;
+
+// Evita uma escrita no banco a cada requisição de integrações que fazem muitas chamadas seguidas
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export const generateApiKey = () => `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+export const isApiKeyFormat = (value: string) => value.startsWith(API_KEY_PREFIX);
+
+/**
+ * Cria uma chave de API para o usuário. A chave é retornada uma única vez; apenas o hash é armazenado.
+ */
+export const createApiKey = async (userId: string, name: string, scopes: ApiKeyScope[]) => {
+    const key = generateApiKey();
+
+    const apiKey = await ApiKey.create({
+        user_id: userId,
+        name,
+        prefix: key.slice(0, PREFIX_DISPLAY_LENGTH),
+        keyHash: hashToken(key),
+        scopes: Array.from(new Set(scopes)),
+    });
+
+    // O documento recém-criado ainda traz o keyHash (select: false só vale para consultas)
+    const { _id, prefix, created_at } = apiKey;
+    return { key, apiKey: { _id, name: apiKey.name, prefix, scopes: apiKey.scopes, created_at } };
+};
+
+export const listActiveApiKeys = (userId: string) => {
+    return ApiKey.find({ user_id: userId, revokedAt: null }).sort({ created_at: -1 });
+};
+
+export const countActiveApiKeys = (userId: string) => {
+    return ApiKey.countDocuments({ user_id: userId, revokedAt: null });
+};
+
+/**
+ * Revoga uma chave do usuário. Retorna false se a chave não existir, já estiver revogada ou pertencer a outro usuário.
+ */
+export const revokeApiKey = async (keyId: string, userId: string) => {
+    const result = await ApiKey.updateOne(
+        { _id: keyId, user_id: userId, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+    );
+    return result.modifiedCount > 0;
+};
+
+export const revokeAllApiKeys = async (userId: string) => {
+    await ApiKey.updateMany({ user_id: userId, revokedAt: null }, { $set: { revokedAt: new Date() } });
+};
+
+/**
+ * Localiza a chave ativa correspondente e registra o uso. Retorna null para chaves inexistentes ou revogadas.
+ */
+export const findActiveApiKey = async (key: string) => {
+    if (!isApiKeyFormat(key)) {
+        return null;
+    }
+
+    const apiKey = await ApiKey.findOne({ keyHash: hashToken(key), revokedAt: null });
+    if (!apiKey) {
+        return null;
+    }
+
+    const now = new Date();
+    if (!apiKey.last_used_at || now.getTime() - apiKey.last_used_at.getTime() >= LAST_USED_UPDATE_INTERVAL_MS) {
+        await ApiKey.updateOne({ _id: apiKey._id }, { $set: { last_used_at: now } });
+        apiKey.last_used_at = now;
+    }
+
+    return apiKey;
+};
@@ -0,0 +1,184 @@
+/**
+ * Proteção contra força bruta: conta tentativas por conta e por IP e aplica bloqueios com backoff exponencial.
+ * Os contadores ficam em um AttemptStore plugável; a implementação em memória atende uma única instância,
+ * e implantações com várias instâncias podem registrar um store compartilhado com configureAttemptStore.
+ */
+
+export interface AttemptRecord {
+    count: number; // Falhas dentro da janela atual
+    firstAttemptAt: number;
+    lastAttemptAt: number; // O bloqueio é contado a partir da última falha
+}
+
+/**
+ * Stores compartilhados precisam implementar increment de forma atômica (ex.: INCR no Redis, $inc no MongoDB):
+ * com leitura seguida de escrita, tentativas paralelas sobrescreveriam a contagem umas das outras.
+ */
+export interface AttemptStore {
+    get(key: string): Promise<AttemptRecord | null>;
+    // Soma uma falha (criando o registro se preciso), renova a expiração para ttlMs e retorna o registro atualizado
+    increment(key: string, ttlMs: number): Promise<AttemptRecord>;
+    delete(key: string): Promise<void>;
+}
+
+export class MemoryAttemptStore implements AttemptStore {
+    private records = new Map<string, { record: AttemptRecord; expiresAt: number }>();
+
+    constructor(private now: () => number = Date.now) { }
+
+    async get(key: string) {
+        const entry = this.records.get(key);
+        if (!entry) {
+            return null;
+        }
+        if (entry.expiresAt <= this.now()) {
+            this.records.delete(key);
+            return null;
+        }
+        return { ...entry.record };
+    }
+
+    // Sem await entre a leitura e a escrita, o incremento é atômico dentro do processo
+    async increment(key: string, ttlMs: number) {
+        const now = this.now();
+        const entry = this.records.get(key);
+        const record: AttemptRecord = entry && entry.expiresAt > now
+            ? { ...entry.record, count: entry.record.count + 1, lastAttemptAt: now }
+            : { count: 1, firstAttemptAt: now, lastAttemptAt: now };
+
+        this.records.set(key, { record, expiresAt: now + ttlMs });
+        this.sweep();
+        return { ...record };
+    }
+
+    async delete(key: string) {
+        this.records.delete(key);
+    }
+
+    // Remove entradas expiradas de vez em quando para o mapa não crescer indefinidamente
+    private sweep() {
+        if (this.records.size % 1000 !== 0) {
+            return;
+        }
+        const now = this.now();
+        for (const [key, entry] of this.records) {
+            if (entry.expiresAt <= now) {
+                this.records.delete(key);
+            }
+        }
+    }
+}
+
+export interface BruteForcePolicy {
+    freeAttempts: number; // Falhas permitidas antes do primeiro bloqueio
+    baseLockMs: number; // Duração do primeiro bloqueio; dobra a cada nova falha
+    maxLockMs: number;
+    windowMs: number; // Tempo sem falhas após o qual o contador é zerado
+}
+
+export type BruteForceScope = 'login' | 'forgot-password' | 'reset-password' | 'two-factor' | 'magic-link' | 'magic-link-verify';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const BRUTE_FORCE_POLICIES: Record<BruteForceScope, { ip: BruteForcePolicy; account?: BruteForcePolicy }> = {
+    'login': {
+        ip: { freeAttempts: 20, baseLockMs: MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+        account: { freeAttempts: 5, baseLockMs: 30 * 1000, maxLockMs: HOUR, windowMs: HOUR },
+    },
+    // Em forgot-password toda solicitação conta, pois cada uma dispara um e-mail
+    'forgot-password': {
+        ip: { freeAttempts: 10, baseLockMs: 5 * MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+        account: { freeAttempts: 3, baseLockMs: 5 * MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+    },
+    'reset-password': {
+        ip: { freeAttempts: 10, baseLockMs: MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+    },
+    'two-factor': {
+        ip: { freeAttempts: 20, baseLockMs: MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+        account: { freeAttempts: 5, baseLockMs: 30 * 1000, maxLockMs: HOUR, windowMs: HOUR },
+    },
+    // Assim como em forgot-password, toda solicitação de link conta
+    'magic-link': {
+        ip: { freeAttempts: 10, baseLockMs: 5 * MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+        account: { freeAttempts: 3, baseLockMs: 5 * MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+    },
+    'magic-link-verify': {
+        ip: { freeAttempts: 10, baseLockMs: MINUTE, maxLockMs: HOUR, windowMs: HOUR },
+    },
+};
+
+let store: AttemptStore = new MemoryAttemptStore();
+
+export const configureAttemptStore = (newStore: AttemptStore) => {
+    store = newStore;
+};
+
+export const computeLockMs = (count: number, policy: BruteForcePolicy) => {
+    if (count <= policy.freeAttempts) {
+        return 0;
+    }
+    return Math.min(policy.baseLockMs * 2 ** (count - policy.freeAttempts - 1), policy.maxLockMs);
+};
+
+// Único ponto de normalização: e-mails chegam com espaços ou maiúsculas diferentes no middleware e nos controllers
+const attemptKey = (scope: BruteForceScope, kind: 'ip' | 'account', value: string) => `${scope}:${kind}:${value.trim().toLowerCase()}`;
+
+// O registro precisa sobreviver ao bloqueio mais longo e, depois dele, à janela sem falhas
+const attemptTtlMs = (policy: BruteForcePolicy) => policy.maxLockMs + policy.windowMs;
+
+/**
+ * Registra uma falha para a chave e retorna o estado resultante.
+ * firstLock indica que esta falha causou o primeiro bloqueio da janela (usado para avisar o dono da conta uma única vez).
+ */
+export const registerFailure = async (key: string, policy: BruteForcePolicy, now: number = Date.now()) => {
+    const record = await store.increment(key, attemptTtlMs(policy));
+    const lockMs = Math.max(record.lastAttemptAt + computeLockMs(record.count, policy) - now, 0);
+
+    return {
+        count: record.count,
+        retryAfterMs: lockMs,
+        firstLock: record.count === policy.freeAttempts + 1,
+    };
+};
+
+export const getRetryAfterMs = async (key: string, policy: BruteForcePolicy, now: number = Date.now()) => {
+    const record = await store.get(key);
+    if (!record) {
+        return 0;
+    }
+    return Math.max(record.lastAttemptAt + computeLockMs(record.count, policy) - now, 0);
+};
+
+/**
+ * Retorna quanto tempo falta para liberar o escopo para este IP/conta (0 se não houver bloqueio).
+ */
+export const getScopeRetryAfterMs = async (scope: BruteForceScope, ip: string, account?: string) => {
+    const policies = BRUTE_FORCE_POLICIES[scope];
+    const waits = [await getRetryAfterMs(attemptKey(scope, 'ip', ip), policies.ip)];
+    if (account && policies.account) {
+        waits.push(await getRetryAfterMs(attemptKey(scope, 'account', account), policies.account));
+    }
+    return Math.max(...waits);
+};
+
+/**
+ * Registra uma tentativa malsucedida (ou, em escopos como forgot-password, qualquer tentativa) para o IP e a conta.
+ * retryAfterMs é o maior bloqueio entre o do IP e o da conta.
+ */
+export const recordFailedAttempt = async (scope: BruteForceScope, ip: string, account?: string) => {
+    const policies = BRUTE_FORCE_POLICIES[scope];
+    const ipResult = await registerFailure(attemptKey(scope, 'ip', ip), policies.ip);
+
+    if (account && policies.account) {
+        const accountResult = await registerFailure(attemptKey(scope, 'account', account), policies.account);
+        return { accountLocked: accountResult.firstLock, retryAfterMs: Math.max(ipResult.retryAfterMs, accountResult.retryAfterMs) };
+    }
+
+    return { accountLocked: false, retryAfterMs: ipResult.retryAfterMs };
+};
+
+// Após um sucesso, apenas o contador da conta é zerado; o do IP continua valendo para não ser contornado
+export const clearAccountAttempts = async (scope: BruteForceScope, account: string) => {
+    await store.delete(attemptKey(scope, 'account', account));
+};
@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { promisify } from 'util';
+import User from '../models/User';
+import Vehicle from '../models/Vehicle';
+import Image from '../models/Image';
+import PriceHistory from '../models/PriceHistory';
+import Session from '../models/Session';
+import ApiKey from '../models/ApiKey';
+import EmailChange from '../models/EmailChange';
+import PhoneVerification from '../models/PhoneVerification';
+import DataExport from '../models/DataExport';
+import Organization from '../models/Organization';
+import Contact from '../models/Contact';
+import Favorite from '../models/Favorite';
+import SavedSearch from '../models/SavedSearch';
+import Conversation from '../models/Conversation';
+import Message from '../models/Message';
+import Block from '../models/Block';
+import Review from '../models/Review';
+import ReviewReport from '../models/ReviewReport';
+import { hashToken } from './tokenService';
+import { sendMailWithRetry } from './emailService';
+import { saveDataExportFile, deleteDataExportFile } from './dataExportStorage';
+import { Clock, systemClock } from '../jobs/scheduler';
+
+const gzip = promisify(zlib.gzip);
+
+export const DATA_EXPORT_TTL_MS = 48 * 60 * 60 * 1000; // Link de download válido por 48 horas
+export const SYNC_EXPORT_MAX_RECORDS = 500; // Acima disso a exportação é gerada em segundo plano
+// Uma exportação pendente há mais tempo que isso foi interrompida (ex.: reinício do servidor) e é dada como falha
+export const DATA_EXPORT_PENDING_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Segredos e dados internos de autenticação que nunca saem na exportação
+const SECRET_USER_FIELDS = [
+    'password',
+    'passwordHistory',
+    'twoFactorSecret',
+    'twoFactorPendingSecret',
+    'twoFactorRecoveryCodes',
+    'twoFactorLastUsedStep',
+    'resetPasswordToken',
+    'resetPasswordExpires',
+    'magicLinkTokenHash',
+    'magicLinkExpires',
+    'tokensValidAfter',
+    '__v',
+];
+
+export const sanitizeUserProfile = (user: Record<string, any>) => {
+    const profile = { ...user };
+    SECRET_USER_FIELDS.forEach(field => delete profile[field]);
+    return profile;
+};
+
+/**
+ * Cada coletor devolve uma seção da exportação. Novos registros ligados ao usuário devem ganhar um coletor
+ * aqui e uma etapa em ACCOUNT_PURGE_STEPS (accountDeletionService) para que exportação e exclusão continuem completas.
+ */
+export interface DataExportCollector {
+    section: string;
+    collect(userId: string): Promise<unknown>;
+}
+
+const vehicleIdsOf = async (userId: string) => {
+    const vehicles = await Vehicle.find({ owner_id: userId }).select('_id').lean();
+    return vehicles.map(vehicle => vehicle._id);
+};
+
+export const DATA_EXPORT_COLLECTORS: DataExportCollector[] = [
+    {
+        section: 'profile',
+        collect: async userId => {
+            const user = await User.findById(userId).lean();
+            return user ? sanitizeUserProfile(user) : null;
+        },
+    },
+    {
+        section: 'vehicles',
+        collect: userId => Vehicle.find({ owner_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'images',
+        collect: async userId => Image.find({ vehicle_id: { $in: await vehicleIdsOf(userId) } }).select('-__v').lean(),
+    },
+    {
+        section: 'priceHistory',
+        collect: async userId => PriceHistory.find({ vehicle_id: { $in: await vehicleIdsOf(userId) } }).select('-__v').lean(),
+    },
+    {
+        section: 'sessions',
+        collect: userId => Session.find({ user_id: userId }).select('-refreshTokenHash -__v').lean(),
+    },
+    {
+        section: 'apiKeys',
+        collect: userId => ApiKey.find({ user_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'emailChanges',
+        collect: userId => EmailChange.find({ user_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'organizations',
+        collect: async userId => {
+            const organizations = await Organization.find({ 'members.user_id': userId }).lean();
+            // Apenas a participação do próprio usuário, sem os demais membros
+            return organizations.map(({ _id, name, members }) => {
+                const membership = members.find(m => String(m.user_id) === userId);
+                return { _id, name, role: membership?.role, joined_at: membership?.joined_at };
+            });
+        },
+    },
+    {
+        section: 'favorites',
+        collect: userId => Favorite.find({ user_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'savedSearches',
+        collect: userId => SavedSearch.find({ user_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'conversations',
+        collect: userId => Conversation.find({ $or: [{ buyer_id: userId }, { seller_id: userId }] }).select('-__v').lean(),
+    },
+    {
+        // Mensagens das conversas de que o usuário participa (as dele e as recebidas)
+        section: 'messages',
+        collect: async userId => {
+            const conversations = await Conversation.find({ $or: [{ buyer_id: userId }, { seller_id: userId }] }).select('_id').lean();
+            return Message.find({ conversation_id: { $in: conversations.map(conversation => conversation._id) } }).select('-__v').lean();
+        },
+    },
+    {
+        section: 'blockedUsers',
+        collect: userId => Block.find({ blocker_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'contacts',
+        collect: userId => Contact.find({ $or: [{ buyer_id: userId }, { seller_id: userId }] }).select('-__v').lean(),
+    },
+    {
+        section: 'reviewsWritten',
+        collect: userId => Review.find({ reviewer_id: userId }).select('-__v').lean(),
+    },
+    {
+        section: 'reviewsReceived',
+        collect: userId => Review.find({ seller_id: userId }).select('-moderationReason -__v').lean(),
+    },
+    {
+        section: 'reviewReports',
+        collect: userId => ReviewReport.find({ reporter_id: userId }).select('review_id reason status created_at').lean(),
+    },
+    {
+        section: 'phoneVerifications',
+        collect: userId => PhoneVerification.find({ user_id: userId }).select('-codeHash -__v').lean(),
+    },
+];
+
+/**
+ * Estimativa do volume da exportação, usada para decidir entre gerar na hora ou em segundo plano.
+ */
+export const countExportRecords = async (userId: string) => {
+    const vehicleIds = await vehicleIdsOf(userId);
+    return vehicleIds.length + await Image.countDocuments({ vehicle_id: { $in: vehicleIds } });
+};
+
+export const buildDataExport = async (userId: string, collectors: DataExportCollector[] = DATA_EXPORT_COLLECTORS) => {
+    const data: Record<string, unknown> = {};
+    for (const collector of collectors) {
+        data[collector.section] = await collector.collect(userId);
+    }
+    return { generated_at: new Date().toISOString(), user_id: userId, ...data };
+};
+
+export const compressDataExport = async (data: unknown) => gzip(Buffer.from(JSON.stringify(data, null, 2)));
+
+export const dataExportFileName = (userId: string) => `pontocarro-dados-${userId}.json.gz`;
+
+/**
+ * Gera a exportação em segundo plano e envia ao usuário o link de download por e-mail.
+ */
+export const generateDataExport = async (exportId: string) => {
+    const dataExport = await DataExport.findById(exportId);
+    if (!dataExport || dataExport.status !== 'pending') {
+        return;
+    }
+
+    const userId = dataExport.user_id.toString();
+
+    try {
+        const content = await compressDataExport(await buildDataExport(userId));
+        const fileId = await saveDataExportFile(dataExportFileName(userId), content);
+        const downloadToken = crypto.randomBytes(32).toString('hex');
+
+        // Só conclui se ainda estiver pendente: a tarefa de limpeza pode tê-la dado como falha no meio do caminho
+        const completed = await DataExport.updateOne(
+            { _id: dataExport._id, status: 'pending' },
+            {
+                $set: {
+                    status: 'ready',
+                    file_id: fileId,
+                    size: content.length,
+                    downloadTokenHash: hashToken(downloadToken),
+                    completed_at: new Date(),
+                    expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_MS),
+                },
+            }
+        );
+        if (completed.modifiedCount === 0) {
+            await deleteDataExportFile(fileId);
+            return;
+        }
+
+        const user = await User.findById(userId).select('username email');
+        if (user) {
+            const downloadUrl = `${process.env.FRONTEND_DOMAIN}/minha-conta/exportacao/${downloadToken}`;
+            await sendMailWithRetry({
+                to: user.email,
+                subject: '.CARRO: Sua exportação de dados está pronta',
+                html: `
+                    Olá ${user.username || 'usuário'},
+                    <p>A cópia dos seus dados pessoais na .CARRO está pronta.</p>
+                    <h3><a href="${downloadUrl}" style="color: #007bff; text-decoration: none;">Baixar meus dados</a></h3>
+                    <p>Este link é válido por <b>48 horas</b>. Não o compartilhe: o arquivo contém seus dados pessoais.</p>
+                    <p>Obrigado,<br/>Equipe .CARRO</p>
+                `,
+            });
+        }
+    } catch (err) {
+        console.error(`Erro ao gerar a exportação de dados ${exportId}:`, err);
+        await DataExport.updateOne({ _id: dataExport._id }, { $set: { status: 'failed', completed_at: new Date() } });
+    }
+};
+
+export const findDownloadableExport = (downloadToken: string) => {
+    return DataExport.findOne({
+        downloadTokenHash: hashToken(downloadToken),
+        status: 'ready',
+        expiresAt: { $gt: new Date() },
+    });
+};
+
+// Exportações pendentes mais antigas que isso não bloqueiam um novo pedido
+export const getStalePendingCutoff = (clock: Clock = systemClock) => new Date(clock.now().getTime() - DATA_EXPORT_PENDING_TIMEOUT_MS);
+
+/**
+ * Marca como falha as exportações que ficaram pendentes além do prazo. Retorna quantas foram marcadas.
+ */
+export const failStaleDataExports = async (clock: Clock = systemClock) => {
+    const result = await DataExport.updateMany(
+        { status: 'pending', created_at: { $lt: getStalePendingCutoff(clock) } },
+        { $set: { status: 'failed', completed_at: clock.now() } }
+    );
+    return result.modifiedCount;
+};
+
+/**
+ * Remove as exportações que atendem ao filtro junto com os arquivos no GridFS. Retorna quantas foram removidas.
+ */
+export const deleteDataExports = async (filter: Record<string, unknown>) => {
+    const dataExports = await DataExport.find(filter).select('file_id').lean();
+    for (const dataExport of dataExports) {
+        if (dataExport.file_id) {
+            await deleteDataExportFile(dataExport.file_id);
+        }
+    }
+    return (await DataExport.deleteMany({ _id: { $in: dataExports.map(dataExport => dataExport._id) } })).deletedCount;
+};
+
+export const removeExpiredDataExports = (clock: Clock = systemClock) => deleteDataExports({ expiresAt: { $lte: clock.now() } });
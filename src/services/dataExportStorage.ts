@@ -0,0 +1,28 @@
+import mongoose, { Types } from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+// Os arquivos de exportação ficam no GridFS: um documento comum não passa de 16 MB,
+// justamente o caso das contas grandes que recebem a exportação em segundo plano
+const DATA_EXPORT_BUCKET = 'dataExports';
+
+const exportBucket = () => new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: DATA_EXPORT_BUCKET });
+
+export const saveDataExportFile = async (fileName: string, content: Buffer) => {
+    const upload = exportBucket().openUploadStream(fileName, { contentType: 'application/gzip' });
+    await pipeline(Readable.from([content]), upload);
+    return upload.id as Types.ObjectId;
+};
+
+export const openDataExportFile = (fileId: Types.ObjectId) => exportBucket().openDownloadStream(fileId);
+
+export const deleteDataExportFile = async (fileId: Types.ObjectId) => {
+    try {
+        await exportBucket().delete(fileId);
+    } catch (err: any) {
+        // Arquivo já removido: nada a fazer
+        if (!String(err?.message).includes('File not found')) {
+            throw err;
+        }
+    }
+};
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import User, { User as UserDocument } from '../models/User';
+import EmailChange, { EmailChange as EmailChangeDocument } from '../models/EmailChange';
+import { hashToken } from './tokenService';
+import { sendMailWithRetry } from './emailService';
+import { revokeAllUserTokens } from './tokenRevocationService';
+
+export const EMAIL_CHANGE_CONFIRM_TTL_MS = 24 * 60 * 60 * 1000; // 24 horas
+export const EMAIL_CHANGE_UNDO_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
+export class EmailTakenError extends Error {
+    constructor() {
+        super('Este e-mail já está em uso por outra conta');
+    }
+}
+
+export class EmailChangeLockedError extends Error {
+    constructor() {
+        super('O e-mail da conta foi alterado recentemente. Uma nova alteração só é permitida depois de encerrado o prazo para desfazer a anterior.');
+    }
+}
+
+const isDuplicateKeyError = (err: any) => err?.code === 11000;
+
+const ensureEmailAvailable = async (email: string, userId: unknown) => {
+    if (await User.exists({ email, _id: { $ne: userId } })) {
+        throw new EmailTakenError();
+    }
+};
+
+/**
+ * Registra a troca de e-mail como pendente (substituindo uma solicitação anterior) e envia
+ * o link de confirmação ao novo endereço e o aviso com link para desfazer ao endereço antigo.
+ * Enquanto uma troca confirmada ainda puder ser desfeita, novas trocas são recusadas: do contrário, quem
+ * tomasse a conta poderia trocar o e-mail de novo e receber ele mesmo o aviso da segunda troca.
+ */
+export const requestEmailChange = async (user: UserDocument, newEmail: string) => {
+    if (await EmailChange.exists({ user_id: user._id, status: 'confirmed', undoExpiresAt: { $gt: new Date() } })) {
+        throw new EmailChangeLockedError();
+    }
+
+    await ensureEmailAvailable(newEmail, user._id);
+
+    await EmailChange.updateMany({ user_id: user._id, status: 'pending' }, { $set: { status: 'cancelled' } });
+
+    const confirmToken = crypto.randomBytes(32).toString('hex');
+    const undoToken = crypto.randomBytes(32).toString('hex');
+    const now = Date.now();
+
+    await EmailChange.create({
+        user_id: user._id,
+        oldEmail: user.email,
+        newEmail,
+        confirmTokenHash: hashToken(confirmToken),
+        undoTokenHash: hashToken(undoToken),
+        confirmExpiresAt: new Date(now + EMAIL_CHANGE_CONFIRM_TTL_MS),
+        undoExpiresAt: new Date(now + EMAIL_CHANGE_UNDO_TTL_MS),
+    });
+
+    const confirmUrl = `${process.env.FRONTEND_DOMAIN}/confirmar-novo-email/${confirmToken}`;
+    const undoUrl = `${process.env.FRONTEND_DOMAIN}/desfazer-alteracao-email/${undoToken}`;
+
+    await sendMailWithRetry({
+        to: newEmail,
+        subject: '.CARRO: Confirme seu novo e-mail',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Recebemos uma solicitação para usar este endereço como o novo e-mail da sua conta .CARRO.</p>
+            <h3><a href="${confirmUrl}" style="color: #007bff; text-decoration: none;">Confirmar novo e-mail</a></h3>
+            <p>Este link é válido por <b>24 horas</b>. Até a confirmação, o e-mail atual continua valendo.</p>
+            <p>Se você não fez esta solicitação, ignore este e-mail.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+
+    sendMailWithRetry({
+        to: user.email,
+        subject: '.CARRO: Solicitação de alteração do seu e-mail',
+        html: `
+            Olá ${user.username || 'usuário'},
+            <p>Recebemos uma solicitação para alterar o e-mail da sua conta .CARRO para <b>${newEmail}</b>.</p>
+            <p>A alteração só será aplicada depois de confirmada no novo endereço.</p>
+            <p>Se você não reconhece esta solicitação, <a href="${undoUrl}" style="color: #007bff; text-decoration: none;">desfaça a alteração</a>. Este link vale por <b>7 dias</b>, mesmo que a alteração já tenha sido confirmada, e também encerra todas as sessões abertas.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    }).catch(emailError => console.error('Erro ao enviar aviso de alteração de e-mail:', emailError));
+};
+
+/**
+ * Aplica a troca pendente correspondente ao token. Retorna null se o link for inválido ou tiver expirado.
+ */
+export const confirmEmailChange = async (token: string) => {
+    const change = await EmailChange.findOne({
+        confirmTokenHash: hashToken(token),
+        status: 'pending',
+        confirmExpiresAt: { $gt: new Date() },
+    });
+    if (!change) {
+        return null;
+    }
+
+    await ensureEmailAvailable(change.newEmail, change.user_id);
+
+    // A troca só acontece se o e-mail ainda for o da solicitação
+    let user: UserDocument | null;
+    try {
+        user = await User.findOneAndUpdate(
+            { _id: change.user_id, email: change.oldEmail },
+            { $set: { email: change.newEmail, emailVerified: true } },
+            { new: true }
+        );
+    } catch (err) {
+        // Outra conta pode ter ocupado o endereço entre a checagem e a atualização
+        if (isDuplicateKeyError(err)) {
+            throw new EmailTakenError();
+        }
+        throw err;
+    }
+
+    if (!user) {
+        await EmailChange.updateOne({ _id: change._id }, { $set: { status: 'cancelled' } });
+        return null;
+    }
+
+    await EmailChange.updateOne({ _id: change._id }, { $set: { status: 'confirmed', confirmed_at: new Date() } });
+
+    return user;
+};
+
+/**
+ * Desfaz a solicitação pelo link enviado ao endereço antigo: cancela a troca pendente ou, se ela já foi
+ * confirmada, restaura o e-mail antigo (qualquer que seja o atual) e encerra todas as sessões, pois a conta
+ * pode ter sido comprometida. Retorna null se o link for inválido ou a conta não existir mais.
+ */
+export const undoEmailChange = async (token: string): Promise<EmailChangeDocument | null> => {
+    const change = await EmailChange.findOne({
+        undoTokenHash: hashToken(token),
+        status: { $in: ['pending', 'confirmed'] },
+        undoExpiresAt: { $gt: new Date() },
+    });
+    if (!change) {
+        return null;
+    }
+
+    if (change.status === 'confirmed') {
+        await ensureEmailAvailable(change.oldEmail, change.user_id);
+
+        let result;
+        try {
+            result = await User.updateOne(
+                { _id: change.user_id },
+                { $set: { email: change.oldEmail, emailVerified: true } }
+            );
+        } catch (err) {
+            if (isDuplicateKeyError(err)) {
+                throw new EmailTakenError();
+            }
+            throw err;
+        }
+
+        if (result.matchedCount === 0) {
+            return null;
+        }
+
+        await revokeAllUserTokens(change.user_id.toString(), 'email_change_reverted');
+    }
+
+    change.status = change.status === 'confirmed' ? 'reverted' : 'cancelled';
+    await change.save();
+
+    return change;
+};
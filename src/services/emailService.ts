@@ -0,0 +1,45 @@
+import transporter from '../config/email';
+
+export interface MailOptions {
+    to: string;
+    subject: string;
+    html: string;
+}
+
+// Remetente padrão de todos os e-mails da plataforma
+export const mailFrom = () => `.CARRO <${process.env.GMAIL_ADDRESS}>`;
+
+// Textos digitados por usuários (nomes, títulos, mensagens) precisam ser escapados antes de entrar no HTML de um e-mail
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Envia um e-mail pelo transporter configurado, tentando novamente em falhas transitórias.
+ * Lança o último erro recebido se todas as tentativas falharem.
+ */
+export const sendMailWithRetry = async (mailOptions: MailOptions, maxAttempts = 3) => {
+    let lastError: any = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        try {
+            console.log(`Tentativa ${attempt} de envio de email para ${mailOptions.to}`);
+            await transporter.sendMail({ from: mailFrom(), ...mailOptions });
+            console.log(`Email enviado com sucesso na tentativa ${attempt}`);
+            return;
+        } catch (emailError: any) {
+            console.error(`Erro na tentativa ${attempt} ao enviar email:`, emailError);
+            lastError = emailError;
+
+            // Se for erro de autenticação, não tentar novamente
+            if (emailError.code === 'EAUTH' || emailError.code === 'EENVELOPE') {
+                break;
+            }
+
+            // Esperar antes de tentar novamente (exceto na última tentativa)
+            if (attempt < maxAttempts) {
+                await new Promise(resolve => setTimeout(resolve, 2000 * attempt)); // Espera crescente
+            }
+        }
+    }
+
+    throw lastError;
+};
@@ -0,0 +1,96 @@
+import Favorite from '../models/Favorite';
+import User from '../models/User';
+import { sendMailWithRetry, escapeHtml } from './emailService';
+
+export type WatcherEvent = 'price_drop' | 'sold';
+
+interface WatchedVehicle {
+    _id: unknown;
+    title: string;
+    price: number;
+    previousPrice?: number;
+}
+
+const formatPrice = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * Acrescenta isFavorited a veículos já convertidos em objetos simples. Sem usuário autenticado, os veículos voltam inalterados.
+ */
+export const attachFavoriteFlag = async <T extends Record<string, any>>(vehicles: T[], viewerId?: string) => {
+    if (!viewerId || vehicles.length === 0) {
+        return vehicles;
+    }
+
+    const favorites = await Favorite.find({ user_id: viewerId, vehicle_id: { $in: vehicles.map(vehicle => vehicle._id) } })
+        .select('vehicle_id')
+        .lean();
+    const favoritedIds = new Set(favorites.map(favorite => favorite.vehicle_id));
+
+    return vehicles.map(vehicle => ({ ...vehicle, isFavorited: favoritedIds.has(vehicle._id) }));
+};
+
+/**
+ * Acrescenta favoriteCount (quantos usuários salvaram o anúncio), exibido apenas ao dono.
+ */
+export const attachFavoriteCounts = async <T extends Record<string, any>>(vehicles: T[]) => {
+    const rows = vehicles.length > 0
+        ? await Favorite.aggregate<{ _id: string; count: number }>([
+            { $match: { vehicle_id: { $in: vehicles.map(vehicle => vehicle._id) } } },
+            { $group: { _id: '$vehicle_id', count: { $sum: 1 } } },
+        ])
+        : [];
+    const countsByVehicle = new Map(rows.map(row => [row._id, row.count]));
+
+    return vehicles.map(vehicle => ({ ...vehicle, favoriteCount: countsByVehicle.get(vehicle._id) ?? 0 }));
+};
+
+/**
+ * Assunto e texto (HTML) do aviso enviado a quem favoritou o anúncio.
+ */
+export const buildWatcherNotification = (event: WatcherEvent, vehicle: WatchedVehicle) => {
+    const title = escapeHtml(vehicle.title);
+
+    if (event === 'price_drop') {
+        const previous = vehicle.previousPrice !== undefined ? ` de ${formatPrice(vehicle.previousPrice)}` : '';
+        return {
+            subject: `.CARRO: O preço de ${vehicle.title} baixou`,
+            text: `O anúncio <b>${title}</b>, que você salvou nos favoritos, baixou${previous} para <b>${formatPrice(vehicle.price)}</b>.`,
+        };
+    }
+
+    return {
+        subject: `.CARRO: ${vehicle.title} foi vendido`,
+        text: `O anúncio <b>${title}</b>, que você salvou nos favoritos, foi marcado como vendido.`,
+    };
+};
+
+/**
+ * Avisa por e-mail quem favoritou o anúncio. Quem fez a alteração (dono ou membro da loja) não é avisado.
+ * O envio não bloqueia a resposta: falhas são apenas registradas.
+ */
+export const notifyFavoriteWatchers = async (event: WatcherEvent, vehicle: WatchedVehicle, actorId?: string) => {
+    const favorites = await Favorite.find({ vehicle_id: vehicle._id }).select('user_id').lean();
+    const watcherIds = favorites.map(favorite => String(favorite.user_id)).filter(userId => userId !== actorId);
+    if (watcherIds.length === 0) {
+        return 0;
+    }
+
+    const watchers = await User.find({ _id: { $in: watcherIds } }).select('username email').lean();
+    const { subject, text } = buildWatcherNotification(event, vehicle);
+    const vehicleUrl = `${process.env.FRONTEND_DOMAIN}/anuncios/${vehicle._id}`;
+
+    for (const watcher of watchers) {
+        sendMailWithRetry({
+            to: watcher.email,
+            subject,
+            html: `
+                Olá ${watcher.username || 'usuário'},
+                <p>${text}</p>
+                <h3><a href="${vehicleUrl}" style="color: #007bff; text-decoration: none;">Ver anúncio</a></h3>
+                <p>Obrigado,<br/>Equipe .CARRO</p>
+            `,
+        }).catch(emailError => console.error('Erro ao avisar usuário sobre anúncio favoritado:', emailError));
+    }
+
+    return watchers.length;
+};
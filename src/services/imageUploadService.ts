@@ -0,0 +1,60 @@
+import { v4 as uuidv4 } from 'uuid';
+import cloudinary from '../config/cloudinary';
+
+// Opções de transformação aplicadas pelo Cloudinary no upload
+export interface UploadTransformation {
+    width: number;
+    height: number;
+    crop: 'limit' | 'fill';
+    gravity?: string;
+}
+
+// Fotos de anúncios: mantém a proporção, no máximo 1920px
+export const VEHICLE_IMAGE_TRANSFORMATION: UploadTransformation = { width: 1920, height: 1920, crop: 'limit' };
+
+// Fotos de perfil: recorte quadrado centrado no rosto
+export const AVATAR_TRANSFORMATION: UploadTransformation = { width: 400, height: 400, crop: 'fill', gravity: 'face' };
+
+export const buildCloudinaryUrl = (publicId: string) => {
+    const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
+    return `https://res.cloudinary.com/${cloudName}/image/upload/f_auto,q_auto/${publicId}`;
+};
+
+/**
+ * Envia um arquivo recebido pelo multer (em memória) para a pasta informada no Cloudinary.
+ * Retorna o public_id completo (com a pasta) e a URL otimizada.
+ */
+export const uploadToCloudinary = async (file: Express.Multer.File, folder: string, transformation: UploadTransformation) => {
+    // Gera um ID público único para o Cloudinary (sem incluir pasta no public_id)
+    const uniqueId = uuidv4();
+
+    // Upload para Cloudinary usando asset_folder (Dynamic Folder Mode)
+    const uploadResult = await cloudinary.uploader.upload(
+        `data:${file.mimetype};base64,${file.buffer.toString('base64')}`,
+        {
+            public_id: uniqueId, // Apenas o ID único
+            asset_folder: folder, // Pasta de armazenamento
+            use_asset_folder_as_public_id_prefix: true, // Inclui pasta na URL
+            quality: 'auto', // Otimização automática do Cloudinary
+            ...transformation,
+        }
+    );
+
+    // Se use_asset_folder_as_public_id_prefix não funcionou, construir manualmente
+    const publicId = uploadResult.public_id.startsWith(`${folder}/`)
+        ? uploadResult.public_id
+        : `${folder}/${uploadResult.public_id}`;
+
+    return { publicId, url: buildCloudinaryUrl(publicId) };
+};
+
+/**
+ * Remove um arquivo do Cloudinary. Falhas são apenas registradas: o registro no banco já foi atualizado.
+ */
+export const destroyCloudinaryAsset = async (publicId: string) => {
+    try {
+        await cloudinary.uploader.destroy(publicId);
+    } catch (cloudinaryError: any) {
+        console.warn(`Erro ao excluir o arquivo ${publicId} do Cloudinary:`, cloudinaryError.message);
+    }
+};
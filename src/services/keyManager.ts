@@ -0,0 +1,119 @@
+import crypto, { KeyObject } from 'crypto';
+
+/**
+ * Gerenciamento das chaves assimétricas usadas para assinar os JWTs (RS256 ou ES256).
+ *
+ * - JWT_PRIVATE_KEY: chave privada atual em PEM (RSA ou EC P-256); quebras de linha podem vir como "\n".
+ * - JWT_PREVIOUS_PUBLIC_KEYS: lista JSON de chaves públicas PEM anteriores, aceitas apenas para verificação
+ *   durante a rotação, até que os tokens assinados com elas expirem.
+ *
+ * O kid de cada chave é o thumbprint RFC 7638 da chave pública, então não precisa ser configurado.
+ */
+
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface VerificationKey {
+    kid: string;
+    alg: JwtAlgorithm;
+    publicKey: KeyObject;
+}
+
+export interface SigningKey extends VerificationKey {
+    privateKey: KeyObject;
+}
+
+export interface KeyStore {
+    current: SigningKey;
+    verificationKeys: Map<string, VerificationKey>;
+}
+
+let keyStore: KeyStore | null = null;
+
+const normalizePem = (pem: string) => pem.replace(/\\n/g, '\n').trim();
+
+const detectAlgorithm = (publicKey: KeyObject): JwtAlgorithm => {
+    if (publicKey.asymmetricKeyType === 'rsa') {
+        return 'RS256';
+    }
+    if (publicKey.asymmetricKeyType === 'ec' && publicKey.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+        return 'ES256';
+    }
+    throw new Error('Tipo de chave JWT não suportado: use RSA (RS256) ou EC P-256 (ES256)');
+};
+
+// Thumbprint RFC 7638: SHA-256 dos membros obrigatórios da JWK, em ordem lexicográfica
+const computeKid = (publicKey: KeyObject) => {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const members = jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+    return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+};
+
+const toVerificationKey = (publicKey: KeyObject): VerificationKey => ({
+    kid: computeKid(publicKey),
+    alg: detectAlgorithm(publicKey),
+    publicKey,
+});
+
+/**
+ * Monta o conjunto de chaves a partir das variáveis de ambiente. Lança erro se não houver chave privada,
+ * pois o servidor não deve subir com um segredo padrão.
+ */
+export const loadKeyStore = (env: NodeJS.ProcessEnv = process.env): KeyStore => {
+    if (!env.JWT_PRIVATE_KEY) {
+        throw new Error('Variável de ambiente JWT_PRIVATE_KEY é obrigatória para assinar os tokens');
+    }
+
+    const privateKey = crypto.createPrivateKey(normalizePem(env.JWT_PRIVATE_KEY));
+    const current: SigningKey = { ...toVerificationKey(crypto.createPublicKey(privateKey)), privateKey };
+
+    const verificationKeys = new Map<string, VerificationKey>([[current.kid, current]]);
+
+    if (env.JWT_PREVIOUS_PUBLIC_KEYS) {
+        let previousKeys: unknown;
+        try {
+            previousKeys = JSON.parse(env.JWT_PREVIOUS_PUBLIC_KEYS);
+        } catch {
+            throw new Error('JWT_PREVIOUS_PUBLIC_KEYS deve ser uma lista JSON de chaves públicas PEM');
+        }
+        if (!Array.isArray(previousKeys)) {
+            throw new Error('JWT_PREVIOUS_PUBLIC_KEYS deve ser uma lista JSON de chaves públicas PEM');
+        }
+        for (const pem of previousKeys) {
+            const key = toVerificationKey(crypto.createPublicKey(normalizePem(String(pem))));
+            verificationKeys.set(key.kid, key);
+        }
+    }
+
+    return { current, verificationKeys };
+};
+
+/**
+ * Carrega as chaves na inicialização do servidor. Chamado pelo app antes de aceitar requisições.
+ */
+export const initializeKeys = (env: NodeJS.ProcessEnv = process.env) => {
+    keyStore = loadKeyStore(env);
+    return keyStore;
+};
+
+const getKeyStore = () => {
+    if (!keyStore) {
+        keyStore = loadKeyStore();
+    }
+    return keyStore;
+};
+
+export const getSigningKey = () => getKeyStore().current;
+
+export const getVerificationKey = (kid: string) => getKeyStore().verificationKeys.get(kid);
+
+// Conjunto público de chaves (JWKS) publicado em /.well-known/jwks.json
+export const getJwks = () => ({
+    keys: Array.from(getKeyStore().verificationKeys.values()).map(key => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+    })),
+});
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import Vehicle from '../models/Vehicle';
+import User, { LISTING_TIERS, ListingTier } from '../models/User';
+import { Clock, systemClock } from '../jobs/scheduler';
+import { hashToken } from './tokenService';
+import { sendMailWithRetry, escapeHtml } from './emailService';
+import { currentStatusFilter } from './vehicleService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validade padrão do anúncio, em dias, para cada perfil de anunciante (User.listingTier)
+export const DEFAULT_LISTING_EXPIRY_DAYS: Record<ListingTier, number> = {
+    individual: 60,
+    dealer: 90,
+};
+
+// Lembretes enviados ao dono antes do vencimento (dias restantes)
+export const EXPIRY_REMINDER_DAYS = [7, 1];
+
+// Anúncios criados antes do campo status não o têm e contam como ativos
+const ACTIVE_STATUS = { $in: ['active', null] };
+
+const formatDate = (date: Date) => date.toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+
+/**
+ * Validade por perfil, configurável em LISTING_EXPIRY_DAYS (objeto JSON, ex.: {"individual":45,"dealer":120}).
+ * Perfis ausentes na configuração usam o padrão.
+ */
+export const loadListingExpiryDays = (env: NodeJS.ProcessEnv = process.env): Record<ListingTier, number> => {
+    if (!env.LISTING_EXPIRY_DAYS) {
+        return { ...DEFAULT_LISTING_EXPIRY_DAYS };
+    }
+
+    let configured: unknown;
+    try {
+        configured = JSON.parse(env.LISTING_EXPIRY_DAYS);
+    } catch {
+        throw new Error('LISTING_EXPIRY_DAYS deve ser um objeto JSON com os dias de validade por perfil');
+    }
+    if (!configured || typeof configured !== 'object' || Array.isArray(configured)) {
+        throw new Error('LISTING_EXPIRY_DAYS deve ser um objeto JSON com os dias de validade por perfil');
+    }
+
+    const days = { ...DEFAULT_LISTING_EXPIRY_DAYS };
+    for (const [tier, value] of Object.entries(configured)) {
+        if (!LISTING_TIERS.includes(tier as ListingTier)) {
+            throw new Error(`LISTING_EXPIRY_DAYS: perfil desconhecido "${tier}"`);
+        }
+        if (!Number.isInteger(value) || value <= 0) {
+            throw new Error(`LISTING_EXPIRY_DAYS: a validade do perfil "${tier}" deve ser um número inteiro de dias`);
+        }
+        days[tier as ListingTier] = value;
+    }
+    return days;
+};
+
+export const getListingTier = (owner: { listingTier?: ListingTier } | null | undefined): ListingTier => {
+    return owner?.listingTier ?? 'individual';
+};
+
+// O perfil é sempre o do dono do anúncio, mesmo quando quem publica ou renova é outro membro da loja
+export const getOwnerListingTier = async (ownerId: unknown) => {
+    return getListingTier(await User.findById(ownerId).select('listingTier').lean());
+};
+
+export const getListingExpiryDate = (publishedAt: Date, tier: ListingTier, env: NodeJS.ProcessEnv = process.env) => {
+    return new Date(publishedAt.getTime() + loadListingExpiryDays(env)[tier] * DAY_MS);
+};
+
+/**
+ * Campos gravados sempre que o anúncio (re)começa a valer: publicação, reativação e renovação.
+ */
+export const listingExpiryFields = (tier: ListingTier, now: Date) => ({
+    expiresAt: getListingExpiryDate(now, tier),
+    expiryRemindersSent: [] as number[],
+});
+
+/**
+ * Lembrete que deve ser enviado agora (dias antes do vencimento), ou null.
+ * Se mais de um lembrete estiver vencido (ex.: anúncio renovado a poucos dias do fim), só o mais próximo é enviado.
+ */
+export const getDueExpiryReminder = (expiresAt: Date, remindersSent: number[], now: Date) => {
+    const remainingMs = expiresAt.getTime() - now.getTime();
+    if (remainingMs <= 0) {
+        return null;
+    }
+
+    const due = EXPIRY_REMINDER_DAYS.filter(days => remainingMs <= days * DAY_MS);
+    if (due.length === 0) {
+        return null;
+    }
+
+    const closest = Math.min(...due);
+    return remindersSent.includes(closest) ? null : closest;
+};
+
+// Ao enviar um lembrete, os anteriores (mais distantes do vencimento) deixam de fazer sentido
+const remindersCoveredBy = (days: number) => EXPIRY_REMINDER_DAYS.filter(reminder => reminder >= days);
+
+/**
+ * Envia os lembretes de vencimento com o link de renovação em um clique. Retorna quantos foram enviados.
+ */
+export const sendExpiryReminders = async (clock: Clock = systemClock) => {
+    const now = clock.now();
+    const horizon = new Date(now.getTime() + Math.max(...EXPIRY_REMINDER_DAYS) * DAY_MS);
+
+    const vehicles = await Vehicle.find({
+        status: ACTIVE_STATUS,
+        ownerPendingDeletion: { $ne: true },
+        expiresAt: { $gt: now, $lte: horizon },
+    }).select('owner_id title expiresAt expiryRemindersSent');
+
+    let sent = 0;
+    for (const vehicle of vehicles) {
+        const reminder = getDueExpiryReminder(vehicle.expiresAt!, vehicle.expiryRemindersSent ?? [], now);
+        if (reminder === null) {
+            continue;
+        }
+
+        // Marca o lembrete antes do envio para que duas execuções não mandem o mesmo e-mail
+        const renewalToken = crypto.randomBytes(32).toString('hex');
+        const claimed = await Vehicle.findOneAndUpdate(
+            { _id: vehicle._id, expiresAt: vehicle.expiresAt, expiryRemindersSent: { $ne: reminder } },
+            {
+                $set: { renewalTokenHash: hashToken(renewalToken) },
+                $addToSet: { expiryRemindersSent: { $each: remindersCoveredBy(reminder) } },
+            }
+        );
+        if (!claimed) {
+            continue;
+        }
+
+        const owner = await User.findById(vehicle.owner_id).select('username email');
+        if (!owner) {
+            continue;
+        }
+
+        const renewUrl = `${process.env.FRONTEND_DOMAIN}/anuncios/renovar/${renewalToken}`;
+        sendMailWithRetry({
+            to: owner.email,
+            subject: reminder === 1 ? '.CARRO: Seu anúncio vence amanhã' : `.CARRO: Seu anúncio vence em ${reminder} dias`,
+            html: `
+                Olá ${escapeHtml(owner.username || 'usuário')},
+                <p>O anúncio <b>${escapeHtml(vehicle.title)}</b> vence em <b>${formatDate(vehicle.expiresAt!)}</b> e depois disso deixa de aparecer nas buscas.</p>
+                <p>O carro ainda está à venda? Renove o anúncio com um clique:</p>
+                <h3><a href="${renewUrl}" style="color: #007bff; text-decoration: none;">Renovar anúncio</a></h3>
+                <p>Se já vendeu, marque o anúncio como vendido na sua conta.</p>
+                <p>Obrigado,<br/>Equipe .CARRO</p>
+            `,
+        }).catch(emailError => console.error('Erro ao enviar lembrete de vencimento do anúncio:', emailError));
+        sent++;
+    }
+
+    return sent;
+};
+
+/**
+ * Tira das consultas públicas os anúncios ativos cuja validade terminou. Retorna quantos expiraram.
+ */
+export const expireDueListings = async (clock: Clock = systemClock) => {
+    const now = clock.now();
+    const result = await Vehicle.updateMany(
+        { status: ACTIVE_STATUS, expiresAt: { $lte: now } },
+        { $set: { status: 'expired', statusChangedAt: now } }
+    );
+    return result.modifiedCount;
+};
+
+/**
+ * Anúncios publicados antes da expiração automática não têm validade: recebem uma a partir de agora,
+ * conforme o perfil do dono. Retorna quantos anúncios receberam validade.
+ */
+export const assignMissingListingExpiry = async (clock: Clock = systemClock) => {
+    const now = clock.now();
+    const missing = { status: ACTIVE_STATUS, expiresAt: null };
+
+    const ownerIds = await Vehicle.distinct('owner_id', missing);
+    if (ownerIds.length === 0) {
+        return 0;
+    }
+    const owners = await User.find({ _id: { $in: ownerIds }, listingTier: { $ne: 'individual' } }).select('listingTier').lean();
+
+    let assigned = 0;
+    for (const tier of LISTING_TIERS.filter(tier => tier !== 'individual')) {
+        const tierOwnerIds = owners.filter(owner => getListingTier(owner) === tier).map(owner => owner._id);
+        const result = await Vehicle.updateMany(
+            { ...missing, owner_id: { $in: tierOwnerIds } },
+            { $set: { expiresAt: getListingExpiryDate(now, tier) } }
+        );
+        assigned += result.modifiedCount;
+    }
+
+    // Os demais (inclusive de donos sem perfil definido) seguem o perfil padrão
+    const result = await Vehicle.updateMany(missing, { $set: { expiresAt: getListingExpiryDate(now, 'individual') } });
+    return assigned + result.modifiedCount;
+};
+
+/**
+ * Renova o anúncio pelo link do lembrete (sem login). Aceita anúncios ativos ou já expirados;
+ * o link é de uso único. Retorna o anúncio renovado, ou null se o link for inválido.
+ */
+export const renewListingByToken = async (renewalToken: string, clock: Clock = systemClock) => {
+    const now = clock.now();
+    const vehicle = await Vehicle.findOne({
+        renewalTokenHash: hashToken(renewalToken),
+        status: { $in: ['active', 'expired', null] },
+        ownerPendingDeletion: { $ne: true },
+    });
+
+    if (!vehicle) {
+        return null;
+    }
+
+    // Condicionado ao status lido: uma venda ou pausa simultânea não é desfeita pela renovação
+    return Vehicle.findOneAndUpdate(
+        { _id: vehicle._id, renewalTokenHash: hashToken(renewalToken), status: currentStatusFilter(vehicle.status) },
+        {
+            $set: { status: 'active', statusChangedAt: now, ...listingExpiryFields(await getOwnerListingTier(vehicle.owner_id), now) },
+            $unset: { renewalTokenHash: 1 },
+        },
+        { new: true }
+    );
+};
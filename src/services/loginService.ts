@@ -0,0 +1,76 @@
+import { Request } from 'express';
+import { User } from '../models/User';
+import { createSession } from './sessionService';
+import { signPurposeToken } from './tokenService';
+import { cancelAccountDeletion } from './accountDeletionService';
+
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+export const TWO_FACTOR_CHALLENGE_PURPOSE = '2fa-challenge';
+
+// Remove campos internos antes de devolver o usuário ao cliente (inclusive os carregados com select explícito)
+export const toUserResponse = (user: User) => {
+    const userResponse = user.toObject();
+    delete userResponse.password;
+    delete userResponse.passwordHistory;
+    delete userResponse.twoFactorSecret;
+    delete userResponse.twoFactorPendingSecret;
+    delete userResponse.twoFactorRecoveryCodes;
+    delete userResponse.twoFactorLastUsedStep;
+    delete userResponse.resetPasswordToken;
+    delete userResponse.resetPasswordExpires;
+    delete userResponse.magicLinkTokenHash;
+    delete userResponse.magicLinkExpires;
+    delete userResponse.avatarPublicId;
+    return userResponse;
+};
+
+/**
+ * Retorna o motivo pelo qual a conta não pode ser usada (banimento ou suspensão em vigor), ou null se estiver liberada.
+ */
+export const getAccountRestriction = (user: User) => {
+    if (user.accountStatus === 'banned') {
+        return 'Esta conta foi banida';
+    }
+    if (user.accountStatus === 'suspended' && (!user.suspendedUntil || user.suspendedUntil > new Date())) {
+        return user.suspendedUntil
+            ? `Esta conta está suspensa até ${user.suspendedUntil.toISOString()}`
+            : 'Esta conta está suspensa';
+    }
+    return null;
+};
+
+/**
+ * Conclui a autenticação primária (senha, link mágico, etc.).
+ * Contas com 2FA recebem apenas um token de desafio de curta duração, trocado pelos tokens reais em /auth/login/2fa.
+ */
+export const completeLogin = async (user: User, req: Request) => {
+    if (user.twoFactorEnabled) {
+        const challengeToken = signPurposeToken({ id: user._id.toString() }, TWO_FACTOR_CHALLENGE_PURPOSE, TWO_FACTOR_CHALLENGE_TTL);
+        return { twoFactorRequired: true as const, challengeToken };
+    }
+
+    return issueLoginTokens(user, req);
+};
+
+// Abre a sessão e emite o par de tokens, sem passar pela etapa de 2FA.
+// Entrar na conta durante o período de carência cancela a exclusão agendada.
+export const issueLoginTokens = async (user: User, req: Request) => {
+    const accountDeletionCancelled = Boolean(user.deletionScheduledFor) && await cancelAccountDeletion(user._id.toString());
+    if (accountDeletionCancelled) {
+        user.deletionRequestedAt = undefined;
+        user.deletionScheduledFor = undefined;
+    }
+
+    const { accessToken, refreshToken } = await createSession(user._id.toString(), req);
+    return { twoFactorRequired: false as const, accessToken, refreshToken, user: toUserResponse(user), accountDeletionCancelled };
+};
+
+// Corpo da resposta de um login concluído, comum a todos os métodos de autenticação
+export const toLoginResponse = (result: Awaited<ReturnType<typeof issueLoginTokens>>) => ({
+    message: result.accountDeletionCancelled ? 'Login bem-sucedido. A exclusão da sua conta foi cancelada.' : 'Login bem-sucedido',
+    accessToken: result.accessToken,
+    user: result.user,
+    refreshToken: result.refreshToken,
+    ...(result.accountDeletionCancelled ? { accountDeletionCancelled: true } : {}),
+});
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import User, { User as UserDocument } from '../models/User';
+import { hashToken } from './tokenService';
+import { sendMailWithRetry } from './emailService';
+
+export const MAGIC_LINK_TTL_MS = 15 * 60 * 1000; // 15 minutos
+
+/**
+ * Gera um novo link de login para o usuário (substituindo qualquer link anterior) e o envia por e-mail.
+ * Apenas o hash do token é armazenado.
+ */
+export const sendMagicLink = async (user: UserDocument) => {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await User.updateOne(
+        { _id: user._id },
+        { $set: { magicLinkTokenHash: hashToken(token), magicLinkExpires: new Date(Date.now() + MAGIC_LINK_TTL_MS) } }
+    );
+
+    const loginUrl = `${process.env.FRONTEND_DOMAIN}/entrar-com-link/${token}`;
+
+    try {
+        await sendMailWithRetry({
+            to: user.email,
+            subject: '.CARRO: Seu link de acesso',
+            html: `
+                Olá ${user.username || 'usuário'},
+                <p>Recebemos uma solicitação para entrar na sua conta .CARRO sem senha.</p>
+                <h3><a href="${loginUrl}" style="color: #007bff; text-decoration: none;">Entrar na minha conta</a></h3>
+                <p>Este link é válido por <b>15 minutos</b> e pode ser usado apenas uma vez.</p>
+                <p>Se você não fez esta solicitação, ignore este e-mail. Sua conta continua segura.</p>
+                <p>Obrigado,<br/>Equipe .CARRO</p>
+            `,
+        });
+    } catch (emailError) {
+        // Um link que não chegou ao usuário não deve continuar válido
+        await User.updateOne({ _id: user._id }, { $unset: { magicLinkTokenHash: 1, magicLinkExpires: 1 } });
+        throw emailError;
+    }
+};
+
+/**
+ * Consome o link de forma atômica: o mesmo token nunca é aceito duas vezes, mesmo em requisições concorrentes.
+ * Como o link chegou pelo e-mail, o e-mail da conta também passa a ser considerado verificado.
+ */
+export const consumeMagicLink = (token: string) => {
+    return User.findOneAndUpdate(
+        { magicLinkTokenHash: hashToken(token), magicLinkExpires: { $gt: new Date() } },
+        { $unset: { magicLinkTokenHash: 1, magicLinkExpires: 1 }, $set: { emailVerified: true } },
+        { new: true }
+    );
+};
@@ -0,0 +1,173 @@
+import { Types, isValidObjectId } from 'mongoose';
+import Conversation, { Conversation as ConversationDocument, ConversationRole } from '../models/Conversation';
+import Message from '../models/Message';
+import Block from '../models/Block';
+import User from '../models/User';
+import { sendMailWithRetry, escapeHtml } from './emailService';
+
+export const MESSAGE_PREVIEW_LENGTH = 100;
+
+type Participants = Pick<ConversationDocument, 'buyer_id' | 'seller_id'>;
+
+/**
+ * Papel do usuário na conversa, ou null se ele não participa dela.
+ */
+export const getParticipantRole = (conversation: Participants, userId: string): ConversationRole | null => {
+    if (String(conversation.buyer_id) === userId) {
+        return 'buyer';
+    }
+    if (String(conversation.seller_id) === userId) {
+        return 'seller';
+    }
+    return null;
+};
+
+export const getOtherParticipantId = (conversation: Participants, userId: string) => {
+    return String(getParticipantRole(conversation, userId) === 'buyer' ? conversation.seller_id : conversation.buyer_id);
+};
+
+export const toMessagePreview = (text: string) => {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > MESSAGE_PREVIEW_LENGTH ? `${singleLine.slice(0, MESSAGE_PREVIEW_LENGTH - 1)}…` : singleLine;
+};
+
+/**
+ * Não retorna conversas de terceiros: para quem não participa, a conversa simplesmente não existe.
+ */
+export const findParticipantConversation = async (conversationId: string, userId: string) => {
+    if (!isValidObjectId(conversationId)) {
+        return null;
+    }
+    return Conversation.findOne({ _id: conversationId, $or: [{ buyer_id: userId }, { seller_id: userId }] });
+};
+
+// O bloqueio vale nos dois sentidos
+export const isBlockedBetween = async (userId: string, otherUserId: string) => {
+    const block = await Block.exists({
+        $or: [
+            { blocker_id: userId, blocked_id: otherUserId },
+            { blocker_id: otherUserId, blocked_id: userId },
+        ],
+    });
+    return Boolean(block);
+};
+
+const notifyNewMessage = async (conversation: ConversationDocument, recipientId: string, senderName: string, text: string) => {
+    const recipient = await User.findById(recipientId).select('username email');
+    if (!recipient) {
+        return;
+    }
+
+    const conversationUrl = `${process.env.FRONTEND_DOMAIN}/mensagens/${conversation._id}`;
+    await sendMailWithRetry({
+        to: recipient.email,
+        subject: `.CARRO: Nova mensagem de ${senderName}`,
+        html: `
+            Olá ${escapeHtml(recipient.username || 'usuário')},
+            <p><b>${escapeHtml(senderName)}</b> enviou uma mensagem para você na .CARRO:</p>
+            <blockquote>${escapeHtml(toMessagePreview(text))}</blockquote>
+            <h3><a href="${conversationUrl}" style="color: #007bff; text-decoration: none;">Responder</a></h3>
+            <p>Por segurança, continue a negociação pela plataforma e não compartilhe dados de pagamento por mensagem.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+};
+
+/**
+ * Grava a mensagem, atualiza a caixa de entrada dos dois participantes e avisa o destinatário por e-mail.
+ * O e-mail só é enviado quando o destinatário não tinha mensagens não lidas na conversa, para não
+ * gerar um e-mail a cada mensagem de uma negociação em andamento.
+ */
+export const postMessage = async (conversation: ConversationDocument, sender: { _id: unknown; username: string }, text: string) => {
+    const senderId = String(sender._id);
+    const senderRole = getParticipantRole(conversation, senderId)!;
+    const recipientRole: ConversationRole = senderRole === 'buyer' ? 'seller' : 'buyer';
+    const now = new Date();
+
+    const message = await Message.create({ conversation_id: conversation._id, sender_id: senderId, text, created_at: now });
+
+    const before = await Conversation.findOneAndUpdate(
+        { _id: conversation._id },
+        {
+            $set: { lastMessageAt: now, lastMessagePreview: toMessagePreview(text) },
+            $inc: { [`${recipientRole}Unread`]: 1 },
+        }
+    );
+
+    // Primeira resposta do vendedor: entra no tempo médio de resposta exibido no perfil
+    if (senderRole === 'seller' && conversation.sellerResponseMs == null && conversation.created_at) {
+        await Conversation.updateOne(
+            { _id: conversation._id, sellerResponseMs: null },
+            { $set: { sellerResponseMs: now.getTime() - conversation.created_at.getTime() } }
+        );
+    }
+
+    if (before && before[`${recipientRole}Unread`] === 0) {
+        notifyNewMessage(conversation, getOtherParticipantId(conversation, senderId), sender.username, text)
+            .catch(emailError => console.error('Erro ao enviar aviso de nova mensagem:', emailError));
+    }
+
+    return message;
+};
+
+/**
+ * Zera as mensagens não lidas do usuário na conversa.
+ */
+export const markConversationRead = (conversation: ConversationDocument, userId: string) => {
+    const role = getParticipantRole(conversation, userId)!;
+    return Conversation.findOneAndUpdate(
+        { _id: conversation._id },
+        { $set: { [`${role}Unread`]: 0, [`${role}LastReadAt`]: new Date() } },
+        { new: true }
+    );
+};
+
+/**
+ * Item da caixa de entrada do ponto de vista do usuário: o outro participante e as mensagens não lidas por ele.
+ */
+export const toInboxItem = (
+    conversation: Record<string, any>,
+    userId: string,
+    vehicle: Record<string, any> | undefined,
+    otherParticipant: Record<string, any> | undefined
+) => {
+    const role = getParticipantRole(conversation as Participants, userId);
+    return {
+        _id: conversation._id,
+        role,
+        vehicle: vehicle ? { _id: vehicle._id, title: vehicle.title, price: vehicle.price, status: vehicle.status } : null, // null: anúncio excluído
+        otherParticipant: otherParticipant
+            ? { _id: otherParticipant._id, username: otherParticipant.username, avatarUrl: otherParticipant.avatarUrl ?? null }
+            : null,
+        lastMessageAt: conversation.lastMessageAt,
+        lastMessagePreview: conversation.lastMessagePreview ?? null,
+        unreadCount: role === 'buyer' ? conversation.buyerUnread ?? 0 : conversation.sellerUnread ?? 0,
+    };
+};
+
+/**
+ * Total de mensagens não lidas do usuário em todas as conversas.
+ */
+export const getUnreadCount = async (userId: string) => {
+    const id = new Types.ObjectId(userId);
+    const [row] = await Conversation.aggregate<{ total: number }>([
+        { $match: { $or: [{ buyer_id: id }, { seller_id: id }] } },
+        { $group: { _id: null, total: { $sum: { $cond: [{ $eq: ['$buyer_id', id] }, '$buyerUnread', '$sellerUnread'] } } } },
+    ]);
+    return row?.total ?? 0;
+};
+
+export const toAverageResponseMinutes = (averageMs: number | null | undefined) => {
+    return averageMs == null ? null : Math.round(averageMs / 60000);
+};
+
+/**
+ * Tempo médio, em minutos, até a primeira resposta do vendedor nas conversas. Nulo se ele ainda não respondeu nenhuma.
+ */
+export const getAverageResponseMinutes = async (sellerId: string) => {
+    const [row] = await Conversation.aggregate<{ averageMs: number }>([
+        { $match: { seller_id: new Types.ObjectId(sellerId), sellerResponseMs: { $ne: null } } },
+        { $group: { _id: null, averageMs: { $avg: '$sellerResponseMs' } } },
+    ]);
+    return toAverageResponseMinutes(row?.averageMs);
+};
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Cliente OpenID Connect (fluxo authorization code com PKCE), independente do banco de dados.
+ * Os metadados de cada provedor são descobertos em <issuer>/.well-known/openid-configuration,
+ * o que permite apontar um provedor para um emissor local nos testes.
+ */
+
+export interface OidcProviderConfig {
+    name: string; // Identificador usado nas rotas (ex.: "google")
+    issuer: string;
+    clientId: string;
+    clientSecret?: string;
+    scopes?: string[];
+    redirectUri?: string; // Padrão: <FRONTEND_DOMAIN>/entrar/<name>/retorno
+}
+
+export interface OidcProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+export interface OidcIdentity {
+    subject: string;
+    email?: string;
+    emailVerified: boolean;
+    name?: string;
+}
+
+export class OidcError extends Error { }
+
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hora
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+const metadataCache = new Map<string, { metadata: OidcProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: any[]; expiresAt: number }>();
+
+const trimTrailingSlash = (value: string) => value.replace(/\/+$/, '');
+
+export const getRedirectUri = (provider: OidcProviderConfig) => {
+    return provider.redirectUri || `${process.env.FRONTEND_DOMAIN}/entrar/${provider.name}/retorno`;
+};
+
+/**
+ * Provedores configurados em OIDC_PROVIDERS (lista JSON de { name, issuer, clientId, clientSecret, scopes }).
+ */
+export const loadOidcProviders = (env: NodeJS.ProcessEnv = process.env): OidcProviderConfig[] => {
+    if (!env.OIDC_PROVIDERS) {
+        return [];
+    }
+
+    let providers: unknown;
+    try {
+        providers = JSON.parse(env.OIDC_PROVIDERS);
+    } catch {
+        throw new OidcError('OIDC_PROVIDERS deve ser uma lista JSON de provedores');
+    }
+    if (!Array.isArray(providers)) {
+        throw new OidcError('OIDC_PROVIDERS deve ser uma lista JSON de provedores');
+    }
+
+    return providers.map((provider: any) => {
+        if (!provider?.name || !provider?.issuer || !provider?.clientId) {
+            throw new OidcError('Cada provedor em OIDC_PROVIDERS precisa de name, issuer e clientId');
+        }
+        return { ...provider, name: String(provider.name).toLowerCase() };
+    });
+};
+
+export const findOidcProvider = (name: string, env: NodeJS.ProcessEnv = process.env) => {
+    return loadOidcProviders(env).find(provider => provider.name === name.toLowerCase());
+};
+
+const fetchJson = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body) {
+        throw new OidcError(`Resposta inválida do provedor OIDC (${response.status}) em ${url}`);
+    }
+    return body;
+};
+
+export const discoverProvider = async (provider: OidcProviderConfig): Promise<OidcProviderMetadata> => {
+    const cached = metadataCache.get(provider.issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+        return cached.metadata;
+    }
+
+    const metadata = await fetchJson(`${trimTrailingSlash(provider.issuer)}/.well-known/openid-configuration`);
+
+    // O emissor publicado deve ser exatamente o configurado (OIDC Discovery, seção 4.3)
+    if (trimTrailingSlash(metadata.issuer || '') !== trimTrailingSlash(provider.issuer)) {
+        throw new OidcError('O emissor publicado pelo provedor não corresponde ao configurado');
+    }
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+        throw new OidcError('Metadados do provedor OIDC incompletos');
+    }
+
+    metadataCache.set(provider.issuer, { metadata, expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+    return metadata;
+};
+
+const randomUrlSafe = (bytes = 32) => crypto.randomBytes(bytes).toString('base64url');
+
+// PKCE (RFC 7636) com o método S256
+export const createPkcePair = () => {
+    const codeVerifier = randomUrlSafe();
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+    return { codeVerifier, codeChallenge };
+};
+
+/**
+ * Gera a URL de autorização e os valores que precisam ser guardados até o retorno do provedor.
+ */
+export const buildAuthorizationRequest = async (provider: OidcProviderConfig, redirectUri: string) => {
+    const metadata = await discoverProvider(provider);
+    const { codeVerifier, codeChallenge } = createPkcePair();
+    const state = randomUrlSafe();
+    const nonce = randomUrlSafe();
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', (provider.scopes || DEFAULT_SCOPES).join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state, nonce, codeVerifier };
+};
+
+const getProviderKey = async (jwksUri: string, kid: string | undefined, alg: string) => {
+    const findKey = (keys: any[]) => keys.find(key => (kid ? key.kid === kid : true) && (!key.alg || key.alg === alg) && key.use !== 'enc');
+
+    const cached = jwksCache.get(jwksUri);
+    let key = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+    // Chave desconhecida: o provedor pode ter feito uma rotação, então o JWKS é buscado novamente
+    if (!key) {
+        const { keys } = await fetchJson(jwksUri);
+        jwksCache.set(jwksUri, { keys: keys || [], expiresAt: Date.now() + METADATA_CACHE_TTL_MS });
+        key = findKey(keys || []);
+    }
+
+    if (!key) {
+        throw new OidcError('Chave de assinatura do id_token não encontrada no JWKS do provedor');
+    }
+    return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+/**
+ * Valida o id_token: assinatura (RS256/ES256), emissor, audiência, expiração e nonce.
+ */
+export const verifyIdToken = async (provider: OidcProviderConfig, idToken: string, nonce: string): Promise<OidcIdentity> => {
+    const metadata = await discoverProvider(provider);
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+        throw new OidcError('id_token inválido');
+    }
+    if (decoded.header.alg !== 'RS256' && decoded.header.alg !== 'ES256') {
+        throw new OidcError('Algoritmo do id_token não suportado');
+    }
+
+    const publicKey = await getProviderKey(metadata.jwks_uri, decoded.header.kid, decoded.header.alg);
+
+    let claims: jwt.JwtPayload;
+    try {
+        claims = jwt.verify(idToken, publicKey, {
+            algorithms: [decoded.header.alg],
+            issuer: metadata.issuer,
+            audience: provider.clientId,
+            clockTolerance: CLOCK_TOLERANCE_SECONDS,
+        }) as jwt.JwtPayload;
+    } catch (err: any) {
+        throw new OidcError(`id_token inválido: ${err.message}`);
+    }
+
+    if (claims.nonce !== nonce) {
+        throw new OidcError('nonce do id_token não confere');
+    }
+    if (!claims.sub) {
+        throw new OidcError('id_token sem identificador do usuário (sub)');
+    }
+
+    return {
+        subject: claims.sub,
+        email: typeof claims.email === 'string' ? claims.email.toLowerCase() : undefined,
+        // Alguns provedores enviam o campo como string
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        name: typeof claims.name === 'string' ? claims.name : undefined,
+    };
+};
+
+/**
+ * Troca o código de autorização pelo id_token (enviando o code_verifier do PKCE) e retorna a identidade validada.
+ */
+export const exchangeAuthorizationCode = async (
+    provider: OidcProviderConfig,
+    params: { code: string; redirectUri: string; codeVerifier: string; nonce: string }
+) => {
+    const metadata = await discoverProvider(provider);
+
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        client_id: provider.clientId,
+        code_verifier: params.codeVerifier,
+    });
+    if (provider.clientSecret) {
+        body.set('client_secret', provider.clientSecret);
+    }
+
+    const tokens = await fetchJson(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body,
+    });
+
+    if (typeof tokens.id_token !== 'string') {
+        throw new OidcError('O provedor não retornou um id_token');
+    }
+
+    return verifyIdToken(provider, tokens.id_token, params.nonce);
+};
@@ -0,0 +1,90 @@
+import User from '../models/User';
+import OidcState from '../models/OidcState';
+import {
+    OidcProviderConfig,
+    OidcIdentity,
+    OidcError,
+    buildAuthorizationRequest,
+    exchangeAuthorizationCode,
+    getRedirectUri,
+} from './oidcClient';
+
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutos para concluir o login no provedor
+
+export const startOidcAuthorization = async (provider: OidcProviderConfig) => {
+    const redirectUri = getRedirectUri(provider);
+    const { authorizationUrl, state, nonce, codeVerifier } = await buildAuthorizationRequest(provider, redirectUri);
+
+    await OidcState.create({
+        state,
+        provider: provider.name,
+        nonce,
+        codeVerifier,
+        redirectUri,
+        expiresAt: new Date(Date.now() + OIDC_STATE_TTL_MS),
+    });
+
+    return authorizationUrl;
+};
+
+// E-mails são comparados sem diferenciar maiúsculas: o cadastro guarda o e-mail como digitado
+const EMAIL_COLLATION = { locale: 'en', strength: 2 };
+
+/**
+ * Localiza o usuário da identidade externa. Se ainda não houver vínculo, a identidade é vinculada à conta
+ * com o mesmo e-mail (desde que o provedor e a própria conta o tenham verificado) ou uma nova conta sem senha é criada.
+ */
+export const findOrLinkOidcUser = async (providerName: string, identity: OidcIdentity) => {
+    const linkedUser = await User.findOne({ identities: { $elemMatch: { provider: providerName, subject: identity.subject } } });
+    if (linkedUser) {
+        return linkedUser;
+    }
+
+    // Sem e-mail verificado, vincular permitiria assumir a conta de outra pessoa
+    if (!identity.email || !identity.emailVerified) {
+        throw new OidcError('O provedor não confirmou o e-mail desta conta');
+    }
+
+    const newIdentity = { provider: providerName, subject: identity.subject, email: identity.email, linked_at: new Date() };
+
+    // Só contas que já confirmaram o e-mail são vinculadas: uma conta não confirmada pode ter sido criada por
+    // outra pessoa com este e-mail, e a senha dela continuaria valendo na conta vinculada
+    const existingUser = await User.findOneAndUpdate(
+        { email: identity.email, emailVerified: true },
+        { $push: { identities: newIdentity } },
+        { new: true, collation: EMAIL_COLLATION }
+    );
+    if (existingUser) {
+        return existingUser;
+    }
+
+    if (await User.exists({ email: identity.email }).collation(EMAIL_COLLATION)) {
+        throw new OidcError('Já existe uma conta com este e-mail que ainda não foi confirmada. Confirme o e-mail ou redefina a senha antes de entrar com este provedor.');
+    }
+
+    return User.create({
+        username: identity.name || identity.email.split('@')[0],
+        email: identity.email,
+        emailVerified: true,
+        identities: [newIdentity],
+    });
+};
+
+/**
+ * Conclui o login: consome o state (uso único), troca o código no provedor e retorna o usuário correspondente.
+ */
+export const completeOidcAuthorization = async (provider: OidcProviderConfig, code: string, state: string) => {
+    const pending = await OidcState.findOneAndDelete({ state, provider: provider.name, expiresAt: { $gt: new Date() } });
+    if (!pending) {
+        throw new OidcError('Login externo inválido ou expirado. Tente novamente.');
+    }
+
+    const identity = await exchangeAuthorizationCode(provider, {
+        code,
+        redirectUri: pending.redirectUri,
+        codeVerifier: pending.codeVerifier,
+        nonce: pending.nonce,
+    });
+
+    return findOrLinkOidcUser(provider.name, identity);
+};
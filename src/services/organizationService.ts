@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+import Organization, { Organization as OrganizationDocument, OrganizationRole } from '../models/Organization';
+import OrganizationInvitation from '../models/OrganizationInvitation';
+import Vehicle from '../models/Vehicle';
+import { User as UserDocument } from '../models/User';
+import { hashToken } from './tokenService';
+import { sendMailWithRetry, escapeHtml } from './emailService';
+
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
+export type OrganizationPermission =
+    | 'listings:create'
+    | 'listings:edit'
+    | 'listings:delete'
+    | 'members:manage'
+    | 'organization:manage';
+
+// O que cada papel pode fazer na organização
+export const ORGANIZATION_ROLE_PERMISSIONS: Record<OrganizationRole, OrganizationPermission[]> = {
+    owner: ['listings:create', 'listings:edit', 'listings:delete', 'members:manage', 'organization:manage'],
+    manager: ['listings:create', 'listings:edit', 'listings:delete', 'members:manage'],
+    salesperson: ['listings:create', 'listings:edit'],
+};
+
+type MemberList = Pick<OrganizationDocument, 'members'>;
+
+export const getMemberRole = (organization: MemberList, userId: string): OrganizationRole | null => {
+    const member = organization.members.find(m => String(m.user_id) === userId);
+    return member ? member.role : null;
+};
+
+export const hasOrganizationPermission = (organization: MemberList, userId: string, permission: OrganizationPermission) => {
+    const role = getMemberRole(organization, userId);
+    return Boolean(role && ORGANIZATION_ROLE_PERMISSIONS[role].includes(permission));
+};
+
+/**
+ * Gerentes só convidam e promovem vendedores; apenas donos atribuem os papéis de gerente e dono.
+ */
+export const canAssignRole = (actorRole: OrganizationRole | null, role: OrganizationRole) => {
+    if (actorRole === 'owner') {
+        return true;
+    }
+    return actorRole === 'manager' && role === 'salesperson';
+};
+
+/**
+ * Preenche o anunciante dos anúncios da loja com os padrões da organização quando não informado.
+ */
+export const applyOrganizationDefaults = <T extends Record<string, any>>(
+    organization: Pick<OrganizationDocument, 'announcerName' | 'announcerPhone'>,
+    data: T
+) => ({
+    ...data,
+    announcerName: data.announcerName || organization.announcerName,
+    announcerPhone: data.announcerPhone || organization.announcerPhone,
+});
+
+export const countOwners = (organization: MemberList) => organization.members.filter(m => m.role === 'owner').length;
+
+export const findUserOrganizations = (userId: string) => {
+    return Organization.find({ 'members.user_id': userId }).sort({ created_at: -1 });
+};
+
+// Retorna a organização apenas se o usuário for membro dela
+export const findMemberOrganization = (organizationId: string, userId: string) => {
+    return Organization.findOne({ _id: organizationId, 'members.user_id': userId });
+};
+
+/**
+ * Convida um e-mail para a organização. Um convite pendente anterior para o mesmo e-mail é substituído.
+ */
+export const createInvitation = async (organization: OrganizationDocument, inviter: UserDocument, email: string, role: OrganizationRole) => {
+    const normalizedEmail = email.toLowerCase();
+
+    await OrganizationInvitation.updateMany(
+        { organization_id: organization._id, email: normalizedEmail, status: 'pending' },
+        { $set: { status: 'revoked' } }
+    );
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const invitation = await OrganizationInvitation.create({
+        organization_id: organization._id,
+        email: normalizedEmail,
+        role,
+        tokenHash: hashToken(token),
+        invited_by: inviter._id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    });
+
+    const acceptUrl = `${process.env.FRONTEND_DOMAIN}/convites/loja/${token}`;
+
+    await sendMailWithRetry({
+        to: normalizedEmail,
+        subject: `.CARRO: Convite para a loja ${organization.name}`,
+        html: `
+            Olá,
+            <p>${escapeHtml(inviter.username)} convidou você para fazer parte da loja <b>${escapeHtml(organization.name)}</b> na .CARRO.</p>
+            <h3><a href="${acceptUrl}" style="color: #007bff; text-decoration: none;">Aceitar convite</a></h3>
+            <p>Entre (ou crie sua conta) com este mesmo e-mail para aceitar. O convite é válido por <b>7 dias</b>.</p>
+            <p>Se você não conhece esta loja, ignore este e-mail.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+
+    return invitation;
+};
+
+export type InvitationAcceptResult =
+    | { status: 'accepted'; organization: OrganizationDocument }
+    | { status: 'invalid' | 'email_mismatch' | 'already_member' };
+
+/**
+ * Aceita um convite pelo token do e-mail. O convite só vale para a conta com o mesmo e-mail convidado.
+ */
+export const acceptInvitation = async (token: string, user: UserDocument): Promise<InvitationAcceptResult> => {
+    const invitation = await OrganizationInvitation.findOne({
+        tokenHash: hashToken(token),
+        status: 'pending',
+        expiresAt: { $gt: new Date() },
+    });
+
+    if (!invitation) {
+        return { status: 'invalid' };
+    }
+
+    if (invitation.email !== user.email.toLowerCase()) {
+        return { status: 'email_mismatch' };
+    }
+
+    // Consome o convite de forma atômica (um mesmo link não pode ser usado duas vezes)
+    const consumed = await OrganizationInvitation.findOneAndUpdate(
+        { _id: invitation._id, status: 'pending' },
+        { $set: { status: 'accepted', accepted_at: new Date() } }
+    );
+    if (!consumed) {
+        return { status: 'invalid' };
+    }
+
+    const organization = await Organization.findOneAndUpdate(
+        { _id: invitation.organization_id, 'members.user_id': { $ne: user._id } },
+        { $push: { members: { user_id: user._id, role: invitation.role, joined_at: new Date() } } },
+        { new: true }
+    );
+
+    if (!organization) {
+        return (await Organization.exists({ _id: invitation.organization_id })) ? { status: 'already_member' } : { status: 'invalid' };
+    }
+
+    return { status: 'accepted', organization };
+};
+
+/**
+ * Passa para outro membro os anúncios da loja criados por quem está saindo, para que não sejam
+ * excluídos junto com a conta dele.
+ */
+export const transferOrganizationListings = (organizationId: unknown, fromUserId: string, toUserId: unknown) => {
+    return Vehicle.updateMany({ organization_id: organizationId, owner_id: fromUserId }, { $set: { owner_id: toUserId } });
+};
+
+/**
+ * Remove o usuário de todas as organizações (exclusão definitiva da conta).
+ * Os anúncios da loja criados por ele passam para um dono restante; se ele era o único dono,
+ * o membro mais antigo é promovido. Organizações sem nenhum membro são removidas.
+ * Retorna quantas participações foram encerradas.
+ */
+export const releaseOrganizationMemberships = async (userId: string) => {
+    const organizations = await Organization.find({ 'members.user_id': userId });
+
+    for (const organization of organizations) {
+        const remaining = organization.members
+            .filter(m => String(m.user_id) !== userId)
+            .sort((a, b) => (a.joined_at?.getTime() ?? 0) - (b.joined_at?.getTime() ?? 0));
+
+        if (remaining.length === 0) {
+            await OrganizationInvitation.deleteMany({ organization_id: organization._id });
+            await Vehicle.updateMany({ organization_id: organization._id }, { $unset: { organization_id: 1 } });
+            await Organization.deleteOne({ _id: organization._id });
+            continue;
+        }
+
+        if (!remaining.some(m => m.role === 'owner')) {
+            remaining[0].role = 'owner';
+        }
+        const newOwner = remaining.find(m => m.role === 'owner')!;
+
+        await transferOrganizationListings(organization._id, userId, newOwner.user_id);
+        organization.set('members', remaining);
+        await organization.save();
+    }
+
+    return organizations.length;
+};
@@ -0,0 +1,35 @@
+import bcrypt from 'bcryptjs';
+import { User } from '../models/User';
+
+// Quantidade de senhas anteriores que não podem ser reutilizadas
+const PASSWORD_HISTORY_SIZE = 5;
+
+export const hashPassword = async (password: string) => {
+    const salt = await bcrypt.genSalt(10);
+    return bcrypt.hash(password, salt);
+};
+
+/**
+ * Verifica se a senha candidata é igual à atual ou a uma das senhas recentes.
+ * O usuário precisa ter sido carregado com '+passwordHistory'.
+ */
+export const isRecentPassword = async (user: User, candidate: string) => {
+    const recentHashes = [user.password, ...(user.passwordHistory || [])].filter(Boolean) as string[];
+
+    for (const hash of recentHashes) {
+        if (await bcrypt.compare(candidate, hash)) {
+            return true;
+        }
+    }
+    return false;
+};
+
+/**
+ * Define a nova senha do usuário, movendo o hash atual para o histórico. Não salva o documento.
+ */
+export const applyNewPassword = async (user: User, newPassword: string) => {
+    if (user.password) {
+        user.passwordHistory = [user.password, ...(user.passwordHistory || [])].slice(0, PASSWORD_HISTORY_SIZE);
+    }
+    user.password = await hashPassword(newPassword);
+};
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import User, { User as UserDocument } from '../models/User';
+import PhoneVerification from '../models/PhoneVerification';
+import { hashToken } from './tokenService';
+import { sendSms } from './smsService';
+
+export const PHONE_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutos
+export const PHONE_CODE_MAX_ATTEMPTS = 5;
+export const PHONE_CODE_RESEND_COOLDOWN_MS = 60 * 1000; // 1 minuto entre envios
+
+export type PhoneConfirmationResult = 'verified' | 'invalid' | 'expired' | 'too_many_attempts';
+
+// Compara apenas os dígitos, para que "(11) 98765-4321" e "11987654321" sejam o mesmo número
+export const normalizePhone = (phone?: string) => (phone || '').replace(/\D/g, '');
+
+export const generatePhoneCode = () => crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+/**
+ * Retorna quanto tempo falta para poder enviar um novo código (0 se já for possível).
+ */
+export const getPhoneCodeRetryAfterMs = async (userId: string) => {
+    const pending = await PhoneVerification.findOne({ user_id: userId }).select('created_at');
+    if (!pending?.created_at) {
+        return 0;
+    }
+    return Math.max(0, pending.created_at.getTime() + PHONE_CODE_RESEND_COOLDOWN_MS - Date.now());
+};
+
+/**
+ * Gera um novo código para o telefone atual do usuário (invalidando o anterior) e o envia por SMS.
+ */
+export const sendPhoneVerificationCode = async (user: UserDocument) => {
+    const code = generatePhoneCode();
+    const phone = normalizePhone(user.phone);
+
+    await PhoneVerification.findOneAndUpdate(
+        { user_id: user._id },
+        { $set: { phone, codeHash: hashToken(code), attempts: 0, created_at: new Date(), expiresAt: new Date(Date.now() + PHONE_CODE_TTL_MS) } },
+        { upsert: true }
+    );
+
+    try {
+        await sendSms({ to: phone, body: `.CARRO: seu código de verificação é ${code}. Ele expira em 10 minutos.` });
+    } catch (smsError) {
+        // Um código que não chegou ao usuário não deve continuar válido nem bloquear um novo envio
+        await PhoneVerification.deleteOne({ user_id: user._id });
+        throw smsError;
+    }
+};
+
+/**
+ * Confere o código informado. Cada tentativa é contada de forma atômica antes da comparação,
+ * então requisições concorrentes não conseguem ultrapassar o limite de tentativas.
+ */
+export const confirmPhoneVerificationCode = async (user: UserDocument, code: string): Promise<PhoneConfirmationResult> => {
+    const pending = await PhoneVerification.findOneAndUpdate(
+        { user_id: user._id, expiresAt: { $gt: new Date() }, attempts: { $lt: PHONE_CODE_MAX_ATTEMPTS } },
+        { $inc: { attempts: 1 } },
+        { new: true }
+    );
+
+    if (!pending) {
+        const exhausted = await PhoneVerification.exists({ user_id: user._id, expiresAt: { $gt: new Date() } });
+        return exhausted ? 'too_many_attempts' : 'expired';
+    }
+
+    const expected = Buffer.from(pending.codeHash, 'hex');
+    const received = Buffer.from(hashToken(code), 'hex');
+    if (!crypto.timingSafeEqual(expected, received)) {
+        return 'invalid';
+    }
+
+    // O código só vale para o número ao qual foi enviado
+    if (pending.phone !== normalizePhone(user.phone)) {
+        await PhoneVerification.deleteOne({ _id: pending._id });
+        return 'expired';
+    }
+
+    await PhoneVerification.deleteOne({ _id: pending._id });
+    // Condicionado ao telefone atual, caso ele tenha sido alterado durante a confirmação
+    await User.updateOne({ _id: user._id, phone: user.phone }, { $set: { phoneVerified: true } });
+
+    return 'verified';
+};
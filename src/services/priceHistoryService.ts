@@ -0,0 +1,39 @@
+import PriceHistory from '../models/PriceHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reduções mais antigas que isso não contam para o filtro priceDropped da busca
+export const RECENT_PRICE_DROP_DAYS = 30;
+
+/**
+ * Campos do anúncio atualizados quando o preço muda, ou null se o preço não mudou.
+ * priceDroppedAt só fica preenchido enquanto a última alteração for uma redução.
+ */
+export const getPriceChangeFields = (currentPrice: number, newPrice: number, now: Date) => {
+    if (newPrice === currentPrice) {
+        return null;
+    }
+
+    return {
+        previousPrice: currentPrice,
+        priceDroppedAt: newPrice < currentPrice ? now : null,
+    };
+};
+
+/**
+ * Condição da busca para anúncios com redução de preço recente.
+ */
+export const recentPriceDropFilter = (now: Date = new Date()) => ({
+    priceDroppedAt: { $gte: new Date(now.getTime() - RECENT_PRICE_DROP_DAYS * DAY_MS) },
+});
+
+export const recordPriceChange = (vehicleId: string, price: number, previousPrice: number | undefined, changedBy: string) => {
+    return PriceHistory.create({ vehicle_id: vehicleId, price, previousPrice, changed_by: changedBy });
+};
+
+export const getPriceHistory = (vehicleId: string) => {
+    return PriceHistory.find({ vehicle_id: vehicleId })
+        .select('price previousPrice created_at')
+        .sort({ created_at: 1 })
+        .lean();
+};
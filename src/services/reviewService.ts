@@ -0,0 +1,67 @@
+import { Types } from 'mongoose';
+import Review from '../models/Review';
+import Contact from '../models/Contact';
+import { Vehicle as VehicleDocument } from '../models/Vehicle';
+
+export interface RatingStats {
+    average: number | null; // Média com uma casa decimal; nula sem avaliações
+    count: number;
+}
+
+export const toRatingStats = (total: number, count: number): RatingStats => ({
+    average: count > 0 ? Math.round((total / count) * 10) / 10 : null,
+    count,
+});
+
+/**
+ * Registra (ou atualiza) o contato do comprador com o dono do anúncio.
+ */
+export const recordContact = (buyerId: string, vehicle: Pick<VehicleDocument, '_id' | 'owner_id'>) => {
+    return Contact.updateOne(
+        { buyer_id: buyerId, vehicle_id: vehicle._id },
+        {
+            $set: { seller_id: vehicle.owner_id, last_contacted_at: new Date() },
+            $setOnInsert: { buyer_id: buyerId, vehicle_id: vehicle._id, created_at: new Date() },
+        },
+        { upsert: true }
+    );
+};
+
+// Só pode avaliar quem entrou em contato com o vendedor (sobre o anúncio informado, se houver)
+export const hasContactedSeller = async (buyerId: string, sellerId: string, vehicleId?: string) => {
+    const filter: Record<string, unknown> = { buyer_id: buyerId, seller_id: sellerId };
+    if (vehicleId) {
+        filter.vehicle_id = vehicleId;
+    }
+    return Boolean(await Contact.exists(filter));
+};
+
+/**
+ * Médias das avaliações publicadas de vários vendedores, com uma única agregação.
+ */
+export const getRatingStatsBySeller = async (sellerIds: unknown[]) => {
+    const ids = sellerIds.map(id => new Types.ObjectId(String(id)));
+    const rows = await Review.aggregate<{ _id: Types.ObjectId; total: number; count: number }>([
+        { $match: { seller_id: { $in: ids }, status: 'published' } },
+        { $group: { _id: '$seller_id', total: { $sum: '$rating' }, count: { $sum: 1 } } },
+    ]);
+
+    return new Map(rows.map(row => [String(row._id), toRatingStats(row.total, row.count)]));
+};
+
+export const getSellerRating = async (sellerId: string) => {
+    return (await getRatingStatsBySeller([sellerId])).get(sellerId) ?? toRatingStats(0, 0);
+};
+
+/**
+ * Acrescenta sellerRating a veículos já convertidos em objetos simples.
+ */
+export const attachSellerRating = async <T extends Record<string, any>>(vehicles: T[]) => {
+    const ownerIds = Array.from(new Set(vehicles.map(vehicle => String(vehicle.owner_id))));
+    const statsBySeller = ownerIds.length > 0 ? await getRatingStatsBySeller(ownerIds) : new Map<string, RatingStats>();
+
+    return vehicles.map(vehicle => ({
+        ...vehicle,
+        sellerRating: statsBySeller.get(String(vehicle.owner_id)) ?? toRatingStats(0, 0),
+    }));
+};
@@ -0,0 +1,152 @@
+import SavedSearch, { SavedSearch as SavedSearchDocument, AlertFrequency, ALERT_FREQUENCIES } from '../models/SavedSearch';
+import Vehicle from '../models/Vehicle';
+import User from '../models/User';
+import { Clock, systemClock } from '../jobs/scheduler';
+import { buildVehicleSearchFilter, toVehicleListItems, LISTING_EXCLUDED_FIELDS } from './vehicleService';
+import { sendMailWithRetry, escapeHtml } from './emailService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_SAVED_SEARCHES_PER_USER = 20;
+export const MAX_ALERT_LISTINGS = 10; // Anúncios exibidos no e-mail; os demais aparecem no link da busca
+
+// Intervalo mínimo entre dois alertas de cada frequência (instant: a cada execução da tarefa)
+export const ALERT_INTERVAL_MS: Record<AlertFrequency, number> = {
+    instant: 0,
+    daily: DAY_MS,
+    weekly: 7 * DAY_MS,
+};
+
+export const isSavedSearchDue = (frequency: AlertFrequency, lastRunAt: Date, now: Date) => {
+    return now.getTime() - lastRunAt.getTime() >= ALERT_INTERVAL_MS[frequency];
+};
+
+// Mesma regra de isSavedSearchDue, como consulta
+const dueSavedSearchFilter = (now: Date) => ({
+    $or: ALERT_FREQUENCIES.map(frequency => ({
+        frequency,
+        last_run_at: { $lte: new Date(now.getTime() - ALERT_INTERVAL_MS[frequency]) },
+    })),
+});
+
+/**
+ * Filtro dos anúncios novos de uma busca salva: os mesmos da busca pública, publicados no intervalo informado,
+ * sem os anúncios do próprio usuário. Rascunhos publicados depois contam a partir da publicação, não da criação.
+ */
+export const savedSearchListingsFilter = (search: Pick<SavedSearchDocument, 'query' | 'user_id'>, since: Date, until: Date) => ({
+    ...buildVehicleSearchFilter(search.query, until),
+    owner_id: { $ne: search.user_id },
+    publishedAt: { $gt: since, $lte: until },
+});
+
+export const savedSearchUrl = (query: Record<string, string>) => {
+    return `${process.env.FRONTEND_DOMAIN}/busca?${new URLSearchParams(query).toString()}`;
+};
+
+const formatPrice = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+/**
+ * E-mail com os novos anúncios de uma busca salva (miniatura, título, preço e cidade de cada um).
+ */
+export const buildSavedSearchDigest = (searchName: string, listings: Record<string, any>[], total: number, searchUrl: string) => {
+    const items = listings.map(listing => {
+        const vehicleUrl = `${process.env.FRONTEND_DOMAIN}/anuncios/${listing._id}`;
+        const thumbnail = listing.firstImageUrl
+            ? `<img src="${listing.firstImageUrl}" alt="" width="120" style="border-radius: 4px; vertical-align: middle; margin-right: 12px;"/>`
+            : '';
+        const location = listing.city && listing.state ? ` · ${escapeHtml(listing.city)}/${escapeHtml(listing.state)}` : '';
+        return `
+            <tr><td style="padding: 8px 0;">
+                <a href="${vehicleUrl}" style="color: #007bff; text-decoration: none;">${thumbnail}<b>${escapeHtml(listing.title)}</b></a>
+                <br/>${formatPrice(listing.price)}${location}
+            </td></tr>`;
+    }).join('');
+
+    const more = total > listings.length
+        ? `<p>E mais ${total - listings.length} anúncio(s). <a href="${searchUrl}" style="color: #007bff; text-decoration: none;">Ver todos</a></p>`
+        : `<p><a href="${searchUrl}" style="color: #007bff; text-decoration: none;">Abrir a busca</a></p>`;
+
+    return {
+        subject: `.CARRO: ${total} novo(s) anúncio(s) para "${searchName}"`,
+        html: `
+            <p>Encontramos ${total} novo(s) anúncio(s) para a sua busca salva <b>${escapeHtml(searchName)}</b>:</p>
+            <table>${items}</table>
+            ${more}
+        `,
+    };
+};
+
+// Envia o alerta de uma busca salva já reservada; retorna se o e-mail foi enviado
+const deliverSavedSearchAlert = async (search: SavedSearchDocument, now: Date) => {
+    const filter = savedSearchListingsFilter(search, search.last_run_at, now);
+    const total = await Vehicle.countDocuments(filter);
+    if (total === 0) {
+        return false;
+    }
+
+    const user = await User.findById(search.user_id).select('username email deletionScheduledFor');
+    if (!user || user.deletionScheduledFor) {
+        return false;
+    }
+
+    const vehicles = await Vehicle.find(filter)
+        .select(LISTING_EXCLUDED_FIELDS)
+        .sort({ publishedAt: -1 })
+        .limit(MAX_ALERT_LISTINGS);
+    const { subject, html } = buildSavedSearchDigest(search.name, await toVehicleListItems(vehicles), total, savedSearchUrl(search.query));
+
+    await sendMailWithRetry({
+        to: user.email,
+        subject,
+        html: `
+            Olá ${escapeHtml(user.username || 'usuário')},
+            ${html}
+            <p>Você recebe este alerta porque salvou esta busca. Para parar, exclua a busca salva na sua conta.</p>
+            <p>Obrigado,<br/>Equipe .CARRO</p>
+        `,
+    });
+    await SavedSearch.updateOne({ _id: search._id }, { $set: { last_sent_at: now } });
+    return true;
+};
+
+// Processa uma busca salva; retorna se o e-mail foi enviado
+const sendSavedSearchAlert = async (search: SavedSearchDocument, now: Date) => {
+    // Avança a janela antes de buscar os anúncios para que duas execuções não enviem o mesmo alerta
+    const claimed = await SavedSearch.findOneAndUpdate(
+        { _id: search._id, last_run_at: search.last_run_at },
+        { $set: { last_run_at: now } }
+    );
+    if (!claimed) {
+        return false;
+    }
+
+    try {
+        return await deliverSavedSearchAlert(search, now);
+    } catch (err) {
+        // Devolve a janela para que a próxima execução envie os mesmos anúncios (se nenhuma outra já a avançou)
+        await SavedSearch.updateOne({ _id: search._id, last_run_at: now }, { $set: { last_run_at: search.last_run_at } });
+        throw err;
+    }
+};
+
+/**
+ * Envia os alertas das buscas salvas cuja frequência venceu, com os anúncios publicados desde a execução anterior.
+ * Uma busca com erro é registrada e não impede as demais. Retorna quantos e-mails foram enviados.
+ */
+export const sendSavedSearchAlerts = async (clock: Clock = systemClock) => {
+    const now = clock.now();
+    const searches = await SavedSearch.find(dueSavedSearchFilter(now));
+
+    let sent = 0;
+    for (const search of searches) {
+        try {
+            if (await sendSavedSearchAlert(search, now)) {
+                sent++;
+            }
+        } catch (err) {
+            console.error(`Erro ao enviar alerta da busca salva ${search._id}:`, err);
+        }
+    }
+
+    return sent;
+};
@@ -0,0 +1,20 @@
+import Vehicle from '../models/Vehicle';
+import { getSellerRating } from './reviewService';
+import { publicVehicleFilter } from './vehicleService';
+import { getAverageResponseMinutes } from './messagingService';
+
+/**
+ * Estatísticas públicas do vendedor.
+ * averageResponseTimeMinutes fica nulo enquanto o vendedor não responder nenhuma conversa.
+ */
+export const getSellerStats = async (ownerId: string) => {
+    const totalListings = await Vehicle.countDocuments({ owner_id: ownerId, ...publicVehicleFilter() });
+    const soldCount = await Vehicle.countDocuments({ owner_id: ownerId, ...publicVehicleFilter(['sold']) });
+
+    return {
+        totalListings,
+        soldCount,
+        averageResponseTimeMinutes: await getAverageResponseMinutes(ownerId),
+        rating: await getSellerRating(ownerId),
+    };
+};
@@ -0,0 +1,130 @@
+import { Request } from 'express';
+import Session from '../models/Session';
+import { signAccessToken, signRefreshToken, verifyToken, hashToken, REFRESH_TOKEN_TTL_MS } from './tokenService';
+
+// Gera um rótulo legível para o dispositivo a partir do User-Agent
+const describeDevice = (userAgent?: string): string => {
+    if (!userAgent) {
+        return 'Dispositivo desconhecido';
+    }
+
+    const platforms: [RegExp, string][] = [
+        [/android/i, 'Android'],
+        [/iphone|ipad|ipod/i, 'iOS'],
+        [/windows/i, 'Windows'],
+        [/mac os x|macintosh/i, 'macOS'],
+        [/linux/i, 'Linux'],
+    ];
+    const browsers: [RegExp, string][] = [
+        [/edg\//i, 'Edge'],
+        [/opr\/|opera/i, 'Opera'],
+        [/chrome\//i, 'Chrome'],
+        [/firefox\//i, 'Firefox'],
+        [/safari\//i, 'Safari'],
+    ];
+
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (!platform && !browser) {
+        return userAgent.slice(0, 100);
+    }
+    return [browser, platform].filter(Boolean).join(' em ');
+};
+
+/**
+ * Cria uma nova sessão para o usuário e emite o par de tokens (access + refresh) vinculado a ela.
+ */
+export const createSession = async (userId: string, req: Request) => {
+    const userAgent = req.get('User-Agent');
+    const deviceLabel = typeof req.body?.deviceLabel === 'string' && req.body.deviceLabel.trim() !== ''
+        ? req.body.deviceLabel.trim().slice(0, 100)
+        : describeDevice(userAgent);
+
+    const session = new Session({
+        user_id: userId,
+        deviceLabel,
+        ip: req.ip,
+        userAgent,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+
+    const sessionId = session._id.toString();
+    const refreshToken = signRefreshToken(userId, sessionId);
+    session.refreshTokenHash = hashToken(refreshToken);
+    await session.save();
+
+    const accessToken = signAccessToken(userId, sessionId);
+
+    return { accessToken, refreshToken, session };
+};
+
+/**
+ * Troca um refresh token válido por um novo par de tokens, rotacionando o refresh token da sessão.
+ * Se um refresh token já rotacionado for reapresentado, a sessão inteira (família de tokens) é revogada.
+ * Retorna null quando o token não pode ser usado.
+ */
+export const rotateSession = async (refreshToken: string, req: Request) => {
+    const decoded = verifyToken(refreshToken, 'refresh');
+
+    if (!decoded.sid) {
+        return null;
+    }
+
+    const session = await Session.findById(decoded.sid);
+
+    if (!session || session.user_id.toString() !== decoded.id || session.revokedAt || session.expiresAt < new Date()) {
+        return null;
+    }
+
+    const newRefreshToken = signRefreshToken(decoded.id, decoded.sid);
+
+    // A troca só acontece se o token apresentado ainda for o atual da sessão (operação atômica)
+    const rotated = await Session.findOneAndUpdate(
+        { _id: decoded.sid, refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+        {
+            $set: {
+                refreshTokenHash: hashToken(newRefreshToken),
+                last_used_at: new Date(),
+                ip: req.ip,
+                userAgent: req.get('User-Agent'),
+            },
+        },
+        { new: true }
+    );
+
+    if (!rotated) {
+        // O token tem assinatura válida, mas já foi substituído: indica reutilização de um token vazado
+        console.warn(`Reutilização de refresh token detectada na sessão ${decoded.sid}. Revogando a sessão.`);
+        await revokeSession(decoded.sid, 'refresh_token_reuse');
+        return null;
+    }
+
+    const accessToken = signAccessToken(decoded.id, decoded.sid);
+
+    return { accessToken, refreshToken: newRefreshToken, session: rotated };
+};
+
+export const listActiveSessions = async (userId: string) => {
+    return Session.find({ user_id: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+        .select('-refreshTokenHash')
+        .sort({ last_used_at: -1 });
+};
+
+export const revokeSession = async (sessionId: string, reason: string, userId?: string) => {
+    const filter: any = { _id: sessionId, revokedAt: null };
+    if (userId) {
+        filter.user_id = userId;
+    }
+    const result = await Session.updateOne(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+    return result.modifiedCount > 0;
+};
+
+export const revokeAllSessions = async (userId: string, reason: string, exceptSessionId?: string) => {
+    const filter: any = { user_id: userId, revokedAt: null };
+    if (exceptSessionId) {
+        filter._id = { $ne: exceptSessionId };
+    }
+    const result = await Session.updateMany(filter, { $set: { revokedAt: new Date(), revokedReason: reason } });
+    return result.modifiedCount;
+};
@@ -0,0 +1,40 @@
+/**
+ * Envio de SMS por um provedor plugável. O provedor de console (padrão) apenas registra a mensagem no log,
+ * para desenvolvimento; o provedor em memória guarda as mensagens para os testes.
+ * Um provedor real pode ser registrado na inicialização com configureSmsProvider.
+ */
+
+export interface SmsMessage {
+    to: string;
+    body: string;
+}
+
+export interface SmsProvider {
+    send(message: SmsMessage): Promise<void>;
+}
+
+export class ConsoleSmsProvider implements SmsProvider {
+    async send(message: SmsMessage) {
+        console.log(`[SMS para ${message.to}] ${message.body}`);
+    }
+}
+
+export class MemorySmsProvider implements SmsProvider {
+    readonly messages: SmsMessage[] = [];
+
+    async send(message: SmsMessage) {
+        this.messages.push({ ...message });
+    }
+
+    lastMessageTo(to: string) {
+        return [...this.messages].reverse().find(message => message.to === to);
+    }
+}
+
+let provider: SmsProvider = new ConsoleSmsProvider();
+
+export const configureSmsProvider = (newProvider: SmsProvider) => {
+    provider = newProvider;
+};
+
+export const sendSms = (message: SmsMessage) => provider.send(message);
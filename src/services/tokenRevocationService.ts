@@ -0,0 +1,52 @@
+import RevokedToken from '../models/RevokedToken';
+import Session from '../models/Session';
+import User from '../models/User';
+import { TokenPayload } from './tokenService';
+import { revokeAllSessions } from './sessionService';
+
+/**
+ * Revoga um access token específico até o seu vencimento natural.
+ */
+export const revokeAccessToken = async (payload: TokenPayload) => {
+    if (!payload.jti || !payload.exp) {
+        return;
+    }
+    await RevokedToken.updateOne(
+        { jti: payload.jti },
+        { $setOnInsert: { jti: payload.jti, user_id: payload.id, expiresAt: new Date(payload.exp * 1000) } },
+        { upsert: true }
+    );
+};
+
+/**
+ * Verifica se o access token ainda pode ser usado: não pode estar na lista de revogação,
+ * ter sido emitido antes de uma revogação geral do usuário, nem pertencer a uma sessão revogada.
+ */
+export const isAccessTokenRevoked = async (payload: TokenPayload, tokensValidAfter?: Date) => {
+    // iat tem precisão de segundos: tokens emitidos no mesmo segundo da revogação passam aqui, mas os anteriores
+    // a ela pertencem a sessões já revogadas e são recusados pela checagem da sessão abaixo
+    if (tokensValidAfter && payload.iat !== undefined && payload.iat < Math.floor(tokensValidAfter.getTime() / 1000)) {
+        return true;
+    }
+
+    if (payload.jti && await RevokedToken.exists({ jti: payload.jti })) {
+        return true;
+    }
+
+    if (payload.sid) {
+        const activeSession = await Session.exists({ _id: payload.sid, revokedAt: null });
+        if (!activeSession) {
+            return true;
+        }
+    }
+
+    return false;
+};
+
+/**
+ * Invalida todos os tokens já emitidos para o usuário (access e refresh), por exemplo após a troca de senha.
+ */
+export const revokeAllUserTokens = async (userId: string, reason: string) => {
+    await User.updateOne({ _id: userId }, { $set: { tokensValidAfter: new Date() } });
+    await revokeAllSessions(userId, reason);
+};
@@ -0,0 +1,80 @@
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getSigningKey, getVerificationKey } from './keyManager';
+
+export const ACCESS_TOKEN_TTL = '1h';
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 dias
+
+export type TokenType = 'access' | 'refresh';
+
+export interface TokenPayload {
+    id: string;
+    sid?: string; // ID da sessão que originou o token
+    type: TokenType;
+    jti?: string;
+    iat?: number;
+    exp?: number;
+}
+
+// Assina com a chave atual e identifica a chave no cabeçalho (kid). Todo token recebe um jti único,
+// que permite revogá-lo individualmente.
+const signJwt = (payload: object, expiresIn: string | number) => {
+    const key = getSigningKey();
+    return jwt.sign(payload, key.privateKey, {
+        algorithm: key.alg,
+        keyid: key.kid,
+        expiresIn,
+        jwtid: uuidv4(),
+    } as jwt.SignOptions);
+};
+
+// Verifica com a chave pública indicada pelo kid, que pode ser a atual ou uma anterior ainda em rotação
+const verifyJwt = (token: string) => {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    const key = kid ? getVerificationKey(kid) : undefined;
+
+    if (!key) {
+        throw new jwt.JsonWebTokenError('unknown signing key');
+    }
+
+    return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as jwt.JwtPayload;
+};
+
+export const signAccessToken = (userId: string, sessionId: string) => {
+    return signJwt({ id: userId, sid: sessionId, type: 'access' }, ACCESS_TOKEN_TTL);
+};
+
+export const signRefreshToken = (userId: string, sessionId: string) => {
+    // O jti também garante que cada rotação gere um token diferente, mesmo dentro do mesmo segundo
+    return signJwt({ id: userId, sid: sessionId, type: 'refresh' }, Math.floor(REFRESH_TOKEN_TTL_MS / 1000));
+};
+
+// Aceita apenas tokens de sessão do tipo esperado. Tokens de propósito específico (desafio 2FA,
+// verificação de e-mail) não têm tipo e por isso nunca valem como token de acesso.
+export const verifyToken = (token: string, expectedType: TokenType = 'access') => {
+    const decoded = verifyJwt(token);
+    if (decoded.purpose || decoded.type !== expectedType) {
+        throw new jwt.JsonWebTokenError('invalid token type');
+    }
+    return decoded as TokenPayload;
+};
+
+// Tokens de uso específico (verificação de e-mail, etc.) carregam o propósito para não serem aceitos em outro fluxo
+export const signPurposeToken = (payload: object, purpose: string, expiresIn: string | number) => {
+    return signJwt({ ...payload, purpose }, expiresIn);
+};
+
+export const verifyPurposeToken = (token: string, purpose: string) => {
+    const decoded = verifyJwt(token);
+    if (decoded.purpose !== purpose) {
+        throw new jwt.JsonWebTokenError('invalid token purpose');
+    }
+    return decoded;
+};
+
+// Tokens opacos (refresh tokens, links enviados por e-mail) são armazenados apenas como hash SHA-256
+export const hashToken = (token: string) => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
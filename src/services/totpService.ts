@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+
+// Implementação do TOTP (RFC 6238) sobre HOTP (RFC 4226) com HMAC-SHA1, compatível com os apps autenticadores
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_ISSUER = '.CARRO';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Caractere base32 inválido');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20)); // 160 bits, recomendado pela RFC 4226
+
+const hotp = (key: Buffer, counter: number, digits: number) => {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    counterBuffer.writeUInt32BE(counter % 0x100000000, 4);
+
+    const hmac = crypto.createHmac('sha1', key).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3];
+
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const getTimeStep = (timeMs: number = Date.now()) => Math.floor(timeMs / 1000 / TOTP_STEP_SECONDS);
+
+export const generateTotp = (secret: string, timeMs: number = Date.now(), digits: number = TOTP_DIGITS) => {
+    return hotp(base32Decode(secret), getTimeStep(timeMs), digits);
+};
+
+/**
+ * Verifica um código TOTP aceitando uma janela de passos vizinhos para tolerar diferença de relógio.
+ * Retorna o passo que corresponde ao código, ou null. Passos já usados (lastUsedStep) são rejeitados para evitar replay.
+ */
+export const verifyTotp = (secret: string, code: string, options: { timeMs?: number; window?: number; lastUsedStep?: number } = {}) => {
+    const { timeMs = Date.now(), window = 1, lastUsedStep } = options;
+    const normalizedCode = code.replace(/\s/g, '');
+
+    if (!/^\d+$/.test(normalizedCode) || normalizedCode.length !== TOTP_DIGITS) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = getTimeStep(timeMs);
+
+    for (let offset = -window; offset <= window; offset++) {
+        const step = currentStep + offset;
+        if (lastUsedStep !== undefined && step <= lastUsedStep) {
+            continue;
+        }
+        const expected = hotp(key, step, TOTP_DIGITS);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalizedCode))) {
+            return step;
+        }
+    }
+
+    return null;
+};
+
+export const buildOtpauthUri = (secret: string, accountName: string) => {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: TOTP_DIGITS.toString(),
+        period: TOTP_STEP_SECONDS.toString(),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Códigos de recuperação de uso único no formato xxxxx-xxxxx
+export const generateRecoveryCodes = (count = 10) => {
+    return Array.from({ length: count }, () => {
+        const raw = crypto.randomBytes(5).toString('hex');
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+};
+
+export const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase();
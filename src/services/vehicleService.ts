@@ -0,0 +1,345 @@
+import { Request } from 'express';
+import Vehicle, { Vehicle as VehicleDocument, VehicleStatus } from '../models/Vehicle';
+import Image from '../models/Image';
+import PriceHistory from '../models/PriceHistory';
+import Favorite from '../models/Favorite';
+import User from '../models/User';
+import Organization from '../models/Organization';
+import cloudinary from '../config/cloudinary';
+import { normalizePhone } from './phoneVerificationService';
+import { hasOrganizationPermission, OrganizationPermission } from './organizationService';
+import { attachSellerRating } from './reviewService';
+import { attachFavoriteFlag } from './favoriteService';
+import { recentPriceDropFilter } from './priceHistoryService';
+
+/**
+ * Remove um veículo por completo: imagens no Cloudinary (pasta vehicles/<id>), registros de Image,
+ * histórico de preços, favoritos e o próprio veículo.
+ * Não verifica permissões; quem chama é responsável por isso.
+ */
+export const purgeVehicle = async (id: string) => {
+    // 1. Exclui todas as imagens da pasta do veículo no Cloudinary
+    if (id && id.trim() !== '') {
+        const folderPath = `vehicles/${id}`;
+        try {
+            // Exclui todas as imagens que começam com o prefixo da pasta
+            await cloudinary.api.delete_resources_by_prefix(`${folderPath}/`);
+
+            // Tenta excluir a pasta vazia (se existir)
+            try {
+                await cloudinary.api.delete_folder(folderPath);
+            } catch (folderError: any) {
+                // Ignora erro se a pasta não existir ou não estiver vazia
+            }
+        } catch (cloudinaryError: any) {
+            console.warn(`Erro ao excluir imagens/pasta do Cloudinary para veículo ${id}:`, cloudinaryError.message);
+        }
+    }
+
+    // 2. Exclui os registros de imagem da coleção Image no banco de dados
+    await Image.deleteMany({ vehicle_id: id });
+    await PriceHistory.deleteMany({ vehicle_id: id });
+    await Favorite.deleteMany({ vehicle_id: id });
+
+    // 3. Exclui o registro do veículo da coleção Vehicle no banco de dados
+    const result = await Vehicle.deleteOne({ _id: id });
+
+    return result.deletedCount > 0;
+};
+
+/**
+ * Busca um veículo que o usuário pode alterar. Anúncios de loja dependem do papel do usuário na
+ * organização (quem saiu da loja perde o acesso); os demais, de ser o dono do anúncio.
+ */
+export const findEditableVehicle = async (vehicleId: string, userId: string, permission: OrganizationPermission = 'listings:edit') => {
+    const vehicle = await Vehicle.findById(vehicleId);
+    if (!vehicle) {
+        return null;
+    }
+
+    if (vehicle.organization_id) {
+        const organization = await Organization.findById(vehicle.organization_id).select('members');
+        return organization && hasOrganizationPermission(organization, userId, permission) ? vehicle : null;
+    }
+
+    return String(vehicle.owner_id) === userId ? vehicle : null;
+};
+
+// A venda encerra o anúncio: os dados e as fotos ficam como estavam no momento da venda
+export const SOLD_VEHICLE_LOCKED_MESSAGE = 'Anúncios vendidos não podem ser editados';
+
+export const isVehicleContentLocked = (vehicle: Pick<VehicleDocument, 'status'>) => vehicle.status === 'sold';
+
+/**
+ * Selo de vendedor verificado: o telefone do anúncio é o telefone já verificado do dono do veículo.
+ */
+export const isVerifiedSeller = (owner: { phone?: string; phoneVerified?: boolean } | null | undefined, announcerPhone?: string) => {
+    return Boolean(owner?.phoneVerified && owner.phone && normalizePhone(owner.phone) === normalizePhone(announcerPhone));
+};
+
+/**
+ * Acrescenta verifiedSeller a veículos já convertidos em objetos simples, com uma única consulta aos donos.
+ */
+export const attachVerifiedSeller = async <T extends Record<string, any>>(vehicles: T[]) => {
+    const ownerIds = Array.from(new Set(vehicles.map(vehicle => String(vehicle.owner_id))));
+    const owners = await User.find({ _id: { $in: ownerIds } }).select('phone phoneVerified').lean();
+    const ownersById = new Map(owners.map(owner => [String(owner._id), owner]));
+
+    return vehicles.map(vehicle => ({
+        ...vehicle,
+        verifiedSeller: isVerifiedSeller(ownersById.get(String(vehicle.owner_id)), vehicle.announcerPhone),
+    }));
+};
+
+/**
+ * Condição aplicada a toda consulta pública de veículos (listagens, busca, página do anúncio).
+ * Por padrão apenas anúncios ativos; anúncios criados antes do campo status não o têm e contam como ativos.
+ */
+export const publicVehicleFilter = (statuses: VehicleStatus[] = ['active']) => ({
+    ownerPendingDeletion: { $ne: true },
+    status: { $in: statuses.includes('active') ? [...statuses, null] : statuses },
+});
+
+export type VehicleStatusAction = 'publish' | 'pause' | 'sell' | 'reactivate';
+
+// Status de origem aceitos por cada transição e o status resultante
+export const VEHICLE_STATUS_TRANSITIONS: Record<VehicleStatusAction, { from: VehicleStatus[]; to: VehicleStatus }> = {
+    publish: { from: ['draft'], to: 'active' },
+    pause: { from: ['active'], to: 'paused' },
+    sell: { from: ['active', 'paused', 'expired'], to: 'sold' },
+    reactivate: { from: ['paused', 'expired'], to: 'active' },
+};
+
+/**
+ * Retorna o novo status do anúncio, ou null se a transição não for permitida a partir do status atual.
+ */
+export const getNextVehicleStatus = (current: VehicleStatus | undefined, action: VehicleStatusAction) => {
+    const transition = VEHICLE_STATUS_TRANSITIONS[action];
+    return transition.from.includes(current ?? 'active') ? transition.to : null;
+};
+
+/**
+ * Filtro pelo status lido, para que atualizações simultâneas do anúncio não se sobreponham
+ * (anúncios sem o campo status são tratados como ativos).
+ */
+export const currentStatusFilter = (status: VehicleStatus | undefined) => {
+    return (status ?? 'active') === 'active' ? { $in: ['active', null] } : status;
+};
+
+/**
+ * Dados calculados incluídos em toda resposta de veículo (listagens e página do anúncio):
+ * selo de vendedor verificado, avaliação do vendedor e, para usuários autenticados, isFavorited.
+ */
+export const decorateVehicles = async <T extends Record<string, any>>(vehicles: T[], viewerId?: string) => {
+    return attachFavoriteFlag(await attachSellerRating(await attachVerifiedSeller(vehicles)), viewerId);
+};
+
+// Função auxiliar para remover acentos de uma string
+const stripAccents = (str: string): string => {
+    return str.normalize("NFD").replace(/\p{Diacritic}/gu, "");
+};
+
+// Escapa os caracteres especiais para que o texto do usuário seja buscado literalmente, e não como expressão regular
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Busca "contém", sem diferenciar maiúsculas de minúsculas
+const containsText = (value: string) => new RegExp(escapeRegex(value), 'i');
+
+// Parâmetros da query string aceitos como filtro pela busca (e que podem ser salvos em uma busca salva)
+export const SEARCH_FILTER_PARAMS = [
+    'name', 'brand', 'vehicleModel', 'engine', 'year', 'minYear', 'maxYear', 'minPrice', 'maxPrice', 'minMileage', 'maxMileage',
+    'state', 'city', 'fuel', 'transmission', 'bodyType', 'color', 'priceDropped',
+] as const;
+export type SearchFilterParam = typeof SEARCH_FILTER_PARAMS[number];
+
+/**
+ * Filtro da busca de veículos a partir dos parâmetros da query string. Usado pela busca e pelos alertas das
+ * buscas salvas, para que os dois nunca discordem sobre quais anúncios correspondem aos mesmos parâmetros.
+ */
+export const buildVehicleSearchFilter = (query: Record<string, unknown>, now: Date = new Date()) => {
+    const { brand, vehicleModel, engine, year, minPrice, maxPrice, state, city, fuel, transmission, bodyType, color, name, minMileage, maxMileage, minYear, maxYear, priceDropped } = query;
+
+    const filter: any = publicVehicleFilter();
+
+    if (name) {
+        const keywords = (name as string).split(' ').filter(Boolean); // Divide por espaço e remove strings vazias
+        const keywordFilters = keywords.map(keyword => {
+            const strippedKeyword = stripAccents(keyword); // Remove acentos da palavra-chave
+            const searchRegex = containsText(strippedKeyword);
+            const yearSearch = parseInt(keyword);
+            return {
+                $or: [
+                    { title: searchRegex },
+                    { brand: searchRegex },
+                    { vehicleModel: searchRegex },
+                    { color: searchRegex },
+                    { state: searchRegex },
+                    { city: searchRegex },
+                    ...(isNaN(yearSearch) ? [] : [{ year: yearSearch }]), // Adiciona busca por ano apenas se for um número válido
+                ]
+            };
+        });
+        filter.$and = [...(filter.$and || []), ...keywordFilters];
+    }
+    if (brand) {
+        filter.brand = { $regex: containsText(stripAccents(brand as string)) }; // Aplica stripAccents ao filtro de marca
+    }
+    if (vehicleModel) {
+        filter.vehicleModel = { $regex: containsText(stripAccents(vehicleModel as string)) }; // Aplica stripAccents ao filtro de modelo de veículo
+    }
+    if (engine) {
+        filter.engine = { $regex: containsText(stripAccents(engine as string)) }; // Aplica stripAccents ao filtro de motorização
+    }
+
+    // Validação para campos numéricos
+    const parsedYear = parseInt(year as string);
+    if (!isNaN(parsedYear)) {
+        filter.year = parsedYear;
+    }
+
+    const parsedMinPrice = parseFloat(minPrice as string);
+    if (!isNaN(parsedMinPrice)) {
+        filter.price = { ...filter.price, $gte: parsedMinPrice };
+    }
+
+    const parsedMaxPrice = parseFloat(maxPrice as string);
+    if (!isNaN(parsedMaxPrice)) {
+        filter.price = { ...filter.price, $lte: parsedMaxPrice };
+    }
+
+    if (state) {
+        filter.state = { $regex: containsText(state as string) };
+    }
+    if (city) {
+        filter.city = { $regex: containsText(city as string) };
+    }
+    if (fuel) {
+        filter.fuel = { $regex: containsText(fuel as string) };
+    }
+    if (transmission) {
+        filter.transmission = { $regex: containsText(transmission as string) };
+    }
+    if (bodyType) {
+        filter.bodyType = { $regex: containsText(bodyType as string) };
+    }
+    if (color) {
+        filter.color = { $regex: containsText(stripAccents(color as string)) }; // Aplica stripAccents ao filtro de cor
+    }
+
+    const parsedMinMileage = parseInt(minMileage as string);
+    if (!isNaN(parsedMinMileage)) {
+        filter.mileage = { ...filter.mileage, $gte: parsedMinMileage };
+    }
+
+    const parsedMaxMileage = parseInt(maxMileage as string);
+    if (!isNaN(parsedMaxMileage)) {
+        filter.mileage = { ...filter.mileage, $lte: parsedMaxMileage };
+    }
+
+    const parsedMinYear = parseInt(minYear as string);
+    if (!isNaN(parsedMinYear)) {
+        filter.year = { ...filter.year, $gte: parsedMinYear };
+    }
+
+    const parsedMaxYear = parseInt(maxYear as string);
+    if (!isNaN(parsedMaxYear)) {
+        filter.year = { ...filter.year, $lte: parsedMaxYear };
+    }
+
+    // Apenas anúncios com redução de preço recente (combine com sortBy=priceDroppedAt para ver as mais recentes primeiro)
+    if (priceDropped === 'true') {
+        Object.assign(filter, recentPriceDropFilter(now));
+    }
+
+    return filter;
+};
+
+// Campos omitidos nas listagens de veículos
+export const LISTING_EXCLUDED_FIELDS = '-description -features -images';
+
+// Campos omitidos em toda resposta pública (visitantes, favoritos, perfil do vendedor): o e-mail do anunciante,
+// pois o contato é feito pelas mensagens da plataforma; os dados da venda, guardados só para relatórios;
+// e o controle interno do ciclo de vida do anúncio
+export const PUBLIC_VEHICLE_EXCLUDED_FIELDS = '-announcerEmail -soldPrice -soldAt -statusChangedAt -expiryRemindersSent';
+export const PUBLIC_LISTING_EXCLUDED_FIELDS = `${LISTING_EXCLUDED_FIELDS} ${PUBLIC_VEHICLE_EXCLUDED_FIELDS}`;
+
+const cleanCloudinaryUrl = (url: string, originalPublicId?: string) => {
+    // Se temos o originalPublicId, construímos a URL correta diretamente
+    if (originalPublicId && originalPublicId.includes('vehicles/')) {
+        const cloudName = process.env.CLOUDINARY_CLOUD_NAME || 'dw5xqqlvl';
+        // Garante que o publicId tenha extensão .webp (todas as imagens são convertidas para webp)
+        let finalPublicId = originalPublicId;
+        if (!/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(finalPublicId)) {
+            finalPublicId += '.webp';
+        } else if (!finalPublicId.endsWith('.webp')) {
+            // Se tem extensão mas não é webp, substitui por webp
+            finalPublicId = finalPublicId.replace(/\.(jpg|jpeg|png|gif|svg)$/i, '.webp');
+        }
+        return `https://res.cloudinary.com/${cloudName}/image/upload/f_auto,q_auto/${finalPublicId}`;
+    }
+
+    // Fallback para URLs antigas que podem precisar de correção
+    if (!url || (!url.startsWith('http://') && !url.startsWith('https://'))) {
+        return url; // Não é uma URL web, retorna como está
+    }
+
+    try {
+        const parsedUrl = new URL(url);
+        parsedUrl.searchParams.delete('_a');
+        parsedUrl.protocol = 'https:';
+
+        // Remove o segmento '/v1/' ou outras versões se existir
+        parsedUrl.pathname = parsedUrl.pathname.replace(/\/v\d+\//, '/');
+
+        let finalUrl = parsedUrl.toString();
+
+        // Adiciona .jpg se não tiver extensão e se for uma URL do Cloudinary
+        if (finalUrl.includes('res.cloudinary.com') && !/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(finalUrl)) {
+            finalUrl += '.jpg';
+        }
+
+        return finalUrl;
+    } catch (error) {
+        console.warn('Falha ao limpar URL do Cloudinary:', url, error);
+        return url; // Em caso de erro na URL, retorna a original
+    }
+};
+
+// Campos ordenados do mais recente para o mais antigo quando sortOrder não é informado; os demais, em ordem crescente
+export const DESC_BY_DEFAULT_SORT_FIELDS = ['created_at', 'priceDroppedAt'];
+
+/**
+ * Paginação e ordenação das listagens a partir da query string (page, limit, sortBy, sortOrder).
+ */
+export const parseListingOptions = (query: Request['query']) => {
+    const page = parseInt(query.page as string) || 1; // Padrão para página 1
+    const limit = parseInt(query.limit as string) || 10; // Padrão para 10 itens por página
+    let sortBy = query.sortBy as string || 'created_at'; // Padrão de ordenação por 'created_at'
+
+    // Mapeia 'createdAt' para 'created_at' para a consulta ao banco de dados
+    if (sortBy === 'createdAt') {
+        sortBy = 'created_at';
+    }
+
+    const sortOrder = query.sortOrder as string || (DESC_BY_DEFAULT_SORT_FIELDS.includes(sortBy) ? 'desc' : 'asc');
+
+    const sort: { [key: string]: 1 | -1 } = {};
+    sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+    return { page, limit, skip: (page - 1) * limit, sort };
+};
+
+/**
+ * Converte os veículos de uma listagem para a resposta, com firstImageUrl e o selo de vendedor verificado.
+ */
+export const toVehicleListItems = async (vehicles: VehicleDocument[], viewerId?: string) => {
+    // Obtém manualmente as URLs das imagens para firstImageUrl sem popular o array inteiro
+    const vehiclesWithFirstImage = await Promise.all(vehicles.map(async (vehicle): Promise<Record<string, any>> => {
+        const firstImageDoc = await Image.findOne({ vehicle_id: vehicle._id }).select('imageUrl cloudinaryPublicId').lean();
+        const firstImageUrl = firstImageDoc ? cleanCloudinaryUrl(firstImageDoc.imageUrl, firstImageDoc.cloudinaryPublicId) : null;
+
+        return { ...vehicle.toJSON(), firstImageUrl };
+    }));
+
+    return decorateVehicles(vehiclesWithFirstImage, viewerId);
+};
@@ -1,10 +1,16 @@
 import { Request } from 'express';
+import { User } from '../models/User';
+import { TokenPayload } from '../services/tokenService';
+import { ApiKey } from '../models/ApiKey';
 
 declare global {
     namespace Express {
         interface Request {
             userId?: string; // Add userId to the Request interface
-            user?: any; // Keep this if you still attach the full user object elsewhere
+            sessionId?: string; // Session that issued the access token
+            tokenPayload?: TokenPayload; // Decoded access token (jti, exp) for revocation on logout
+            user?: User; // Authenticated user, loaded once by authenticateUser
+            apiKey?: ApiKey; // API key used to authenticate, when the request comes from an integration
             files?: Express.Multer.File[]; // Add files property for Multer uploads
         }
     }
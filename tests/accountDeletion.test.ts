@@ -0,0 +1,62 @@
+import { scheduleJob } from '../src/jobs/scheduler';
+import { getAccountDeletionDate, ACCOUNT_DELETION_GRACE_PERIOD_MS } from '../src/services/accountDeletionService';
+import { publicVehicleFilter } from '../src/services/vehicleService';
+import { toLoginResponse } from '../src/services/loginService';
+
+describe('Account Deletion', () => {
+  it('should schedule the purge 30 days after the request', () => {
+    const requestedAt = new Date('2024-01-01T12:00:00Z');
+
+    expect(ACCOUNT_DELETION_GRACE_PERIOD_MS).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(getAccountDeletionDate(requestedAt).toISOString()).toBe('2024-01-31T12:00:00.000Z');
+  });
+
+  it('should hide vehicles of accounts pending deletion from public queries', () => {
+    expect(publicVehicleFilter()).toEqual({ ownerPendingDeletion: { $ne: true }, status: { $in: ['active', null] } });
+  });
+
+  it('should tell the client when logging in cancelled a pending deletion', () => {
+    const base = { twoFactorRequired: false as const, accessToken: 'a', refreshToken: 'r', user: {} };
+
+    expect(toLoginResponse({ ...base, accountDeletionCancelled: false })).not.toHaveProperty('accountDeletionCancelled');
+    expect(toLoginResponse({ ...base, accountDeletionCancelled: true })).toMatchObject({ accountDeletionCancelled: true });
+  });
+});
+
+describe('scheduleJob', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should run the task on every interval until stopped', async () => {
+    const task = jest.fn().mockResolvedValue(undefined);
+    const job = scheduleJob('test', 1000, task);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(task).toHaveBeenCalledTimes(3);
+
+    job.stop();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not overlap runs nor stop after a failure', async () => {
+    let finish: () => void = () => undefined;
+    const task = jest.fn()
+      .mockImplementationOnce(() => new Promise<void>(resolve => { finish = resolve; }))
+      .mockRejectedValueOnce(new Error('falha'))
+      .mockResolvedValue(undefined);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const job = scheduleJob('test', 1000, task);
+
+    await jest.advanceTimersByTimeAsync(2000); // A segunda execução é pulada: a primeira ainda está em andamento
+    expect(task).toHaveBeenCalledTimes(1);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(errorSpy).toHaveBeenCalled();
+
+    job.stop();
+    errorSpy.mockRestore();
+  });
+});
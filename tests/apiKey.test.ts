@@ -0,0 +1,51 @@
+import { generateApiKey, isApiKeyFormat, createApiKey } from '../src/services/apiKeyService';
+import { createApiKeySchema } from '../src/schemas/apiKeySchema';
+import ApiKey from '../src/models/ApiKey';
+
+jest.mock('../src/models/ApiKey', () => ({
+  ...jest.requireActual('../src/models/ApiKey'),
+  __esModule: true,
+  default: { create: jest.fn() },
+}));
+
+describe('API Keys', () => {
+  describe('generateApiKey', () => {
+    it('should generate unique prefixed keys', () => {
+      const first = generateApiKey();
+      const second = generateApiKey();
+
+      expect(isApiKeyFormat(first)).toBe(true);
+      expect(first).toMatch(/^pc_[A-Za-z0-9_-]{43}$/);
+      expect(first).not.toBe(second);
+    });
+
+    it('should not treat JWTs as API keys', () => {
+      expect(isApiKeyFormat('eyJhbGciOiJFUzI1NiJ9.e30.sig')).toBe(false);
+    });
+  });
+
+  describe('createApiKey', () => {
+    it('should return the key once without exposing its hash', async () => {
+      (ApiKey.create as jest.Mock).mockImplementation(async (data: Record<string, unknown>) => ({ _id: 'key-1', created_at: new Date(), ...data }));
+
+      const { key, apiKey } = await createApiKey('user-1', 'Estoque', ['vehicles:read', 'vehicles:read']);
+
+      expect(isApiKeyFormat(key)).toBe(true);
+      expect(apiKey).toEqual({ _id: 'key-1', name: 'Estoque', prefix: key.slice(0, apiKey.prefix.length), scopes: ['vehicles:read'], created_at: expect.any(Date) });
+      expect(apiKey).not.toHaveProperty('keyHash');
+      expect(apiKey).not.toHaveProperty('user_id');
+    });
+  });
+
+  describe('createApiKeySchema', () => {
+    it('should accept known scopes', () => {
+      const result = createApiKeySchema.parse({ name: ' Estoque ', scopes: ['vehicles:read', 'images:write'] });
+      expect(result.name).toBe('Estoque');
+    });
+
+    it('should reject unknown or missing scopes', () => {
+      expect(() => createApiKeySchema.parse({ name: 'Estoque', scopes: ['admin'] })).toThrow();
+      expect(() => createApiKeySchema.parse({ name: 'Estoque', scopes: [] })).toThrow();
+    });
+  });
+});
@@ -5,6 +5,6 @@ describe('Basic Tests', () => {
 
   it('should validate environment variables', () => {
     expect(process.env.NODE_ENV).toBe('test');
-    expect(process.env.JWT_SECRET).toBeDefined();
+    expect(process.env.JWT_PRIVATE_KEY).toBeDefined();
   });
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { createUserSchema } from '../src/schemas/userSchema';
+import { createUserSchema, updateUserSchema, changePasswordSchema, magicLinkSchema, changeEmailSchema } from '../src/schemas/userSchema';
+import { listUsersQuerySchema } from '../src/schemas/adminSchema';
 
 describe('Validation Schemas', () => {
   describe('createUserSchema', () => {
@@ -59,13 +60,82 @@ describe('Validation Schemas', () => {
       }).toThrow();
     });
   });
+
+  describe('updateUserSchema', () => {
+    it('should accept partial profile updates', () => {
+      expect(updateUserSchema.parse({ city: 'Campinas' })).toEqual({ city: 'Campinas' });
+    });
+
+    it('should not carry a password through profile updates', () => {
+      const parsed = updateUserSchema.parse({ username: 'testuser', password: 'Password123!' });
+      expect(parsed).not.toHaveProperty('password');
+    });
+
+    it('should not carry an email through profile updates', () => {
+      const parsed = updateUserSchema.parse({ username: 'testuser', email: 'other@example.com' });
+      expect(parsed).not.toHaveProperty('email');
+    });
+  });
+
+  describe('changeEmailSchema', () => {
+    it('should validate the new email', () => {
+      expect(() => changeEmailSchema.parse({ newEmail: 'novo@email.com', password: 'anything' })).not.toThrow();
+      expect(() => changeEmailSchema.parse({ newEmail: 'not-an-email', password: 'anything' })).toThrow();
+    });
+  });
+
+  describe('changePasswordSchema', () => {
+    it('should validate current and new password', () => {
+      expect(() => {
+        changePasswordSchema.parse({ currentPassword: 'anything', newPassword: 'NewPassword123!' });
+      }).not.toThrow();
+    });
+
+    it('should reject a weak new password', () => {
+      expect(() => {
+        changePasswordSchema.parse({ currentPassword: 'anything', newPassword: 'weak' });
+      }).toThrow();
+    });
+
+    it('should require the current password', () => {
+      expect(() => {
+        changePasswordSchema.parse({ newPassword: 'NewPassword123!' });
+      }).toThrow();
+    });
+  });
+
+  describe('magicLinkSchema', () => {
+    it('should accept a valid email', () => {
+      expect(() => {
+        magicLinkSchema.parse({ email: 'joao@email.com' });
+      }).not.toThrow();
+    });
+
+    it('should reject a non-string email', () => {
+      expect(() => {
+        magicLinkSchema.parse({ email: { $ne: null } });
+      }).toThrow();
+    });
+  });
+
+  describe('listUsersQuerySchema', () => {
+    it('should accept known roles and statuses', () => {
+      expect(listUsersQuerySchema.parse({ q: 'joao', role: 'moderator', status: 'suspended' })).toEqual({ q: 'joao', role: 'moderator', status: 'suspended' });
+    });
+
+    it('should reject unknown values and query operators', () => {
+      expect(listUsersQuerySchema.safeParse({ role: 'superuser' }).success).toBe(false);
+      expect(listUsersQuerySchema.safeParse({ status: { $ne: 'banned' } }).success).toBe(false);
+      expect(listUsersQuerySchema.safeParse({ q: { $regex: '.*' } }).success).toBe(false);
+    });
+  });
 });
 
 describe('Utility Functions', () => {
-  it('should validate JWT secret exists', () => {
-    expect(process.env.JWT_SECRET).toBeDefined();
-    expect(typeof process.env.JWT_SECRET).toBe('string');
-    expect(process.env.JWT_SECRET!.length).toBeGreaterThan(0);
+  it('should validate JWT private key exists', () => {
+    expect(process.env.JWT_PRIVATE_KEY).toBeDefined();
+    expect(typeof process.env.JWT_PRIVATE_KEY).toBe('string');
+    expect(process.env.JWT_PRIVATE_KEY).toContain('PRIVATE KEY');
   });
 
   it('should validate environment is test', () => {
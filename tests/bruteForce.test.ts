@@ -0,0 +1,127 @@
+import {
+  MemoryAttemptStore,
+  BruteForcePolicy,
+  computeLockMs,
+  configureAttemptStore,
+  registerFailure,
+  getRetryAfterMs,
+  recordFailedAttempt,
+  getScopeRetryAfterMs,
+} from '../src/services/bruteForceService';
+
+const policy: BruteForcePolicy = {
+  freeAttempts: 3,
+  baseLockMs: 1000,
+  maxLockMs: 8000,
+  windowMs: 60000,
+};
+
+describe('Brute Force Protection', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    configureAttemptStore(new MemoryAttemptStore(() => now));
+  });
+
+  describe('computeLockMs', () => {
+    it('should not lock within the free attempts', () => {
+      expect(computeLockMs(1, policy)).toBe(0);
+      expect(computeLockMs(3, policy)).toBe(0);
+    });
+
+    it('should double the lock for each extra failure up to the maximum', () => {
+      expect(computeLockMs(4, policy)).toBe(1000);
+      expect(computeLockMs(5, policy)).toBe(2000);
+      expect(computeLockMs(6, policy)).toBe(4000);
+      expect(computeLockMs(7, policy)).toBe(8000);
+      expect(computeLockMs(10, policy)).toBe(8000);
+    });
+  });
+
+  describe('registerFailure', () => {
+    it('should lock the key after the free attempts and report the first lock once', async () => {
+      for (let i = 0; i < 3; i++) {
+        const result = await registerFailure('login:account:a@b.com', policy, now);
+        expect(result.retryAfterMs).toBe(0);
+        expect(result.firstLock).toBe(false);
+      }
+
+      const locked = await registerFailure('login:account:a@b.com', policy, now);
+      expect(locked.retryAfterMs).toBe(1000);
+      expect(locked.firstLock).toBe(true);
+      expect(await getRetryAfterMs('login:account:a@b.com', policy, now)).toBe(1000);
+
+      now += 1000;
+      expect(await getRetryAfterMs('login:account:a@b.com', policy, now)).toBe(0);
+
+      const lockedAgain = await registerFailure('login:account:a@b.com', policy, now);
+      expect(lockedAgain.retryAfterMs).toBe(2000);
+      expect(lockedAgain.firstLock).toBe(false);
+    });
+
+    it('should keep counters independent per key', async () => {
+      for (let i = 0; i < 4; i++) {
+        await registerFailure('login:ip:1.1.1.1', policy, now);
+      }
+      expect(await getRetryAfterMs('login:ip:1.1.1.1', policy, now)).toBeGreaterThan(0);
+      expect(await getRetryAfterMs('login:ip:2.2.2.2', policy, now)).toBe(0);
+    });
+
+    it('should not lose failures registered in parallel', async () => {
+      await Promise.all(Array.from({ length: 5 }, () => registerFailure('login:account:a@b.com', policy, now)));
+      expect(await getRetryAfterMs('login:account:a@b.com', policy, now)).toBe(2000);
+    });
+  });
+
+  describe('recordFailedAttempt', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should report an IP lock even when the account is not locked', async () => {
+      for (let i = 0; i < 10; i++) {
+        expect((await recordFailedAttempt('magic-link', '1.1.1.1', `user${i}@example.com`)).retryAfterMs).toBe(0);
+      }
+
+      const result = await recordFailedAttempt('magic-link', '1.1.1.1', 'other@example.com');
+      expect(result.accountLocked).toBe(false);
+      expect(result.retryAfterMs).toBe(5 * 60 * 1000);
+    });
+
+    it('should count the same account regardless of spaces and case in the email', async () => {
+      for (let i = 0; i < 4; i++) {
+        await recordFailedAttempt('login', '1.1.1.1', ' Joao@Example.com ');
+      }
+      await recordFailedAttempt('login', '1.1.1.1', 'joao@example.com');
+
+      expect(await getScopeRetryAfterMs('login', '2.2.2.2', 'JOAO@example.com  ')).toBe(0);
+      await recordFailedAttempt('login', '1.1.1.1', 'joao@example.com');
+      expect(await getScopeRetryAfterMs('login', '2.2.2.2', 'JOAO@example.com  ')).toBe(30 * 1000);
+    });
+  });
+
+  describe('MemoryAttemptStore', () => {
+    it('should increment records and expire them after their ttl', async () => {
+      const store = new MemoryAttemptStore(() => now);
+      await store.increment('key', 5000);
+      now += 1000;
+      expect(await store.increment('key', 5000)).toEqual({ count: 2, firstAttemptAt: now - 1000, lastAttemptAt: now });
+
+      now += 5000;
+      expect(await store.get('key')).toBeNull();
+      expect((await store.increment('key', 5000)).count).toBe(1);
+    });
+
+    it('should delete records', async () => {
+      const store = new MemoryAttemptStore(() => now);
+      await store.increment('key', 5000);
+      await store.delete('key');
+      expect(await store.get('key')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import zlib from 'zlib';
+import {
+  sanitizeUserProfile,
+  buildDataExport,
+  compressDataExport,
+  dataExportFileName,
+  DataExportCollector,
+  failStaleDataExports,
+  deleteDataExports,
+  DATA_EXPORT_PENDING_TIMEOUT_MS,
+} from '../src/services/dataExportService';
+import DataExport from '../src/models/DataExport';
+import { deleteDataExportFile } from '../src/services/dataExportStorage';
+
+jest.mock('../src/models/DataExport', () => ({
+  __esModule: true,
+  default: { updateMany: jest.fn(), find: jest.fn(), deleteMany: jest.fn() },
+}));
+
+jest.mock('../src/services/dataExportStorage', () => ({
+  deleteDataExportFile: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe('Data export', () => {
+  describe('sanitizeUserProfile', () => {
+    it('should strip passwords, 2FA secrets and pending tokens', () => {
+      const profile = sanitizeUserProfile({
+        _id: 'user-1',
+        username: 'Maria',
+        email: 'maria@example.com',
+        password: '$2a$10$hash',
+        passwordHistory: ['$2a$10$old'],
+        twoFactorSecret: 'JBSWY3DPEHPK3PXP',
+        twoFactorRecoveryCodes: ['abc'],
+        resetPasswordToken: 'hash',
+        magicLinkTokenHash: 'hash',
+        __v: 0,
+      });
+
+      expect(profile).toEqual({ _id: 'user-1', username: 'Maria', email: 'maria@example.com' });
+    });
+
+    it('should not modify the original document', () => {
+      const user = { username: 'Maria', password: 'hash' };
+      sanitizeUserProfile(user);
+      expect(user.password).toBe('hash');
+    });
+  });
+
+  describe('buildDataExport', () => {
+    it('should run every collector and key the result by section', async () => {
+      const collectors: DataExportCollector[] = [
+        { section: 'profile', collect: async userId => ({ _id: userId, username: 'Maria' }) },
+        { section: 'vehicles', collect: async () => [{ title: 'Civic' }, { title: 'Gol' }] },
+      ];
+
+      const data = await buildDataExport('user-1', collectors);
+
+      expect(data).toMatchObject({
+        user_id: 'user-1',
+        profile: { _id: 'user-1', username: 'Maria' },
+        vehicles: [{ title: 'Civic' }, { title: 'Gol' }],
+      });
+      expect(Date.parse((data as any).generated_at)).not.toBeNaN();
+    });
+  });
+
+  describe('compressDataExport', () => {
+    it('should produce gzipped JSON', async () => {
+      const content = await compressDataExport({ profile: { username: 'Maria' } });
+
+      expect(JSON.parse(zlib.gunzipSync(content).toString())).toEqual({ profile: { username: 'Maria' } });
+      expect(dataExportFileName('user-1')).toBe('pontocarro-dados-user-1.json.gz');
+    });
+  });
+
+  describe('cleanup', () => {
+    const DataExportModel = DataExport as unknown as Record<'updateMany' | 'find' | 'deleteMany', jest.Mock>;
+    const now = new Date('2024-06-01T12:00:00Z');
+    const clock = { now: () => now };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should fail exports left pending beyond the timeout', async () => {
+      DataExportModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+      expect(await failStaleDataExports(clock)).toBe(2);
+      expect(DataExportModel.updateMany).toHaveBeenCalledWith(
+        { status: 'pending', created_at: { $lt: new Date(now.getTime() - DATA_EXPORT_PENDING_TIMEOUT_MS) } },
+        { $set: { status: 'failed', completed_at: now } }
+      );
+    });
+
+    it('should delete the stored files along with the exports', async () => {
+      DataExportModel.find.mockReturnValue({
+        select: () => ({ lean: async () => [{ _id: 'export-1', file_id: 'file-1' }, { _id: 'export-2' }] }),
+      });
+      DataExportModel.deleteMany.mockResolvedValue({ deletedCount: 2 });
+
+      expect(await deleteDataExports({ user_id: 'user-1' })).toBe(2);
+      expect(deleteDataExportFile).toHaveBeenCalledTimes(1);
+      expect(deleteDataExportFile).toHaveBeenCalledWith('file-1');
+      expect(DataExportModel.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['export-1', 'export-2'] } });
+    });
+  });
+});
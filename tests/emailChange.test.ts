@@ -0,0 +1,92 @@
+import { requestEmailChange, undoEmailChange, EmailChangeLockedError } from '../src/services/emailChangeService';
+import User from '../src/models/User';
+import EmailChange from '../src/models/EmailChange';
+import { revokeAllUserTokens } from '../src/services/tokenRevocationService';
+
+jest.mock('../src/models/User', () => ({
+  __esModule: true,
+  default: { exists: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../src/models/EmailChange', () => ({
+  __esModule: true,
+  default: { exists: jest.fn(), findOne: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+}));
+
+jest.mock('../src/services/tokenRevocationService', () => ({
+  revokeAllUserTokens: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('../src/services/emailService', () => ({
+  sendMailWithRetry: jest.fn().mockResolvedValue(undefined),
+}));
+
+describe('Email change', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (User.exists as jest.Mock).mockResolvedValue(null);
+  });
+
+  describe('requestEmailChange', () => {
+    const user = { _id: 'user-1', username: 'Maria', email: 'b@example.com' } as any;
+
+    it('should refuse a new change while the previous one can still be undone', async () => {
+      (EmailChange.exists as jest.Mock).mockResolvedValue({ _id: 'change-1' });
+
+      await expect(requestEmailChange(user, 'c@example.com')).rejects.toBeInstanceOf(EmailChangeLockedError);
+      expect(EmailChange.create).not.toHaveBeenCalled();
+    });
+
+    it('should register the change when there is nothing left to undo', async () => {
+      (EmailChange.exists as jest.Mock).mockResolvedValue(null);
+
+      await requestEmailChange(user, 'c@example.com');
+
+      expect(EmailChange.create).toHaveBeenCalledWith(expect.objectContaining({ oldEmail: 'b@example.com', newEmail: 'c@example.com' }));
+    });
+  });
+
+  describe('undoEmailChange', () => {
+    const confirmedChange = () => ({
+      _id: 'change-1',
+      user_id: 'user-1',
+      oldEmail: 'a@example.com',
+      newEmail: 'b@example.com',
+      status: 'confirmed',
+      save: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('should restore the old email even if the account moved to another address since', async () => {
+      const change = confirmedChange();
+      (EmailChange.findOne as jest.Mock).mockResolvedValue(change);
+      (User.updateOne as jest.Mock).mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+
+      await expect(undoEmailChange('token')).resolves.toBe(change);
+
+      expect(User.updateOne).toHaveBeenCalledWith({ _id: 'user-1' }, { $set: { email: 'a@example.com', emailVerified: true } });
+      expect(revokeAllUserTokens).toHaveBeenCalledWith('user-1', 'email_change_reverted');
+      expect(change.status).toBe('reverted');
+    });
+
+    it('should not report success when the account no longer exists', async () => {
+      const change = confirmedChange();
+      (EmailChange.findOne as jest.Mock).mockResolvedValue(change);
+      (User.updateOne as jest.Mock).mockResolvedValue({ matchedCount: 0, modifiedCount: 0 });
+
+      await expect(undoEmailChange('token')).resolves.toBeNull();
+
+      expect(revokeAllUserTokens).not.toHaveBeenCalled();
+      expect(change.save).not.toHaveBeenCalled();
+    });
+
+    it('should only cancel a change that was not confirmed yet', async () => {
+      const change = { ...confirmedChange(), status: 'pending' };
+      (EmailChange.findOne as jest.Mock).mockResolvedValue(change);
+
+      await undoEmailChange('token');
+
+      expect(User.updateOne).not.toHaveBeenCalled();
+      expect(change.status).toBe('cancelled');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { attachFavoriteFlag, attachFavoriteCounts, buildWatcherNotification } from '../src/services/favoriteService';
+
+describe('Favorites', () => {
+  it('should not flag favorites for anonymous visitors', async () => {
+    const vehicles = [{ _id: 'v1', title: 'Civic' }];
+    await expect(attachFavoriteFlag(vehicles)).resolves.toEqual(vehicles);
+  });
+
+  it('should report zero favorites without querying for an empty listing', async () => {
+    await expect(attachFavoriteCounts([])).resolves.toEqual([]);
+  });
+
+  describe('buildWatcherNotification', () => {
+    const vehicle = { _id: 'v1', title: 'Civic <b>EXL</b>', price: 89900, previousPrice: 95000 };
+
+    it('should tell watchers the old and new price on a price drop', () => {
+      const { subject, text } = buildWatcherNotification('price_drop', vehicle);
+      expect(subject).toContain('baixou');
+      expect(text).toContain('95.000,00');
+      expect(text).toContain('89.900,00');
+    });
+
+    it('should tell watchers the car was sold', () => {
+      expect(buildWatcherNotification('sold', vehicle).text).toContain('vendido');
+    });
+
+    it('should escape the listing title in the email body', () => {
+      const { text } = buildWatcherNotification('sold', vehicle);
+      expect(text).toContain('Civic &#60;b&#62;EXL&#60;/b&#62;');
+      expect(text).not.toContain('<b>EXL</b>');
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import cloudinary from '../src/config/cloudinary';
+import {
+  uploadToCloudinary,
+  destroyCloudinaryAsset,
+  AVATAR_TRANSFORMATION,
+  VEHICLE_IMAGE_TRANSFORMATION,
+} from '../src/services/imageUploadService';
+
+const file = { mimetype: 'image/png', buffer: Buffer.from('png') } as Express.Multer.File;
+const upload = cloudinary.uploader.upload as jest.Mock;
+
+describe('Image Upload', () => {
+  beforeEach(() => upload.mockClear());
+
+  it('should upload avatars as a square crop under avatars/<userId>', async () => {
+    upload.mockResolvedValueOnce({ public_id: 'avatars/user-1/abc' });
+
+    const result = await uploadToCloudinary(file, 'avatars/user-1', AVATAR_TRANSFORMATION);
+
+    expect(upload).toHaveBeenCalledWith(
+      'data:image/png;base64,cG5n',
+      expect.objectContaining({ asset_folder: 'avatars/user-1', width: 400, height: 400, crop: 'fill' })
+    );
+    expect(result).toEqual({
+      publicId: 'avatars/user-1/abc',
+      url: 'https://res.cloudinary.com/test_cloud/image/upload/f_auto,q_auto/avatars/user-1/abc',
+    });
+  });
+
+  it('should prefix the folder when Cloudinary returns a bare public_id', async () => {
+    upload.mockResolvedValueOnce({ public_id: 'abc' });
+
+    const result = await uploadToCloudinary(file, 'vehicles/v-1', VEHICLE_IMAGE_TRANSFORMATION);
+
+    expect(upload).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ crop: 'limit', width: 1920 }));
+    expect(result.publicId).toBe('vehicles/v-1/abc');
+  });
+
+  it('should not throw when Cloudinary fails to destroy an asset', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    (cloudinary.uploader.destroy as jest.Mock).mockRejectedValueOnce(new Error('not found'));
+
+    await expect(destroyCloudinaryAsset('avatars/user-1/old')).resolves.toBeUndefined();
+    expect(warnSpy).toHaveBeenCalled();
+
+    warnSpy.mockRestore();
+  });
+});
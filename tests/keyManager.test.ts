@@ -0,0 +1,97 @@
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { loadKeyStore, initializeKeys, getJwks } from '../src/services/keyManager';
+import { signAccessToken, verifyToken, signPurposeToken, verifyPurposeToken } from '../src/services/tokenService';
+
+const pem = (type: 'rsa' | 'ec') => {
+  const { privateKey, publicKey } = type === 'rsa'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }) as string,
+  };
+};
+
+describe('Key Manager', () => {
+  const rsa = pem('rsa');
+  const ec = pem('ec');
+
+  afterAll(() => {
+    initializeKeys({ JWT_PRIVATE_KEY: process.env.JWT_PRIVATE_KEY });
+  });
+
+  it('should refuse to load without a private key', () => {
+    expect(() => loadKeyStore({})).toThrow('JWT_PRIVATE_KEY');
+  });
+
+  it('should detect the algorithm from the key type', () => {
+    expect(loadKeyStore({ JWT_PRIVATE_KEY: rsa.privateKey }).current.alg).toBe('RS256');
+    expect(loadKeyStore({ JWT_PRIVATE_KEY: ec.privateKey }).current.alg).toBe('ES256');
+  });
+
+  it('should accept PEM keys with escaped line breaks', () => {
+    const escaped = ec.privateKey.replace(/\n/g, '\\n');
+    expect(loadKeyStore({ JWT_PRIVATE_KEY: escaped }).current.kid)
+      .toBe(loadKeyStore({ JWT_PRIVATE_KEY: ec.privateKey }).current.kid);
+  });
+
+  it('should reject malformed previous keys', () => {
+    expect(() => loadKeyStore({ JWT_PRIVATE_KEY: ec.privateKey, JWT_PREVIOUS_PUBLIC_KEYS: 'not-json' })).toThrow();
+  });
+
+  it('should sign tokens with the kid of the current key', () => {
+    initializeKeys({ JWT_PRIVATE_KEY: rsa.privateKey });
+    const token = signAccessToken('user-1', 'session-1');
+    const header = jwt.decode(token, { complete: true })!.header;
+
+    expect(header.alg).toBe('RS256');
+    expect(header.kid).toBe(loadKeyStore({ JWT_PRIVATE_KEY: rsa.privateKey }).current.kid);
+    expect(verifyToken(token).id).toBe('user-1');
+  });
+
+  it('should keep verifying tokens signed with a rotated key', () => {
+    initializeKeys({ JWT_PRIVATE_KEY: rsa.privateKey });
+    const oldToken = signAccessToken('user-1', 'session-1');
+
+    initializeKeys({ JWT_PRIVATE_KEY: ec.privateKey, JWT_PREVIOUS_PUBLIC_KEYS: JSON.stringify([rsa.publicKey]) });
+    expect(verifyToken(oldToken).id).toBe('user-1');
+    expect(jwt.decode(signAccessToken('user-2', 'session-2'), { complete: true })!.header.alg).toBe('ES256');
+
+    // Depois que a chave antiga sai da lista, os tokens assinados com ela deixam de valer
+    initializeKeys({ JWT_PRIVATE_KEY: ec.privateKey });
+    expect(() => verifyToken(oldToken)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should reject tokens signed with an unknown key or a shared secret', () => {
+    initializeKeys({ JWT_PRIVATE_KEY: ec.privateKey });
+    const hsToken = jwt.sign({ id: 'user-1' }, 'your_jwt_secret_key');
+    const foreignToken = jwt.sign({ id: 'user-1' }, rsa.privateKey, { algorithm: 'RS256', keyid: 'foreign' });
+
+    expect(() => verifyToken(hsToken)).toThrow(jwt.JsonWebTokenError);
+    expect(() => verifyToken(foreignToken)).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should not accept purpose tokens as session tokens', () => {
+    initializeKeys({ JWT_PRIVATE_KEY: ec.privateKey });
+    const token = signPurposeToken({ id: 'user-1' }, 'email-verification', '1h');
+
+    expect(verifyPurposeToken(token, 'email-verification').id).toBe('user-1');
+    expect(() => verifyToken(token)).toThrow(jwt.JsonWebTokenError);
+    expect(() => verifyPurposeToken(token, '2fa-challenge')).toThrow(jwt.JsonWebTokenError);
+  });
+
+  it('should publish only public members in the JWKS', () => {
+    initializeKeys({ JWT_PRIVATE_KEY: ec.privateKey, JWT_PREVIOUS_PUBLIC_KEYS: JSON.stringify([rsa.publicKey]) });
+    const { keys } = getJwks();
+
+    expect(keys).toHaveLength(2);
+    expect(keys.map(key => key.alg).sort()).toEqual(['ES256', 'RS256']);
+    keys.forEach(key => {
+      expect(key.use).toBe('sig');
+      expect(key).not.toHaveProperty('d');
+      expect(key).not.toHaveProperty('p');
+      expect(key).not.toHaveProperty('q');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  getListingTier,
+  getListingExpiryDate,
+  getDueExpiryReminder,
+  listingExpiryFields,
+  loadListingExpiryDays,
+  sendExpiryReminders,
+  expireDueListings,
+  DEFAULT_LISTING_EXPIRY_DAYS,
+} from '../src/services/listingExpiryService';
+import Vehicle from '../src/models/Vehicle';
+import User from '../src/models/User';
+import { sendMailWithRetry } from '../src/services/emailService';
+import { Clock } from '../src/jobs/scheduler';
+
+jest.mock('../src/models/Vehicle', () => ({
+  ...jest.requireActual('../src/models/Vehicle'),
+  __esModule: true,
+  default: { find: jest.fn(), findOneAndUpdate: jest.fn(), updateMany: jest.fn() },
+}));
+
+jest.mock('../src/models/User', () => ({
+  ...jest.requireActual('../src/models/User'),
+  __esModule: true,
+  default: { findById: jest.fn() },
+}));
+
+jest.mock('../src/services/emailService', () => ({
+  ...jest.requireActual('../src/services/emailService'),
+  sendMailWithRetry: jest.fn().mockResolvedValue(undefined),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Listing expiry', () => {
+  const publishedAt = new Date('2024-01-01T12:00:00.000Z');
+
+  it('should give dealer listings a longer default validity than individual ones', () => {
+    expect(getListingTier(null)).toBe('individual');
+    expect(getListingTier({})).toBe('individual');
+    expect(getListingTier({ listingTier: 'dealer' })).toBe('dealer');
+    expect(DEFAULT_LISTING_EXPIRY_DAYS.dealer).toBeGreaterThan(DEFAULT_LISTING_EXPIRY_DAYS.individual);
+  });
+
+  describe('loadListingExpiryDays', () => {
+    it('should use the defaults when nothing is configured', () => {
+      expect(loadListingExpiryDays({})).toEqual(DEFAULT_LISTING_EXPIRY_DAYS);
+    });
+
+    it('should override only the configured tiers', () => {
+      expect(loadListingExpiryDays({ LISTING_EXPIRY_DAYS: '{"dealer":120}' })).toEqual({
+        individual: DEFAULT_LISTING_EXPIRY_DAYS.individual,
+        dealer: 120,
+      });
+    });
+
+    it('should reject malformed configurations', () => {
+      expect(() => loadListingExpiryDays({ LISTING_EXPIRY_DAYS: '90' })).toThrow();
+      expect(() => loadListingExpiryDays({ LISTING_EXPIRY_DAYS: 'dealer=90' })).toThrow();
+      expect(() => loadListingExpiryDays({ LISTING_EXPIRY_DAYS: '{"premium":90}' })).toThrow();
+      expect(() => loadListingExpiryDays({ LISTING_EXPIRY_DAYS: '{"dealer":0}' })).toThrow();
+      expect(() => loadListingExpiryDays({ LISTING_EXPIRY_DAYS: '{"dealer":"90"}' })).toThrow();
+    });
+  });
+
+  it('should compute the expiry date from the publication date and tier window', () => {
+    expect(getListingExpiryDate(publishedAt, 'individual', {}).getTime()).toBe(publishedAt.getTime() + DEFAULT_LISTING_EXPIRY_DAYS.individual * DAY_MS);
+    expect(getListingExpiryDate(publishedAt, 'dealer', {}).getTime()).toBe(publishedAt.getTime() + DEFAULT_LISTING_EXPIRY_DAYS.dealer * DAY_MS);
+    expect(getListingExpiryDate(publishedAt, 'dealer', { LISTING_EXPIRY_DAYS: '{"dealer":120}' }).getTime()).toBe(publishedAt.getTime() + 120 * DAY_MS);
+  });
+
+  it('should restart the reminders when the listing is renewed', () => {
+    expect(listingExpiryFields('individual', publishedAt)).toEqual({
+      expiresAt: getListingExpiryDate(publishedAt, 'individual'),
+      expiryRemindersSent: [],
+    });
+  });
+
+  describe('getDueExpiryReminder', () => {
+    const expiresAt = new Date('2024-03-01T12:00:00.000Z');
+    const daysBefore = (days: number) => new Date(expiresAt.getTime() - days * DAY_MS);
+
+    it('should send nothing while the listing is far from expiring', () => {
+      expect(getDueExpiryReminder(expiresAt, [], daysBefore(10))).toBeNull();
+    });
+
+    it('should send the seven-day and then the one-day reminder', () => {
+      expect(getDueExpiryReminder(expiresAt, [], daysBefore(7))).toBe(7);
+      expect(getDueExpiryReminder(expiresAt, [7], daysBefore(3))).toBeNull();
+      expect(getDueExpiryReminder(expiresAt, [7], daysBefore(0.5))).toBe(1);
+      expect(getDueExpiryReminder(expiresAt, [7, 1], daysBefore(0.25))).toBeNull();
+    });
+
+    it('should only send the closest reminder when several are due at once', () => {
+      expect(getDueExpiryReminder(expiresAt, [], daysBefore(0.5))).toBe(1);
+    });
+
+    it('should send nothing once the listing has expired', () => {
+      expect(getDueExpiryReminder(expiresAt, [], daysBefore(-1))).toBeNull();
+    });
+  });
+
+  describe('scheduled tasks', () => {
+    const now = new Date('2024-03-01T12:00:00.000Z');
+    const clock: Clock = { now: () => now };
+    const owner = { username: 'Maria', email: 'maria@example.com' };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (User.findById as jest.Mock).mockReturnValue({ select: jest.fn().mockResolvedValue(owner) });
+    });
+
+    const mockListings = (listings: Record<string, unknown>[]) => {
+      (Vehicle.find as jest.Mock).mockReturnValue({ select: jest.fn().mockResolvedValue(listings) });
+    };
+
+    it('should only look at active listings expiring within the first reminder window', async () => {
+      mockListings([]);
+
+      await expect(sendExpiryReminders(clock)).resolves.toBe(0);
+
+      expect(Vehicle.find).toHaveBeenCalledWith(expect.objectContaining({
+        expiresAt: { $gt: now, $lte: new Date(now.getTime() + 7 * DAY_MS) },
+      }));
+    });
+
+    it('should claim the due reminder before emailing the owner', async () => {
+      const expiresAt = new Date(now.getTime() + 6 * DAY_MS);
+      mockListings([
+        { _id: 'vehicle-1', owner_id: 'user-1', title: 'Civic', expiresAt, expiryRemindersSent: [] },
+        { _id: 'vehicle-2', owner_id: 'user-1', title: 'Gol', expiresAt, expiryRemindersSent: [7] },
+      ]);
+      (Vehicle.findOneAndUpdate as jest.Mock).mockResolvedValue({ _id: 'vehicle-1' });
+
+      await expect(sendExpiryReminders(clock)).resolves.toBe(1);
+
+      expect(Vehicle.findOneAndUpdate).toHaveBeenCalledTimes(1);
+      expect(Vehicle.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'vehicle-1', expiresAt, expiryRemindersSent: { $ne: 7 } },
+        expect.objectContaining({ $addToSet: { expiryRemindersSent: { $each: [7] } } })
+      );
+      expect(sendMailWithRetry).toHaveBeenCalledWith(expect.objectContaining({
+        to: owner.email,
+        subject: '.CARRO: Seu anúncio vence em 7 dias',
+      }));
+    });
+
+    it('should not email when another run already claimed the reminder', async () => {
+      mockListings([{ _id: 'vehicle-1', owner_id: 'user-1', title: 'Civic', expiresAt: new Date(now.getTime() + 12 * 60 * 60 * 1000), expiryRemindersSent: [7] }]);
+      (Vehicle.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+      await expect(sendExpiryReminders(clock)).resolves.toBe(0);
+
+      expect(sendMailWithRetry).not.toHaveBeenCalled();
+    });
+
+    it('should expire active listings whose validity ended by the clock time', async () => {
+      (Vehicle.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 3 });
+
+      await expect(expireDueListings(clock)).resolves.toBe(3);
+
+      expect(Vehicle.updateMany).toHaveBeenCalledWith(
+        { status: { $in: ['active', null] }, expiresAt: { $lte: now } },
+        { $set: { status: 'expired', statusChangedAt: now } }
+      );
+    });
+  });
+});
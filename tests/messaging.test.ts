@@ -0,0 +1,79 @@
+import {
+  getParticipantRole,
+  getOtherParticipantId,
+  toMessagePreview,
+  toInboxItem,
+  toAverageResponseMinutes,
+  MESSAGE_PREVIEW_LENGTH,
+} from '../src/services/messagingService';
+import { startConversationSchema, sendMessageSchema } from '../src/schemas/conversationSchema';
+
+describe('Messaging', () => {
+  const conversation = {
+    _id: 'c1',
+    vehicle_id: 'v1',
+    buyer_id: 'buyer',
+    seller_id: 'seller',
+    buyerUnread: 1,
+    sellerUnread: 3,
+    lastMessageAt: new Date('2024-07-01T10:00:00.000Z'),
+    lastMessagePreview: 'Ainda está disponível?',
+  };
+
+  describe('participants', () => {
+    it('should only recognize the buyer and the seller', () => {
+      expect(getParticipantRole(conversation as any, 'buyer')).toBe('buyer');
+      expect(getParticipantRole(conversation as any, 'seller')).toBe('seller');
+      expect(getParticipantRole(conversation as any, 'someone-else')).toBeNull();
+    });
+
+    it('should point each participant to the other one', () => {
+      expect(getOtherParticipantId(conversation as any, 'buyer')).toBe('seller');
+      expect(getOtherParticipantId(conversation as any, 'seller')).toBe('buyer');
+    });
+  });
+
+  describe('toInboxItem', () => {
+    const vehicle = { _id: 'v1', title: 'Onix LT', price: 68000, status: 'active', announcerEmail: 'vendedor@example.com' };
+
+    it('should show the unread count of the caller', () => {
+      expect(toInboxItem(conversation, 'buyer', vehicle, { _id: 'seller', username: 'Carlos' })).toMatchObject({ role: 'buyer', unreadCount: 1 });
+      expect(toInboxItem(conversation, 'seller', vehicle, { _id: 'buyer', username: 'Ana' })).toMatchObject({ role: 'seller', unreadCount: 3 });
+    });
+
+    it('should expose only a summary of the vehicle and the other participant', () => {
+      const item = toInboxItem(conversation, 'buyer', vehicle, { _id: 'seller', username: 'Carlos', email: 'carlos@example.com' });
+      expect(item.vehicle).toEqual({ _id: 'v1', title: 'Onix LT', price: 68000, status: 'active' });
+      expect(item.otherParticipant).toEqual({ _id: 'seller', username: 'Carlos', avatarUrl: null });
+    });
+
+    it('should keep conversations about deleted listings', () => {
+      expect(toInboxItem(conversation, 'buyer', undefined, undefined)).toMatchObject({ vehicle: null, otherParticipant: null });
+    });
+  });
+
+  it('should shorten long messages for the inbox preview', () => {
+    expect(toMessagePreview('Olá,\n  tudo bem?')).toBe('Olá, tudo bem?');
+    const preview = toMessagePreview('a'.repeat(300));
+    expect(preview).toHaveLength(MESSAGE_PREVIEW_LENGTH);
+    expect(preview.endsWith('…')).toBe(true);
+  });
+
+  it('should report the average response time in minutes', () => {
+    expect(toAverageResponseMinutes(null)).toBeNull();
+    expect(toAverageResponseMinutes(undefined)).toBeNull();
+    expect(toAverageResponseMinutes(45 * 60 * 1000 + 20 * 1000)).toBe(45);
+  });
+
+  describe('message validation', () => {
+    it('should reject empty or whitespace-only messages', () => {
+      expect(sendMessageSchema.safeParse({ text: '   ' }).success).toBe(false);
+      expect(startConversationSchema.safeParse({ vehicleId: 'v1', text: '' }).success).toBe(false);
+    });
+
+    it('should reject messages that are too long', () => {
+      expect(sendMessageSchema.safeParse({ text: 'a'.repeat(2001) }).success).toBe(false);
+      expect(sendMessageSchema.parse({ text: '  Aceita troca?  ' })).toEqual({ text: 'Aceita troca?' });
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import {
+  OidcProviderConfig,
+  OidcError,
+  loadOidcProviders,
+  buildAuthorizationRequest,
+  exchangeAuthorizationCode,
+} from '../src/services/oidcClient';
+import { findOrLinkOidcUser } from '../src/services/oidcService';
+import User from '../src/models/User';
+
+jest.mock('../src/models/User', () => ({
+  __esModule: true,
+  default: { findOne: jest.fn(), findOneAndUpdate: jest.fn(), exists: jest.fn(), create: jest.fn() },
+}));
+
+// Emissor OIDC local: publica discovery e JWKS e emite id_tokens no endpoint de token, validando o PKCE
+const startStubIssuer = async (options: { publishedIssuer?: string } = {}) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const kid = 'stub-key';
+  const authorizations = new Map<string, { challenge: string; nonce: string; clientId: string }>();
+  const claims: Record<string, unknown> = { sub: 'google-123', email: 'Joao@Email.com', email_verified: true, name: 'João Silva' };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, issuer);
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/.well-known/openid-configuration') {
+      return json(200, {
+        issuer: options.publishedIssuer || issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (url.pathname === '/jwks') {
+      return json(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' }] });
+    }
+    if (url.pathname === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const authorization = authorizations.get(params.get('code') || '');
+        const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+        if (!authorization || authorization.challenge !== challenge) {
+          return json(400, { error: 'invalid_grant' });
+        }
+        const idToken = jwt.sign({ ...claims, nonce: authorization.nonce }, privateKey, {
+          algorithm: 'ES256',
+          keyid: kid,
+          issuer,
+          audience: authorization.clientId,
+          expiresIn: '5m',
+        });
+        json(200, { access_token: 'stub-access-token', token_type: 'Bearer', id_token: idToken });
+      });
+      return;
+    }
+    json(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Simula o consentimento do usuário: o provedor emite um código para a URL de autorização recebida
+  const authorize = (authorizationUrl: string) => {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = crypto.randomBytes(8).toString('hex');
+    authorizations.set(code, { challenge: params.get('code_challenge')!, nonce: params.get('nonce')!, clientId: params.get('client_id')! });
+    return code;
+  };
+
+  return { issuer, server, claims, authorize };
+};
+
+describe('OIDC Client', () => {
+  let stub: Awaited<ReturnType<typeof startStubIssuer>>;
+  let provider: OidcProviderConfig;
+  const redirectUri = 'http://localhost:3000/entrar/stub/retorno';
+
+  beforeAll(async () => {
+    stub = await startStubIssuer();
+    provider = { name: 'stub', issuer: stub.issuer, clientId: 'pontocarro-client' };
+  });
+
+  afterAll(done => {
+    stub.server.close(() => done());
+  });
+
+  it('should load providers from OIDC_PROVIDERS', () => {
+    const providers = loadOidcProviders({ OIDC_PROVIDERS: JSON.stringify([{ name: 'Google', issuer: 'https://accounts.google.com', clientId: 'id' }]) });
+    expect(providers).toEqual([{ name: 'google', issuer: 'https://accounts.google.com', clientId: 'id' }]);
+    expect(loadOidcProviders({})).toEqual([]);
+    expect(() => loadOidcProviders({ OIDC_PROVIDERS: JSON.stringify([{ name: 'google' }]) })).toThrow(OidcError);
+  });
+
+  it('should build an authorization URL with PKCE from discovered metadata', async () => {
+    const request = await buildAuthorizationRequest(provider, redirectUri);
+    const url = new URL(request.authorizationUrl);
+
+    expect(`${url.origin}${url.pathname}`).toBe(`${stub.issuer}/authorize`);
+    expect(url.searchParams.get('response_type')).toBe('code');
+    expect(url.searchParams.get('state')).toBe(request.state);
+    expect(url.searchParams.get('nonce')).toBe(request.nonce);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toBe(crypto.createHash('sha256').update(request.codeVerifier).digest('base64url'));
+  });
+
+  it('should exchange the code and return the verified identity', async () => {
+    const request = await buildAuthorizationRequest(provider, redirectUri);
+    const code = stub.authorize(request.authorizationUrl);
+
+    const identity = await exchangeAuthorizationCode(provider, { code, redirectUri, codeVerifier: request.codeVerifier, nonce: request.nonce });
+
+    expect(identity).toEqual({ subject: 'google-123', email: 'joao@email.com', emailVerified: true, name: 'João Silva' });
+  });
+
+  it('should fail when the PKCE verifier does not match', async () => {
+    const request = await buildAuthorizationRequest(provider, redirectUri);
+    const code = stub.authorize(request.authorizationUrl);
+
+    await expect(exchangeAuthorizationCode(provider, { code, redirectUri, codeVerifier: 'wrong-verifier', nonce: request.nonce }))
+      .rejects.toThrow(OidcError);
+  });
+
+  it('should reject an id_token with a different nonce', async () => {
+    const request = await buildAuthorizationRequest(provider, redirectUri);
+    const code = stub.authorize(request.authorizationUrl);
+
+    await expect(exchangeAuthorizationCode(provider, { code, redirectUri, codeVerifier: request.codeVerifier, nonce: 'other-nonce' }))
+      .rejects.toThrow('nonce');
+  });
+
+  it('should reject an id_token issued for another client', async () => {
+    const request = await buildAuthorizationRequest(provider, redirectUri);
+    const code = stub.authorize(request.authorizationUrl.replace('client_id=pontocarro-client', 'client_id=other-client'));
+
+    await expect(exchangeAuthorizationCode(provider, { code, redirectUri, codeVerifier: request.codeVerifier, nonce: request.nonce }))
+      .rejects.toThrow(OidcError);
+  });
+
+  it('should reject a provider whose metadata announces a different issuer', async () => {
+    const impostor = await startStubIssuer({ publishedIssuer: 'https://accounts.google.com' });
+    try {
+      await expect(buildAuthorizationRequest({ name: 'impostor', issuer: impostor.issuer, clientId: 'id' }, redirectUri))
+        .rejects.toThrow(OidcError);
+    } finally {
+      await new Promise(resolve => impostor.server.close(resolve));
+    }
+  });
+});
+
+describe('OIDC account linking', () => {
+  const UserModel = User as unknown as Record<'findOne' | 'findOneAndUpdate' | 'exists' | 'create', jest.Mock>;
+  const identity = { subject: 'google-123', email: 'joao@email.com', emailVerified: true, name: 'João Silva' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    UserModel.findOne.mockResolvedValue(null);
+    UserModel.findOneAndUpdate.mockResolvedValue(null);
+    UserModel.exists.mockReturnValue({ collation: jest.fn().mockResolvedValue(null) });
+    UserModel.create.mockImplementation(async (data: unknown) => data);
+  });
+
+  it('should only link accounts that already confirmed the email, ignoring case', async () => {
+    const existing = { _id: 'user-1' };
+    UserModel.findOneAndUpdate.mockResolvedValue(existing);
+
+    await expect(findOrLinkOidcUser('google', identity)).resolves.toBe(existing);
+    const [filter, update, options] = UserModel.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({ email: 'joao@email.com', emailVerified: true });
+    expect(update).not.toHaveProperty('$set');
+    expect(options.collation).toEqual({ locale: 'en', strength: 2 });
+  });
+
+  it('should refuse to take over an account whose email was never confirmed', async () => {
+    UserModel.exists.mockReturnValue({ collation: jest.fn().mockResolvedValue({ _id: 'user-2' }) });
+
+    await expect(findOrLinkOidcUser('google', identity)).rejects.toBeInstanceOf(OidcError);
+    expect(UserModel.create).not.toHaveBeenCalled();
+  });
+
+  it('should create a passwordless account when no account uses the email', async () => {
+    await expect(findOrLinkOidcUser('google', identity)).resolves.toMatchObject({ email: 'joao@email.com', emailVerified: true });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  getMemberRole,
+  hasOrganizationPermission,
+  canAssignRole,
+  countOwners,
+  applyOrganizationDefaults,
+} from '../src/services/organizationService';
+import { inviteMemberSchema, createOrganizationSchema } from '../src/schemas/organizationSchema';
+
+const organization = {
+  members: [
+    { user_id: 'owner-1', role: 'owner' },
+    { user_id: 'manager-1', role: 'manager' },
+    { user_id: 'seller-1', role: 'salesperson' },
+  ],
+} as any;
+
+describe('Organizations', () => {
+  describe('permissions', () => {
+    it('should resolve the role of each member', () => {
+      expect(getMemberRole(organization, 'manager-1')).toBe('manager');
+      expect(getMemberRole(organization, 'outsider')).toBeNull();
+    });
+
+    it('should let every member create and edit listings, but only owners and managers delete them', () => {
+      expect(hasOrganizationPermission(organization, 'seller-1', 'listings:edit')).toBe(true);
+      expect(hasOrganizationPermission(organization, 'seller-1', 'listings:delete')).toBe(false);
+      expect(hasOrganizationPermission(organization, 'manager-1', 'listings:delete')).toBe(true);
+      expect(hasOrganizationPermission(organization, 'outsider', 'listings:edit')).toBe(false);
+    });
+
+    it('should reserve organization settings to owners', () => {
+      expect(hasOrganizationPermission(organization, 'owner-1', 'organization:manage')).toBe(true);
+      expect(hasOrganizationPermission(organization, 'manager-1', 'organization:manage')).toBe(false);
+    });
+
+    it('should only let managers assign the salesperson role', () => {
+      expect(canAssignRole('owner', 'owner')).toBe(true);
+      expect(canAssignRole('manager', 'salesperson')).toBe(true);
+      expect(canAssignRole('manager', 'manager')).toBe(false);
+      expect(canAssignRole('salesperson', 'salesperson')).toBe(false);
+      expect(canAssignRole(null, 'salesperson')).toBe(false);
+    });
+
+    it('should count owners', () => {
+      expect(countOwners(organization)).toBe(1);
+    });
+  });
+
+  describe('applyOrganizationDefaults', () => {
+    const defaults = { announcerName: 'Auto Center Paulista', announcerPhone: '11987654321' };
+
+    it('should fill in the announcer from the organization when missing', () => {
+      expect(applyOrganizationDefaults(defaults, { title: 'Civic' })).toEqual({ title: 'Civic', ...defaults });
+    });
+
+    it('should keep the announcer informed in the listing', () => {
+      expect(applyOrganizationDefaults(defaults, { announcerName: 'Carlos Vendedor' }).announcerName).toBe('Carlos Vendedor');
+    });
+  });
+
+  describe('schemas', () => {
+    it('should invite as salesperson by default', () => {
+      expect(inviteMemberSchema.parse({ email: 'vendedor@example.com' }).role).toBe('salesperson');
+      expect(inviteMemberSchema.safeParse({ email: 'vendedor@example.com', role: 'admin' }).success).toBe(false);
+    });
+
+    it('should validate the announcer phone defaults like a listing', () => {
+      expect(createOrganizationSchema.safeParse({ name: 'Loja', announcerPhone: '123' }).success).toBe(false);
+      expect(createOrganizationSchema.safeParse({ name: 'Loja', announcerPhone: '11987654321' }).success).toBe(true);
+    });
+  });
+});
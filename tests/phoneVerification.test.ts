@@ -0,0 +1,49 @@
+import { generatePhoneCode, normalizePhone } from '../src/services/phoneVerificationService';
+import { MemorySmsProvider } from '../src/services/smsService';
+import { isVerifiedSeller } from '../src/services/vehicleService';
+import { phoneVerificationSchema } from '../src/schemas/userSchema';
+
+describe('Phone Verification', () => {
+  it('should generate 6-digit codes', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generatePhoneCode()).toMatch(/^\d{6}$/);
+    }
+  });
+
+  it('should normalize phones to digits only', () => {
+    expect(normalizePhone('(11) 98765-4321')).toBe('11987654321');
+    expect(normalizePhone(undefined)).toBe('');
+  });
+
+  it('should validate the confirmation code', () => {
+    expect(() => phoneVerificationSchema.parse({ code: '123456' })).not.toThrow();
+    expect(() => phoneVerificationSchema.parse({ code: '12345' })).toThrow();
+    expect(() => phoneVerificationSchema.parse({ code: 'abcdef' })).toThrow();
+  });
+
+  describe('MemorySmsProvider', () => {
+    it('should keep sent messages for inspection', async () => {
+      const provider = new MemorySmsProvider();
+      await provider.send({ to: '11987654321', body: 'primeiro' });
+      await provider.send({ to: '11987654321', body: 'segundo' });
+
+      expect(provider.messages).toHaveLength(2);
+      expect(provider.lastMessageTo('11987654321')?.body).toBe('segundo');
+      expect(provider.lastMessageTo('21999999999')).toBeUndefined();
+    });
+  });
+
+  describe('isVerifiedSeller', () => {
+    const owner = { phone: '11987654321', phoneVerified: true };
+
+    it('should show the badge when the listing phone is the verified owner phone', () => {
+      expect(isVerifiedSeller(owner, '(11) 98765-4321')).toBe(true);
+    });
+
+    it('should not show the badge for another phone or an unverified owner', () => {
+      expect(isVerifiedSeller(owner, '11900000000')).toBe(false);
+      expect(isVerifiedSeller({ ...owner, phoneVerified: false }, '11987654321')).toBe(false);
+      expect(isVerifiedSeller(null, '11987654321')).toBe(false);
+    });
+  });
+});
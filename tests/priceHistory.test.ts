@@ -0,0 +1,24 @@
+import { getPriceChangeFields, recentPriceDropFilter, RECENT_PRICE_DROP_DAYS } from '../src/services/priceHistoryService';
+
+describe('Price history', () => {
+  const now = new Date('2024-05-20T12:00:00.000Z');
+
+  describe('getPriceChangeFields', () => {
+    it('should ignore updates that keep the same price', () => {
+      expect(getPriceChangeFields(95000, 95000, now)).toBeNull();
+    });
+
+    it('should flag a price reduction', () => {
+      expect(getPriceChangeFields(95000, 89900, now)).toEqual({ previousPrice: 95000, priceDroppedAt: now });
+    });
+
+    it('should clear the reduction flag when the price goes up', () => {
+      expect(getPriceChangeFields(89900, 92000, now)).toEqual({ previousPrice: 89900, priceDroppedAt: null });
+    });
+  });
+
+  it('should only match recent reductions in search', () => {
+    const since = new Date(now.getTime() - RECENT_PRICE_DROP_DAYS * 24 * 60 * 60 * 1000);
+    expect(recentPriceDropFilter(now)).toEqual({ priceDroppedAt: { $gte: since } });
+  });
+});
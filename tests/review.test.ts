@@ -0,0 +1,49 @@
+import { toRatingStats } from '../src/services/reviewService';
+import { createReviewSchema, replyReviewSchema, reportReviewSchema } from '../src/schemas/reviewSchema';
+import { resolveReviewReportSchema, listReviewReportsQuerySchema } from '../src/schemas/adminSchema';
+
+describe('Reviews', () => {
+  describe('toRatingStats', () => {
+    it('should average ratings with one decimal place', () => {
+      expect(toRatingStats(14, 3)).toEqual({ average: 4.7, count: 3 });
+      expect(toRatingStats(10, 2)).toEqual({ average: 5, count: 2 });
+    });
+
+    it('should have no average without reviews', () => {
+      expect(toRatingStats(0, 0)).toEqual({ average: null, count: 0 });
+    });
+  });
+
+  describe('createReviewSchema', () => {
+    const review = { sellerId: '65bb7b1c3e3a3e3e3e3e3e3e', rating: 5, text: 'Vendedor atencioso e honesto.' };
+
+    it('should accept ratings from 1 to 5', () => {
+      expect(createReviewSchema.safeParse(review).success).toBe(true);
+      expect(createReviewSchema.safeParse({ ...review, rating: 1 }).success).toBe(true);
+    });
+
+    it('should reject ratings out of range or fractional', () => {
+      expect(createReviewSchema.safeParse({ ...review, rating: 0 }).success).toBe(false);
+      expect(createReviewSchema.safeParse({ ...review, rating: 6 }).success).toBe(false);
+      expect(createReviewSchema.safeParse({ ...review, rating: 4.5 }).success).toBe(false);
+    });
+
+    it('should require a meaningful text', () => {
+      expect(createReviewSchema.safeParse({ ...review, text: 'Ok' }).success).toBe(false);
+    });
+  });
+
+  it('should validate replies, reports and moderation actions', () => {
+    expect(replyReviewSchema.safeParse({ text: '' }).success).toBe(false);
+    expect(reportReviewSchema.safeParse({ reason: 'Ofensivo e falso' }).success).toBe(true);
+    expect(resolveReviewReportSchema.safeParse({ action: 'hide_review' }).success).toBe(true);
+    expect(resolveReviewReportSchema.safeParse({ action: 'delete' }).success).toBe(false);
+  });
+
+  it('should list open reports by default and reject unknown statuses or operators', () => {
+    expect(listReviewReportsQuerySchema.parse({})).toEqual({ status: 'open' });
+    expect(listReviewReportsQuerySchema.parse({ status: 'dismissed' })).toEqual({ status: 'dismissed' });
+    expect(listReviewReportsQuerySchema.safeParse({ status: 'closed' }).success).toBe(false);
+    expect(listReviewReportsQuerySchema.safeParse({ status: { $ne: 'open' } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+import { buildVehicleSearchFilter } from '../src/services/vehicleService';
+import { isSavedSearchDue, savedSearchListingsFilter, buildSavedSearchDigest, sendSavedSearchAlerts } from '../src/services/savedSearchService';
+import { createSavedSearchSchema, updateSavedSearchSchema } from '../src/schemas/savedSearchSchema';
+import SavedSearch from '../src/models/SavedSearch';
+import Vehicle from '../src/models/Vehicle';
+import User from '../src/models/User';
+import { sendMailWithRetry } from '../src/services/emailService';
+
+jest.mock('../src/models/SavedSearch', () => ({
+  ...jest.requireActual('../src/models/SavedSearch'),
+  __esModule: true,
+  default: { find: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../src/models/Vehicle', () => ({
+  ...jest.requireActual('../src/models/Vehicle'),
+  __esModule: true,
+  default: { countDocuments: jest.fn(), find: jest.fn() },
+}));
+
+jest.mock('../src/models/User', () => ({
+  ...jest.requireActual('../src/models/User'),
+  __esModule: true,
+  default: { findById: jest.fn() },
+}));
+
+jest.mock('../src/services/vehicleService', () => ({
+  ...jest.requireActual('../src/services/vehicleService'),
+  toVehicleListItems: jest.fn().mockResolvedValue([]),
+}));
+
+jest.mock('../src/services/emailService', () => ({
+  ...jest.requireActual('../src/services/emailService'),
+  sendMailWithRetry: jest.fn(),
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Saved searches', () => {
+  const now = new Date('2024-06-10T12:00:00.000Z');
+
+  describe('buildVehicleSearchFilter', () => {
+    it('should build the same filter as the public search', () => {
+      const filter = buildVehicleSearchFilter({ brand: 'Citroën', minPrice: '30000', maxPrice: '50000', city: 'Campinas' }, now);
+
+      expect(filter.brand).toEqual({ $regex: /Citroen/i });
+      expect(filter.price).toEqual({ $gte: 30000, $lte: 50000 });
+      expect(filter.city).toEqual({ $regex: /Campinas/i });
+      expect(filter.status).toEqual({ $in: ['active', null] });
+    });
+
+    it('should ignore invalid numeric values', () => {
+      expect(buildVehicleSearchFilter({ minPrice: 'abc' }, now)).not.toHaveProperty('price');
+    });
+
+    it('should match regular expression characters literally', () => {
+      const filter = buildVehicleSearchFilter({ name: 'c++ (', engine: '1.0', city: '.*' }, now);
+
+      expect(filter.engine.$regex.test('1.0 Turbo')).toBe(true);
+      expect(filter.engine.$regex.test('100')).toBe(false);
+      expect(filter.city.$regex.test('Campinas')).toBe(false);
+      expect(filter.$and[0].$or[0].title.test('Motor c++')).toBe(true);
+    });
+  });
+
+  it('should match alerts with the search filter, restricted to listings published by other sellers', () => {
+    const query = { brand: 'Honda', maxPrice: '90000' };
+    const since = new Date(now.getTime() - 24 * HOUR_MS);
+
+    expect(savedSearchListingsFilter({ query, user_id: 'u1' as any }, since, now)).toEqual({
+      ...buildVehicleSearchFilter(query, now),
+      owner_id: { $ne: 'u1' },
+      publishedAt: { $gt: since, $lte: now },
+    });
+  });
+
+  describe('isSavedSearchDue', () => {
+    it('should run instant alerts on every execution', () => {
+      expect(isSavedSearchDue('instant', now, now)).toBe(true);
+    });
+
+    it('should wait a day or a week since the last run', () => {
+      expect(isSavedSearchDue('daily', new Date(now.getTime() - 23 * HOUR_MS), now)).toBe(false);
+      expect(isSavedSearchDue('daily', new Date(now.getTime() - 24 * HOUR_MS), now)).toBe(true);
+      expect(isSavedSearchDue('weekly', new Date(now.getTime() - 6 * 24 * HOUR_MS), now)).toBe(false);
+      expect(isSavedSearchDue('weekly', new Date(now.getTime() - 7 * 24 * HOUR_MS), now)).toBe(true);
+    });
+  });
+
+  describe('createSavedSearchSchema', () => {
+    it('should default to daily alerts and store values as strings', () => {
+      const result = createSavedSearchSchema.parse({ name: 'SUV até 100 mil', query: { bodyType: 'SUV', maxPrice: 100000 } });
+      expect(result).toEqual({ name: 'SUV até 100 mil', query: { bodyType: 'SUV', maxPrice: '100000' }, frequency: 'daily' });
+    });
+
+    it('should reject unknown parameters and empty searches', () => {
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { page: '2' } }).success).toBe(false);
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: {} }).success).toBe(false);
+    });
+
+    it('should reject non-scalar and non-numeric filter values', () => {
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { brand: { $ne: null } } }).success).toBe(false);
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { brand: ['Fiat', 'Ford'] } }).success).toBe(false);
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { maxPrice: 'barato' } }).success).toBe(false);
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { priceDropped: 'sim' } }).success).toBe(false);
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { engine: '1.0', priceDropped: 'true' } }).success).toBe(true);
+    });
+
+    it('should reject unknown frequencies', () => {
+      expect(createSavedSearchSchema.safeParse({ name: 'Busca', query: { brand: 'Fiat' }, frequency: 'hourly' }).success).toBe(false);
+    });
+
+    it('should not reset the frequency on partial updates', () => {
+      expect(updateSavedSearchSchema.parse({ name: 'Outro nome' })).toEqual({ name: 'Outro nome' });
+    });
+  });
+
+  describe('buildSavedSearchDigest', () => {
+    const listings = [
+      { _id: 'v1', title: 'Fit <EX>', price: 65000, city: 'Campinas', state: 'SP', firstImageUrl: 'https://res.cloudinary.com/test_cloud/image/upload/v1.webp' },
+      { _id: 'v2', title: 'City', price: 72000, firstImageUrl: null },
+    ];
+
+    it('should list each new listing with its thumbnail', () => {
+      const { subject, html } = buildSavedSearchDigest('Honda', listings, 2, 'https://pontocarro.test/busca?brand=Honda');
+      expect(subject).toContain('2 novo(s)');
+      expect(html).toContain('<img src="https://res.cloudinary.com/test_cloud/image/upload/v1.webp"');
+      expect(html).toContain('Fit &#60;EX&#62;');
+      expect(html).toContain('Abrir a busca');
+    });
+
+    it('should link to the full search when there are more listings than shown', () => {
+      const { html } = buildSavedSearchDigest('Honda', listings, 15, 'https://pontocarro.test/busca?brand=Honda');
+      expect(html).toContain('E mais 13 anúncio(s)');
+    });
+  });
+
+  describe('sendSavedSearchAlerts', () => {
+    const clock = { now: () => now };
+    const lastRunAt = new Date(now.getTime() - 24 * HOUR_MS);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should keep processing the other searches when one of them fails', async () => {
+      const searches = [
+        { _id: 's1', user_id: 'u1', name: 'Honda', query: { brand: 'Honda' }, last_run_at: lastRunAt },
+        { _id: 's2', user_id: 'u2', name: 'Fiat', query: { brand: 'Fiat' }, last_run_at: lastRunAt },
+      ];
+      (SavedSearch.find as jest.Mock).mockResolvedValue(searches);
+      (SavedSearch.findOneAndUpdate as jest.Mock)
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce(searches[1]);
+      (Vehicle.countDocuments as jest.Mock).mockResolvedValue(0);
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(sendSavedSearchAlerts(clock)).resolves.toBe(0);
+
+      expect(consoleError).toHaveBeenCalledWith('Erro ao enviar alerta da busca salva s1:', expect.any(Error));
+      expect(Vehicle.countDocuments).toHaveBeenCalledWith(savedSearchListingsFilter(searches[1] as any, lastRunAt, now));
+      consoleError.mockRestore();
+    });
+
+    it('should hand the window back when the email cannot be sent', async () => {
+      const search = { _id: 's1', user_id: 'u1', name: 'Honda', query: { brand: 'Honda' }, last_run_at: lastRunAt };
+      (SavedSearch.find as jest.Mock).mockResolvedValue([search]);
+      (SavedSearch.findOneAndUpdate as jest.Mock).mockResolvedValue(search);
+      (Vehicle.countDocuments as jest.Mock).mockResolvedValue(2);
+      (Vehicle.find as jest.Mock).mockReturnValue({ select: () => ({ sort: () => ({ limit: async () => [] }) }) });
+      (User.findById as jest.Mock).mockReturnValue({ select: async () => ({ username: 'Maria', email: 'maria@example.com' }) });
+      (sendMailWithRetry as jest.Mock).mockRejectedValue(new Error('SMTP unavailable'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(sendSavedSearchAlerts(clock)).resolves.toBe(0);
+
+      expect(SavedSearch.updateOne).toHaveBeenCalledTimes(1);
+      expect(SavedSearch.updateOne).toHaveBeenCalledWith({ _id: 's1', last_run_at: now }, { $set: { last_run_at: lastRunAt } });
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { rotateSession, revokeSession, revokeAllSessions } from '../src/services/sessionService';
+import { signRefreshToken, signAccessToken, hashToken, verifyToken } from '../src/services/tokenService';
+import Session from '../src/models/Session';
+
+jest.mock('../src/models/Session', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn(), updateMany: jest.fn() },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Sessions', () => {
+  const req = { ip: '203.0.113.7', get: () => 'Mozilla/5.0 (X11; Linux x86_64) Firefox/120.0' } as any;
+  const activeSession = { _id: 'session-1', user_id: 'user-1', expiresAt: new Date(Date.now() + HOUR_MS) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Session.findById as jest.Mock).mockResolvedValue(activeSession);
+    (Session.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  describe('rotateSession', () => {
+    it('should replace the refresh token hash and issue a new pair', async () => {
+      const refreshToken = signRefreshToken('user-1', 'session-1');
+      (Session.findOneAndUpdate as jest.Mock).mockResolvedValue(activeSession);
+
+      const result = await rotateSession(refreshToken, req);
+
+      expect(result).not.toBeNull();
+      expect(result!.refreshToken).not.toBe(refreshToken);
+      expect(verifyToken(result!.accessToken)).toMatchObject({ id: 'user-1', sid: 'session-1', type: 'access' });
+      expect(Session.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'session-1', refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+        { $set: expect.objectContaining({ refreshTokenHash: hashToken(result!.refreshToken), ip: req.ip }) },
+        { new: true }
+      );
+      expect(Session.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the whole session when an already rotated token is reused', async () => {
+      const rotatedToken = signRefreshToken('user-1', 'session-1');
+      (Session.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await expect(rotateSession(rotatedToken, req)).resolves.toBeNull();
+
+      expect(Session.updateOne).toHaveBeenCalledWith(
+        { _id: 'session-1', revokedAt: null },
+        { $set: { revokedAt: expect.any(Date), revokedReason: 'refresh_token_reuse' } }
+      );
+      consoleWarn.mockRestore();
+    });
+
+    it('should not rotate revoked or expired sessions', async () => {
+      const refreshToken = signRefreshToken('user-1', 'session-1');
+
+      for (const session of [
+        { ...activeSession, revokedAt: new Date() },
+        { ...activeSession, expiresAt: new Date(Date.now() - HOUR_MS) },
+        { ...activeSession, user_id: 'user-2' },
+      ]) {
+        (Session.findById as jest.Mock).mockResolvedValue(session);
+        await expect(rotateSession(refreshToken, req)).resolves.toBeNull();
+      }
+      expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse access tokens', async () => {
+      await expect(rotateSession(signAccessToken('user-1', 'session-1'), req)).rejects.toThrow();
+      expect(Session.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSession', () => {
+    it('should only revoke sessions owned by the given user', async () => {
+      (Session.updateOne as jest.Mock).mockResolvedValue({ modifiedCount: 0 });
+
+      await expect(revokeSession('session-9', 'user_revoked', 'user-1')).resolves.toBe(false);
+
+      expect(Session.updateOne).toHaveBeenCalledWith(
+        { _id: 'session-9', revokedAt: null, user_id: 'user-1' },
+        { $set: { revokedAt: expect.any(Date), revokedReason: 'user_revoked' } }
+      );
+    });
+  });
+
+  describe('revokeAllSessions', () => {
+    it('should keep the current session when revoking the others', async () => {
+      (Session.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 2 });
+
+      await expect(revokeAllSessions('user-1', 'user_revoked_others', 'session-1')).resolves.toBe(2);
+
+      expect(Session.updateMany).toHaveBeenCalledWith(
+        { user_id: 'user-1', revokedAt: null, _id: { $ne: 'session-1' } },
+        { $set: { revokedAt: expect.any(Date), revokedReason: 'user_revoked_others' } }
+      );
+    });
+
+    it('should revoke every session when no current session is given', async () => {
+      (Session.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 3 });
+
+      await revokeAllSessions('user-1', 'password_changed');
+
+      expect(Session.updateMany).toHaveBeenCalledWith(
+        { user_id: 'user-1', revokedAt: null },
+        { $set: { revokedAt: expect.any(Date), revokedReason: 'password_changed' } }
+      );
+    });
+  });
+});
@@ -1,7 +1,11 @@
+import { generateKeyPairSync } from 'crypto';
+
 // Configurações globais para testes
 process.env.NODE_ENV = 'test';
 process.env.PORT = '3002';
-process.env.JWT_SECRET = 'test_jwt_secret_key_for_testing';
+// Chave EC P-256 gerada a cada execução para assinar os tokens (ES256)
+process.env.JWT_PRIVATE_KEY = generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+  .privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
 process.env.MONGO_URI = 'mongodb://localhost:27017/pontocarro_test';
 process.env.GMAIL_ADDRESS = 'test@example.com';
 process.env.GMAIL_APP_PASSWORD = 'test_password';
@@ -18,7 +22,7 @@ jest.mock('mongoose', () => ({
     on: jest.fn(),
     once: jest.fn(),
   },
-  Schema: jest.fn(),
+  Schema: Object.assign(jest.fn().mockImplementation(() => ({ index: jest.fn() })), { Types: { ObjectId: 'ObjectId' } }),
   model: jest.fn(),
 }));
 
@@ -0,0 +1,116 @@
+import { authenticateUser } from '../src/middleware/authMiddleware';
+import { signAccessToken, verifyToken } from '../src/services/tokenService';
+import { revokeAllUserTokens } from '../src/services/tokenRevocationService';
+import User from '../src/models/User';
+import RevokedToken from '../src/models/RevokedToken';
+import Session from '../src/models/Session';
+
+jest.mock('../src/models/User', () => ({
+  __esModule: true,
+  default: { findById: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../src/models/RevokedToken', () => ({
+  __esModule: true,
+  default: { exists: jest.fn() },
+}));
+
+jest.mock('../src/models/Session', () => ({
+  __esModule: true,
+  default: { exists: jest.fn(), updateMany: jest.fn() },
+}));
+
+describe('Token revocation', () => {
+  const callAuthenticate = async (token: string) => {
+    const req = { header: (name: string) => (name === 'Authorization' ? `Bearer ${token}` : undefined) } as any;
+    const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as any;
+    const next = jest.fn();
+    await authenticateUser(req, res, next);
+    return { res, next };
+  };
+
+  const mockUser = (tokensValidAfter?: Date) => {
+    (User.findById as jest.Mock).mockResolvedValue({ _id: 'user-1', accountStatus: 'active', tokensValidAfter });
+  };
+
+  const issuedAt = (token: string) => new Date(verifyToken(token).iat! * 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockUser();
+    (RevokedToken.exists as jest.Mock).mockResolvedValue(null);
+    (Session.exists as jest.Mock).mockResolvedValue({ _id: 'session-1' });
+  });
+
+  it('should accept a token that was not revoked', async () => {
+    const { next } = await callAuthenticate(signAccessToken('user-1', 'session-1'));
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject a token whose jti was revoked', async () => {
+    const token = signAccessToken('user-1', 'session-1');
+    (RevokedToken.exists as jest.Mock).mockResolvedValue({ _id: 'revoked-1' });
+
+    const { res, next } = await callAuthenticate(token);
+
+    expect(RevokedToken.exists).toHaveBeenCalledWith({ jti: verifyToken(token).jti });
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject a token issued before tokensValidAfter', async () => {
+    const token = signAccessToken('user-1', 'session-1');
+    mockUser(new Date(issuedAt(token).getTime() + 1000));
+
+    const { res, next } = await callAuthenticate(token);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject a token of a revoked session', async () => {
+    (Session.exists as jest.Mock).mockResolvedValue(null);
+
+    const { res, next } = await callAuthenticate(signAccessToken('user-1', 'session-1'));
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  describe('revocation within the second the token was issued', () => {
+    // iat tem precisão de segundos: no mesmo segundo, tokensValidAfter não distingue tokens antigos de novos
+    const sameSecond = (token: string) => new Date(issuedAt(token).getTime() + 500);
+
+    it('should accept a token issued right after the revocation by a new session', async () => {
+      const token = signAccessToken('user-1', 'session-2');
+      mockUser(sameSecond(token));
+
+      const { next } = await callAuthenticate(token);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should still reject an older token from that second through its revoked session', async () => {
+      const token = signAccessToken('user-1', 'session-1');
+      mockUser(sameSecond(token));
+      (Session.exists as jest.Mock).mockResolvedValue(null);
+
+      const { res, next } = await callAuthenticate(token);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should move tokensValidAfter and revoke every session of the user', async () => {
+    (Session.updateMany as jest.Mock).mockResolvedValue({ modifiedCount: 2 });
+
+    await revokeAllUserTokens('user-1', 'password_changed');
+
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: 'user-1' }, { $set: { tokensValidAfter: expect.any(Date) } });
+    expect(Session.updateMany).toHaveBeenCalledWith(
+      { user_id: 'user-1', revokedAt: null },
+      { $set: { revokedAt: expect.any(Date), revokedReason: 'password_changed' } }
+    );
+  });
+});
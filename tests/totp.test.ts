@@ -0,0 +1,114 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  verifyTotp,
+  getTimeStep,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+} from '../src/services/totpService';
+import { signRefreshToken, signPurposeToken } from '../src/services/tokenService';
+import { TWO_FACTOR_CHALLENGE_PURPOSE } from '../src/services/loginService';
+import { authenticateUser } from '../src/middleware/authMiddleware';
+
+// Segredo dos vetores de teste da RFC 6238 (Apêndice B, SHA1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Service', () => {
+  describe('base32', () => {
+    it('should encode the RFC secret', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253]);
+      expect(base32Decode(base32Encode(bytes)).equals(bytes)).toBe(true);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow();
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, seconds * 1000, 8)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1700000000000;
+
+    it('should accept the current code and return its step', () => {
+      const code = generateTotp(RFC_SECRET, now);
+      expect(verifyTotp(RFC_SECRET, code, { timeMs: now })).toBe(getTimeStep(now));
+    });
+
+    it('should accept a code from the previous step within the window', () => {
+      const code = generateTotp(RFC_SECRET, now - 30000);
+      expect(verifyTotp(RFC_SECRET, code, { timeMs: now })).toBe(getTimeStep(now) - 1);
+    });
+
+    it('should reject codes outside the window', () => {
+      const code = generateTotp(RFC_SECRET, now - 90000);
+      expect(verifyTotp(RFC_SECRET, code, { timeMs: now })).toBeNull();
+    });
+
+    it('should reject a code whose step was already used', () => {
+      const code = generateTotp(RFC_SECRET, now);
+      expect(verifyTotp(RFC_SECRET, code, { timeMs: now, lastUsedStep: getTimeStep(now) })).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12ab56', { timeMs: now })).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '1234567', { timeMs: now })).toBeNull();
+    });
+  });
+
+  it('should build an otpauth URI with issuer and secret', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'joao@example.com');
+    expect(uri.startsWith('otpauth://totp/.CARRO%3Ajoao%40example.com?')).toBe(true);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('issuer=.CARRO');
+  });
+
+  it('should generate unique recovery codes', () => {
+    const codes = generateRecoveryCodes(10);
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  describe('login challenge token', () => {
+    const callAuthenticate = async (token: string) => {
+      const req = { header: (name: string) => (name === 'Authorization' ? `Bearer ${token}` : undefined) } as any;
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as any;
+      const next = jest.fn();
+      await authenticateUser(req, res, next);
+      return { res, next };
+    };
+
+    it('should not be accepted as an access token', async () => {
+      const challengeToken = signPurposeToken({ id: 'user-1' }, TWO_FACTOR_CHALLENGE_PURPOSE, '5m');
+      const { res, next } = await callAuthenticate(challengeToken);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should reject refresh and email verification tokens as well', async () => {
+      for (const token of [signRefreshToken('user-1', 'session-1'), signPurposeToken({ id: 'user-1' }, 'email-verification', '1h')]) {
+        const { res, next } = await callAuthenticate(token);
+        expect(res.status).toHaveBeenCalledWith(401);
+        expect(next).not.toHaveBeenCalled();
+      }
+    });
+  });
+});
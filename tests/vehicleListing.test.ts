@@ -0,0 +1,21 @@
+import { parseListingOptions } from '../src/services/vehicleService';
+
+describe('Vehicle Listing Options', () => {
+  it('should default to the newest vehicles, 10 per page', () => {
+    expect(parseListingOptions({})).toEqual({ page: 1, limit: 10, skip: 0, sort: { created_at: -1 } });
+  });
+
+  it('should compute the offset from page and limit', () => {
+    expect(parseListingOptions({ page: '3', limit: '20' })).toMatchObject({ page: 3, limit: 20, skip: 40 });
+  });
+
+  it('should map createdAt to created_at and sort other fields ascending by default', () => {
+    expect(parseListingOptions({ sortBy: 'createdAt' }).sort).toEqual({ created_at: -1 });
+    expect(parseListingOptions({ sortBy: 'price' }).sort).toEqual({ price: 1 });
+    expect(parseListingOptions({ sortBy: 'price', sortOrder: 'desc' }).sort).toEqual({ price: -1 });
+  });
+
+  it('should list the most recent price reductions first', () => {
+    expect(parseListingOptions({ sortBy: 'priceDroppedAt' }).sort).toEqual({ priceDroppedAt: -1 });
+  });
+});
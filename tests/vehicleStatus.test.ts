@@ -0,0 +1,91 @@
+import { getNextVehicleStatus, publicVehicleFilter, isVehicleContentLocked, PUBLIC_VEHICLE_EXCLUDED_FIELDS, PUBLIC_LISTING_EXCLUDED_FIELDS } from '../src/services/vehicleService';
+import { createVehicleSchema, sellVehicleSchema } from '../src/schemas/vehicleSchema';
+
+describe('Vehicle status', () => {
+  describe('getNextVehicleStatus', () => {
+    it('should follow the allowed transitions', () => {
+      expect(getNextVehicleStatus('draft', 'publish')).toBe('active');
+      expect(getNextVehicleStatus('active', 'pause')).toBe('paused');
+      expect(getNextVehicleStatus('paused', 'sell')).toBe('sold');
+      expect(getNextVehicleStatus('expired', 'reactivate')).toBe('active');
+    });
+
+    it('should reject transitions from the wrong status', () => {
+      expect(getNextVehicleStatus('active', 'publish')).toBeNull();
+      expect(getNextVehicleStatus('draft', 'sell')).toBeNull();
+      expect(getNextVehicleStatus('sold', 'reactivate')).toBeNull();
+      expect(getNextVehicleStatus('paused', 'pause')).toBeNull();
+    });
+
+    it('should treat listings without status as active', () => {
+      expect(getNextVehicleStatus(undefined, 'pause')).toBe('paused');
+    });
+  });
+
+  describe('publicVehicleFilter', () => {
+    it('should only include legacy listings when active ones are requested', () => {
+      expect(publicVehicleFilter(['active', 'sold']).status).toEqual({ $in: ['active', 'sold', null] });
+      expect(publicVehicleFilter(['sold']).status).toEqual({ $in: ['sold'] });
+    });
+  });
+
+  describe('createVehicleSchema', () => {
+    const vehicle = {
+      title: 'Civic EXL',
+      brand: 'Honda',
+      vehicleModel: 'Civic',
+      engine: '2.0',
+      year: 2020,
+      price: 110000,
+      mileage: 35000,
+      state: 'SP',
+      city: 'São Paulo',
+      fuel: 'Flex',
+      transmission: 'Automático',
+      bodyType: 'Sedan',
+      color: 'Prata',
+      description: 'Único dono, revisões na concessionária.',
+      announcerName: 'João Silva',
+      announcerEmail: 'joao@example.com',
+      announcerPhone: '11987654321',
+    };
+
+    it('should accept creating a listing as draft', () => {
+      expect(createVehicleSchema.safeParse({ ...vehicle, status: 'draft' }).success).toBe(true);
+    });
+
+    it('should not allow creating a listing already sold', () => {
+      expect(createVehicleSchema.safeParse({ ...vehicle, status: 'sold' }).success).toBe(false);
+    });
+  });
+
+  describe('sellVehicleSchema', () => {
+    it('should require a non-negative final price', () => {
+      expect(sellVehicleSchema.safeParse({ soldPrice: 95000 }).success).toBe(true);
+      expect(sellVehicleSchema.safeParse({ soldPrice: -1 }).success).toBe(false);
+      expect(sellVehicleSchema.safeParse({}).success).toBe(false);
+    });
+
+    it('should parse the sale date', () => {
+      const result = sellVehicleSchema.parse({ soldPrice: 95000, soldAt: '2024-03-10T15:00:00.000Z' });
+      expect(result.soldAt).toEqual(new Date('2024-03-10T15:00:00.000Z'));
+    });
+  });
+
+  describe('isVehicleContentLocked', () => {
+    it('should lock the data and photos of sold listings only', () => {
+      expect(isVehicleContentLocked({ status: 'sold' })).toBe(true);
+      for (const status of ['draft', 'active', 'paused', 'expired'] as const) {
+        expect(isVehicleContentLocked({ status })).toBe(false);
+      }
+    });
+  });
+
+  describe('public fields', () => {
+    it('should keep sale data and lifecycle bookkeeping out of public responses', () => {
+      for (const fields of [PUBLIC_VEHICLE_EXCLUDED_FIELDS, PUBLIC_LISTING_EXCLUDED_FIELDS]) {
+        expect(fields.split(' ')).toEqual(expect.arrayContaining(['-soldPrice', '-soldAt', '-statusChangedAt', '-expiryRemindersSent', '-announcerEmail']));
+      }
+    });
+  });
+});